@@ -6,18 +6,21 @@ import Header from "./components/Header";
 import { Routes } from "./routes";
 import { StrictMode } from "react";
 import { AuthProvider } from "./context/auth";
+import { NotificationsProvider } from "./context/notifications";
 
 const App = () => (
   <StrictMode>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Header />
-          <Routes />
-        </BrowserRouter>
-      </TooltipProvider>
+      <NotificationsProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Header />
+            <Routes />
+          </BrowserRouter>
+        </TooltipProvider>
+      </NotificationsProvider>
     </AuthProvider>
   </StrictMode>
 );
@@ -0,0 +1,488 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, MessageCircle } from "lucide-react";
+import {
+  AttendanceStatsRow,
+  AttendanceTrendRow,
+  WEEKDAY_LABELS,
+  atRiskReasons,
+  missedClassesMessage,
+  summarizeStats,
+  trendPoints,
+} from "@/lib/attendanceAnalytics";
+
+interface RosterStudent {
+  id: string;
+  enrollment_id: string;
+  full_name: string;
+  absences: number;
+  total_classes: number;
+  attendance_rate: number;
+}
+
+interface AttendanceAnalyticsProps {
+  classData: Tables<"classes">;
+  students: RosterStudent[];
+  onSettingsChange: () => void;
+}
+
+const trendConfig = {
+  rate: { label: "Frequência (%)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const HeatCell = ({ value }: { value: number | null }) => (
+  <TableCell className="p-1 text-center">
+    {value === null ? (
+      <span className="text-muted-foreground">–</span>
+    ) : (
+      <div
+        className="rounded px-1 py-1 text-xs font-medium"
+        style={{
+          backgroundColor: `hsl(var(--primary) / ${0.1 + (value / 100) * 0.8})`,
+          color:
+            value >= 60
+              ? "hsl(var(--primary-foreground))"
+              : "hsl(var(--foreground))",
+        }}
+      >
+        {Math.round(value)}%
+      </div>
+    )}
+  </TableCell>
+);
+
+const AttendanceAnalytics = ({
+  classData,
+  students,
+  onSettingsChange,
+}: AttendanceAnalyticsProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [stats, setStats] = useState<AttendanceStatsRow[]>([]);
+  const [trendRows, setTrendRows] = useState<AttendanceTrendRow[]>([]);
+  const [settings, setSettings] = useState({
+    at_risk_rate: String(classData.at_risk_rate),
+    at_risk_absences: String(classData.at_risk_absences),
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadStats();
+  }, [classData.id, students]);
+
+  useEffect(() => {
+    setSettings({
+      at_risk_rate: String(classData.at_risk_rate),
+      at_risk_absences: String(classData.at_risk_absences),
+    });
+  }, [classData.at_risk_rate, classData.at_risk_absences]);
+
+  // Resumos calculados no banco, sem baixar o histórico de chamadas
+  const loadStats = async () => {
+    const [statsResult, trendResult] = await Promise.all([
+      supabase.rpc("class_attendance_stats", { _class_id: classData.id }),
+      supabase.rpc("class_attendance_trend", { _class_id: classData.id }),
+    ]);
+
+    if (statsResult.error || trendResult.error) {
+      console.error(
+        "Error loading attendance analytics:",
+        statsResult.error ?? trendResult.error
+      );
+      return;
+    }
+
+    setStats(statsResult.data);
+    setTrendRows(trendResult.data);
+  };
+
+  const handleSaveSettings = async () => {
+    const rate = Number(settings.at_risk_rate);
+    const absences = Number(settings.at_risk_absences);
+
+    if (
+      !Number.isInteger(rate) ||
+      rate < 0 ||
+      rate > 100 ||
+      !Number.isInteger(absences) ||
+      absences < 1
+    ) {
+      toast({
+        title: "Erro",
+        description:
+          "Informe uma frequência entre 0 e 100% e pelo menos 1 falta seguida.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("classes")
+      .update({ at_risk_rate: rate, at_risk_absences: absences })
+      .eq("id", classData.id);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao salvar alertas",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Alertas de frequência atualizados" });
+    onSettingsChange();
+  };
+
+  const { streaks, classWeekdays, weekdaysOf } = summarizeStats(stats);
+  const trend = trendPoints(trendRows);
+  const weekdays = WEEKDAY_LABELS.map((label, day) => ({ label, day })).filter(
+    ({ day }) => classWeekdays[day] !== null
+  );
+
+  const atRisk = students
+    .map((student) => ({
+      student,
+      streak: streaks[student.enrollment_id],
+      reasons: atRiskReasons(
+        student.attendance_rate,
+        student.total_classes,
+        streaks[student.enrollment_id],
+        classData
+      ),
+    }))
+    .filter(({ reasons }) => reasons.length > 0);
+
+  const contactStudent = (student: RosterStudent) =>
+    navigate(
+      `/chat?contact=${student.id}&mensagem=${encodeURIComponent(
+        missedClassesMessage(student.full_name, classData.activity)
+      )}`
+    );
+
+  return (
+    <>
+      <Card className="shadow-soft">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Alunos em Risco
+          </CardTitle>
+          <CardDescription>
+            Alunos com frequência abaixo de {classData.at_risk_rate}% ou com{" "}
+            {classData.at_risk_absences === 1
+              ? "alguma falta na última aula"
+              : `${classData.at_risk_absences} faltas seguidas ou mais`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {atRisk.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">
+              Nenhum aluno em risco no momento
+            </p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {atRisk.map(({ student, streak, reasons }) => (
+                <div
+                  key={student.id}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium">{student.full_name}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {reasons.includes("low_rate") && (
+                        <Badge variant="destructive">
+                          Frequência de {student.attendance_rate.toFixed(1)}%
+                        </Badge>
+                      )}
+                      {reasons.includes("absences") && (
+                        <Badge variant="destructive">
+                          {streak.consecutiveAbsences === 1
+                            ? "Faltou na última aula"
+                            : `${streak.consecutiveAbsences} faltas seguidas`}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => contactStudent(student)}
+                  >
+                    <MessageCircle className="w-4 h-4 mr-2" />
+                    Falar com o aluno
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="atRiskRate">Frequência mínima (%)</Label>
+              <Input
+                id="atRiskRate"
+                type="number"
+                min={0}
+                max={100}
+                className="md:w-40"
+                value={settings.at_risk_rate}
+                onChange={(e) =>
+                  setSettings({ ...settings, at_risk_rate: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="atRiskAbsences">Faltas seguidas</Label>
+              <Input
+                id="atRiskAbsences"
+                type="number"
+                min={1}
+                className="md:w-40"
+                value={settings.at_risk_absences}
+                onChange={(e) =>
+                  setSettings({ ...settings, at_risk_absences: e.target.value })
+                }
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleSaveSettings}
+              disabled={saving}
+            >
+              {saving ? "Salvando..." : "Salvar alertas"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle>Frequência por Aula</CardTitle>
+            <CardDescription>
+              Percentual de presentes nas últimas aulas
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {trend.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                Nenhuma chamada registrada ainda
+              </p>
+            ) : (
+              <ChartContainer config={trendConfig}>
+                <LineChart data={trend} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                  <YAxis
+                    domain={[0, 100]}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => `${value}%`}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line
+                    dataKey="rate"
+                    type="monotone"
+                    stroke="var(--color-rate)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle>Frequência por Dia da Semana</CardTitle>
+            <CardDescription>
+              Quanto mais escuro, maior a presença
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {weekdays.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                Nenhuma chamada registrada ainda
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {weekdays.map(({ label, day }) => (
+                      <TableHead key={day} className="text-center">
+                        {label}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="font-semibold">Turma</TableCell>
+                    {weekdays.map(({ day }) => (
+                      <HeatCell key={day} value={classWeekdays[day]} />
+                    ))}
+                  </TableRow>
+                  {students.map((student) => {
+                    const rates = weekdaysOf(student.enrollment_id);
+                    return (
+                      <TableRow key={student.id}>
+                        <TableCell className="font-medium">
+                          {student.full_name}
+                        </TableCell>
+                        {weekdays.map(({ day }) => (
+                          <HeatCell key={day} value={rates[day]} />
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-soft">
+        <CardHeader>
+          <CardTitle>Frequência Consolidada</CardTitle>
+          <CardDescription>
+            Visão geral da frequência de todos os alunos
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Aluno</TableHead>
+                <TableHead className="text-center">Total de Aulas</TableHead>
+                <TableHead className="text-center">Presenças</TableHead>
+                <TableHead className="text-center">Faltas</TableHead>
+                <TableHead className="text-center">% Frequência</TableHead>
+                <TableHead className="text-center">Sequência atual</TableHead>
+                <TableHead className="text-center">Melhor sequência</TableHead>
+                <TableHead className="text-center">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {students.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={8}
+                    className="text-center text-muted-foreground py-8"
+                  >
+                    Nenhum registro de frequência ainda
+                  </TableCell>
+                </TableRow>
+              ) : (
+                students.map((student) => {
+                  const streak = streaks[student.enrollment_id];
+
+                  return (
+                    <TableRow key={student.id}>
+                      <TableCell className="font-medium">
+                        {student.full_name}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {student.total_classes}
+                      </TableCell>
+                      <TableCell className="text-center text-green-600 font-semibold">
+                        {student.total_classes - student.absences}
+                      </TableCell>
+                      <TableCell className="text-center text-red-600 font-semibold">
+                        {student.absences}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Badge
+                          variant={
+                            student.attendance_rate >= classData.at_risk_rate
+                              ? "default"
+                              : "destructive"
+                          }
+                          className="font-semibold"
+                        >
+                          {student.attendance_rate.toFixed(1)}%
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {streak ? (
+                          <span
+                            className={
+                              streak.currentPresent
+                                ? "text-green-600"
+                                : "text-red-600"
+                            }
+                          >
+                            {streak.current}{" "}
+                            {streak.currentPresent
+                              ? streak.current === 1
+                                ? "presença"
+                                : "presenças"
+                              : streak.current === 1
+                                ? "falta"
+                                : "faltas"}
+                          </span>
+                        ) : (
+                          "–"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {streak ? streak.bestPresent : "–"}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            navigate(`/chat?contact=${student.id}`)
+                          }
+                        >
+                          <MessageCircle className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </>
+  );
+};
+
+export default AttendanceAnalytics;
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Download, FileSpreadsheet, FileText } from "lucide-react";
+import { formatSchedule } from "@/lib/schedule";
+import { ClassSession, sortSessions, todayISO } from "@/lib/sessions";
+import {
+  ENROLLMENT_STATUS_LABELS,
+  formatEnrollmentDate,
+} from "@/lib/enrollment";
+import { errorMessage } from "@/lib/errors";
+import {
+  Cell,
+  Sheet,
+  attendanceMark,
+  downloadAttendanceSheetPdf,
+  downloadCsv,
+  downloadXlsx,
+  fileSlug,
+  formatCpf,
+  formatMonth,
+  sessionColumns,
+  sessionMonth,
+} from "@/lib/attendanceExport";
+
+interface RosterStudent {
+  id: string;
+  enrollment_id: string;
+  full_name: string;
+  absences: number;
+  total_classes: number;
+  attendance_rate: number;
+}
+
+interface AttendanceExportMenuProps {
+  classData: Tables<"classes">;
+  sessions: ClassSession[];
+  students: RosterStudent[];
+}
+
+type ExportKind =
+  "roster-csv" | "matrix-csv" | "frequency-csv" | "xlsx" | "pdf";
+
+const AttendanceExportMenu = ({
+  classData,
+  sessions,
+  students,
+}: AttendanceExportMenuProps) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+  const [month, setMonth] = useState(todayISO().slice(0, 7));
+
+  const monthSessions = (month: string) =>
+    sortSessions(sessions).filter(
+      (s) => s.status === "scheduled" && sessionMonth(s) === month
+    );
+  const months = [
+    ...new Set(
+      sessions.filter((s) => s.session_date <= todayISO()).map(sessionMonth)
+    ),
+  ]
+    .sort()
+    .reverse();
+
+  const rosterSheet = async (): Promise<Sheet> => {
+    const { data: enrollments, error } = await supabase
+      .from("enrollments")
+      .select("id, student_id, status, created_at")
+      .in(
+        "id",
+        students.map((s) => s.enrollment_id)
+      );
+
+    if (error) throw error;
+
+    const { data: details } = await supabase
+      .from("students")
+      .select("user_id, cpf, birth_date, phone, email")
+      .in(
+        "user_id",
+        students.map((s) => s.id)
+      );
+
+    return {
+      name: "Alunos",
+      rows: [
+        [
+          "Aluno",
+          "CPF",
+          "Nascimento",
+          "Telefone",
+          "E-mail",
+          "Situação",
+          "Matrícula",
+        ],
+        ...students.map((student) => {
+          const enrollment = enrollments?.find(
+            (e) => e.id === student.enrollment_id
+          );
+          const info = details?.find((d) => d.user_id === student.id);
+          return [
+            student.full_name,
+            info ? formatCpf(info.cpf) : "",
+            info ? formatEnrollmentDate(info.birth_date) : "",
+            info?.phone ?? "",
+            info?.email ?? "",
+            enrollment ? ENROLLMENT_STATUS_LABELS[enrollment.status] : "",
+            enrollment?.created_at
+              ? formatEnrollmentDate(enrollment.created_at)
+              : "",
+          ];
+        }),
+      ],
+    };
+  };
+
+  const matrixRows = async () => {
+    const selected = monthSessions(month);
+    const marks: Record<string, boolean> = {};
+
+    if (selected.length > 0) {
+      const { data, error } = await supabase
+        .from("attendance")
+        .select("enrollment_id, session_id, present")
+        .in(
+          "session_id",
+          selected.map((s) => s.id)
+        );
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        marks[`${row.enrollment_id}:${row.session_id}`] = !!row.present;
+      }
+    }
+
+    return {
+      columns: sessionColumns(selected),
+      rows: students.map((student): Cell[] => [
+        student.full_name,
+        ...selected.map((s) =>
+          attendanceMark(marks[`${student.enrollment_id}:${s.id}`])
+        ),
+      ]),
+    };
+  };
+
+  const matrixSheet = async (): Promise<Sheet> => {
+    const { columns, rows } = await matrixRows();
+
+    return {
+      name: `Chamada ${month}`,
+      rows: [
+        ["Aluno", ...columns, "Presenças", "Faltas"],
+        ...rows.map((row) => [
+          ...row,
+          row.filter((cell) => cell === "P").length,
+          row.filter((cell) => cell === "F").length,
+        ]),
+      ],
+    };
+  };
+
+  const frequencySheet = (): Sheet => ({
+    name: "Frequência",
+    rows: [
+      ["Aluno", "Total de aulas", "Presenças", "Faltas", "% Frequência"],
+      ...students.map((student) => [
+        student.full_name,
+        student.total_classes,
+        student.total_classes - student.absences,
+        student.absences,
+        Number(student.attendance_rate.toFixed(1)),
+      ]),
+    ],
+  });
+
+  const handleExport = async (kind: ExportKind) => {
+    const base = fileSlug(classData.activity);
+    setExporting(true);
+
+    try {
+      if (kind === "roster-csv") {
+        downloadCsv(`${base}-alunos.csv`, (await rosterSheet()).rows);
+      } else if (kind === "matrix-csv") {
+        downloadCsv(`${base}-chamada-${month}.csv`, (await matrixSheet()).rows);
+      } else if (kind === "frequency-csv") {
+        downloadCsv(`${base}-frequencia.csv`, frequencySheet().rows);
+      } else if (kind === "xlsx") {
+        await downloadXlsx(`${base}-${month}.xlsx`, [
+          await rosterSheet(),
+          await matrixSheet(),
+          frequencySheet(),
+        ]);
+      } else {
+        const { data: professional } = await supabase
+          .from("professionals")
+          .select("full_name, cref")
+          .eq("id", classData.professional_id)
+          .single();
+        const { columns, rows } = await matrixRows();
+
+        await downloadAttendanceSheetPdf(
+          `${base}-lista-de-presenca-${month}.pdf`,
+          {
+            activity: classData.activity,
+            professional: professional?.full_name ?? "",
+            cref: professional?.cref ?? "",
+            location: classData.location,
+            schedule: formatSchedule(classData),
+            month: formatMonth(month),
+          },
+          columns,
+          rows
+        );
+      }
+    } catch (error) {
+      console.error("Error exporting attendance:", error);
+      toast({
+        title: "Erro ao exportar",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={month} onValueChange={setMonth}>
+        <SelectTrigger className="w-48 capitalize">
+          <SelectValue placeholder="Mês" />
+        </SelectTrigger>
+        <SelectContent>
+          {(months.includes(month) ? months : [month, ...months]).map((m) => (
+            <SelectItem key={m} value={m} className="capitalize">
+              {formatMonth(m)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={exporting}>
+            <Download className="w-4 h-4 mr-2" />
+            {exporting ? "Exportando..." : "Exportar"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Planilhas</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Tudo em Excel (XLSX)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("roster-csv")}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Alunos (CSV)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("matrix-csv")}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Chamada do mês (CSV)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("frequency-csv")}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Frequência (CSV)
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Para imprimir</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => handleExport("pdf")}>
+            <FileText className="w-4 h-4 mr-2" />
+            Lista de presença do mês (PDF)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export default AttendanceExportMenu;
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { QrCode } from "lucide-react";
+import { format } from "date-fns";
+import { ClassSession, formatSession } from "@/lib/sessions";
+import { checkInErrorMessage, checkInUrl } from "@/lib/checkIn";
+
+// Duração de cada código, igual à do banco
+const CODE_STEP_MS = 30_000;
+
+interface CheckInQrCodeProps {
+  classId: string;
+  session?: ClassSession;
+}
+
+interface CheckInCode {
+  code: string;
+  expires_at: string;
+  opens_at: string;
+  closes_at: string;
+}
+
+const CheckInQrCode = ({ classId, session }: CheckInQrCodeProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [checkIn, setCheckIn] = useState<CheckInCode | null>(null);
+
+  // Busca um código novo sempre que o anterior expira
+  useEffect(() => {
+    if (!open || !session) return;
+
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const refresh = async () => {
+      const { data, error } = await supabase.rpc("session_check_in_code", {
+        _session_id: session.id,
+      });
+
+      if (error) {
+        toast({
+          title: "Não foi possível gerar o QR Code",
+          description: checkInErrorMessage(error),
+          variant: "destructive",
+        });
+        setOpen(false);
+        return;
+      }
+
+      // O relógio do aparelho pode estar adiantado ou atrasado: nunca espera
+      // mais que um passo, para não deixar um código vencido na tela
+      const current = data[0];
+      setCheckIn(current);
+      timeout = setTimeout(
+        refresh,
+        Math.min(
+          Math.max(new Date(current.expires_at).getTime() - Date.now(), 1000),
+          CODE_STEP_MS
+        )
+      );
+    };
+
+    refresh();
+
+    return () => {
+      clearTimeout(timeout);
+      setCheckIn(null);
+    };
+  }, [open, session?.id]);
+
+  const now = new Date();
+  const notOpenYet = checkIn && now < new Date(checkIn.opens_at);
+  const closed = checkIn && now > new Date(checkIn.closes_at);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        disabled={!session || session.status === "cancelled"}
+      >
+        <QrCode className="h-4 w-4 mr-2" />
+        QR Code da chamada
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Chamada por QR Code</DialogTitle>
+            <DialogDescription className="capitalize">
+              {session && formatSession(session, true)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-col items-center gap-4 py-2">
+            {checkIn ? (
+              <QRCodeSVG
+                value={checkInUrl(classId, checkIn.code)}
+                size={280}
+                className="w-full h-auto max-w-[280px]"
+              />
+            ) : (
+              <div className="w-[280px] h-[280px] flex items-center justify-center text-muted-foreground">
+                Gerando código...
+              </div>
+            )}
+            <p className="text-sm text-center text-muted-foreground">
+              Os alunos leem o código em "Minhas Turmas" ou com a câmera do
+              celular. Ele muda a cada 30 segundos.
+            </p>
+            {notOpenYet && (
+              <p className="text-sm text-center font-medium text-primary">
+                A chamada abre às {format(new Date(checkIn.opens_at), "HH:mm")}.
+              </p>
+            )}
+            {closed && (
+              <p className="text-sm text-center font-medium text-destructive">
+                A chamada desta aula já foi encerrada. Marque as presenças na
+                lista.
+              </p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CheckInQrCode;
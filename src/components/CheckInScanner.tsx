@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { QrCode } from "lucide-react";
+import { checkInErrorMessage, parseCheckInCode } from "@/lib/checkIn";
+
+interface CheckInScannerProps {
+  className?: string;
+  onCheckIn?: (classId: string) => void;
+}
+
+const CheckInScanner = ({ className, onCheckIn }: CheckInScannerProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [cameraError, setCameraError] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const submit = async (code: string) => {
+    setSubmitting(true);
+
+    const { data, error } = await supabase.rpc("check_in", { _code: code });
+
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Presença não registrada",
+        description: checkInErrorMessage(error),
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const result = data[0];
+    toast({
+      title: result.already_checked_in
+        ? "Presença já registrada"
+        : "Presença confirmada!",
+      description: `Aula de ${result.activity}.`,
+    });
+    onCheckIn?.(result.class_id);
+    setOpen(false);
+    return true;
+  };
+
+  // Lê os quadros da câmera até encontrar um código de chamada
+  useEffect(() => {
+    if (!open) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    let rejected: string | null = null;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const result = jsQR(image.data, image.width, image.height);
+        const code = result && parseCheckInCode(result.data);
+
+        // Um código recusado não é enviado de novo a cada quadro
+        if (code && code !== rejected && !(await submit(code))) {
+          rejected = code;
+        }
+      }
+
+      frame = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+        });
+
+        if (stopped) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frame = requestAnimationFrame(scan);
+      } catch (error) {
+        console.error("Error opening camera:", error);
+        setCameraError(true);
+      }
+    };
+
+    setCameraError(false);
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open]);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className={className}
+        onClick={() => setOpen(true)}
+      >
+        <QrCode className="h-4 w-4 mr-2" />
+        Marcar presença
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Marcar presença</DialogTitle>
+            <DialogDescription>
+              Aponte a câmera para o QR Code na tela do professor.
+            </DialogDescription>
+          </DialogHeader>
+
+          {cameraError ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              Não foi possível abrir a câmera. Verifique a permissão do
+              navegador ou leia o código com o aplicativo de câmera do celular.
+            </p>
+          ) : (
+            <div className="relative overflow-hidden rounded-md bg-muted">
+              <video
+                ref={videoRef}
+                className="w-full aspect-square object-cover"
+                muted
+                playsInline
+              />
+              {submitting && (
+                <div className="absolute inset-0 flex items-center justify-center bg-background/70 text-sm font-medium">
+                  Registrando presença...
+                </div>
+              )}
+            </div>
+          )}
+          <canvas ref={canvasRef} className="hidden" />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CheckInScanner;
@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  ClassCategory,
+  ClassLevel,
+  categoryLabel,
+  levelLabel,
+} from "@/lib/classes";
+
+interface ClassBadgesProps {
+  category?: ClassCategory | null;
+  level?: ClassLevel | null;
+  className?: string;
+}
+
+const ClassBadges = ({ category, level, className }: ClassBadgesProps) => {
+  if (!category && !level) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {category && <Badge>{categoryLabel(category)}</Badge>}
+      {level && <Badge variant="outline">{levelLabel(level)}</Badge>}
+    </div>
+  );
+};
+
+export default ClassBadges;
@@ -0,0 +1,647 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MessageSquareReply,
+  Pencil,
+  Pin,
+  PinOff,
+  Send,
+  SmilePlus,
+  Trash2,
+} from "lucide-react";
+import {
+  FORUM_PAGE_SIZE,
+  FORUM_REACTIONS,
+  ForumMessage,
+  ForumReaction,
+  authorInitials,
+  formatForumDate,
+  formatReplyCount,
+  forumErrorMessage,
+  summarizeReactions,
+} from "@/lib/forum";
+
+interface ClassForumProps {
+  classId: string;
+  // Professor dono da turma: fixa avisos e modera as mensagens
+  isOwner?: boolean;
+  // Turmas arquivadas ficam só para leitura
+  canPost?: boolean;
+  onChange?: () => void;
+}
+
+const ClassForum = ({
+  classId,
+  isOwner = false,
+  canPost = true,
+  onChange,
+}: ClassForumProps) => {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [pinned, setPinned] = useState<ForumMessage[]>([]);
+  const [threads, setThreads] = useState<ForumMessage[]>([]);
+  const [replies, setReplies] = useState<Record<string, ForumMessage[]>>({});
+  const [reactions, setReactions] = useState<ForumReaction[]>([]);
+  const [limit, setLimit] = useState(FORUM_PAGE_SIZE);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [newMessage, setNewMessage] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [deleting, setDeleting] = useState<ForumMessage | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // O canal do realtime recarrega sempre com a página atual
+  const reload = useRef<() => void>();
+  // Ids das mensagens na tela, para filtrar os eventos do realtime
+  const loadedIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      setUserId(user?.id ?? null);
+    });
+  }, []);
+
+  useEffect(() => {
+    fetchForum();
+  }, [classId, limit]);
+
+  useEffect(() => {
+    // O realtime não aplica filtros a exclusões, que chegam só com a chave:
+    // elas e as reações só recarregam se tocam uma mensagem na tela
+    const isLoaded = (id?: string) => !!id && loadedIds.current.has(id);
+
+    const channel = supabase
+      .channel(`forum-${classId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "forum_messages",
+          filter: `class_id=eq.${classId}`,
+        },
+        () => reload.current?.()
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "forum_messages",
+          filter: `class_id=eq.${classId}`,
+        },
+        () => reload.current?.()
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "forum_messages" },
+        (payload) => {
+          if (isLoaded(payload.old.id)) reload.current?.();
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "forum_reactions" },
+        (payload) => {
+          const row =
+            payload.eventType === "DELETE" ? payload.old : payload.new;
+          if (isLoaded(row.message_id)) reload.current?.();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [classId]);
+
+  const fetchForum = async () => {
+    const [pinnedResult, threadsResult] = await Promise.all([
+      supabase
+        .from("forum_posts")
+        .select("*")
+        .eq("class_id", classId)
+        .is("parent_id", null)
+        .not("pinned_at", "is", null)
+        .order("pinned_at", { ascending: false }),
+      // Um a mais para saber se há outra página
+      supabase
+        .from("forum_posts")
+        .select("*")
+        .eq("class_id", classId)
+        .is("parent_id", null)
+        .is("pinned_at", null)
+        .order("created_at", { ascending: false })
+        .range(0, limit),
+    ]);
+
+    const error = pinnedResult.error || threadsResult.error;
+    if (error) {
+      console.error("Error fetching forum:", error);
+      setLoadingMore(false);
+      return;
+    }
+
+    const page = threadsResult.data || [];
+    const topLevel = [...(pinnedResult.data || []), ...page.slice(0, limit)];
+    const threadIds = topLevel.map((m) => m.id);
+
+    let replyRows: ForumMessage[] = [];
+    let reactionRows: ForumReaction[] = [];
+
+    if (threadIds.length > 0) {
+      const { data: replyData } = await supabase
+        .from("forum_posts")
+        .select("*")
+        .in("parent_id", threadIds)
+        .order("created_at", { ascending: true });
+      replyRows = replyData || [];
+
+      const { data: reactionData } = await supabase
+        .from("forum_reactions")
+        .select("*")
+        .in("message_id", [...threadIds, ...replyRows.map((r) => r.id)]);
+      reactionRows = reactionData || [];
+    }
+
+    const byThread: Record<string, ForumMessage[]> = {};
+    for (const row of replyRows) {
+      byThread[row.parent_id] = [...(byThread[row.parent_id] || []), row];
+    }
+
+    setPinned(pinnedResult.data || []);
+    setThreads(page.slice(0, limit));
+    setHasMore(page.length > limit);
+    setReplies(byThread);
+    setReactions(reactionRows);
+    setLoadingMore(false);
+    loadedIds.current = new Set([
+      ...topLevel.map((m) => m.id),
+      ...replyRows.map((r) => r.id),
+    ]);
+
+    // Lido até a mensagem mais nova carregada: o que chegar depois continua
+    // como não lido
+    const newest = [...topLevel, ...replyRows]
+      .map((m) => m.created_at)
+      .sort()
+      .pop();
+    if (!newest) return;
+
+    supabase
+      .rpc("mark_forum_read", { _class_id: classId, _read_at: newest })
+      .then(({ error }) => {
+        if (error) console.error("Error marking forum as read:", error);
+      });
+  };
+
+  const afterChange = async () => {
+    await fetchForum();
+    onChange?.();
+  };
+
+  reload.current = afterChange;
+
+  const showError = (title: string, error: { message?: string }) => {
+    toast({
+      title,
+      description: forumErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const handlePost = async (text: string, parentId: string | null = null) => {
+    if (!text.trim() || !userId) return false;
+
+    setSaving(true);
+    const { error } = await supabase.from("forum_messages").insert({
+      class_id: classId,
+      user_id: userId,
+      message: text.trim(),
+      parent_id: parentId,
+    });
+    setSaving(false);
+
+    if (error) {
+      showError("Erro ao enviar mensagem", error);
+      return false;
+    }
+
+    await afterChange();
+    return true;
+  };
+
+  const handleSend = async () => {
+    if (await handlePost(newMessage)) setNewMessage("");
+  };
+
+  const handleReply = async (threadId: string) => {
+    if (await handlePost(reply, threadId)) {
+      setReply("");
+      setReplyingTo(null);
+    }
+  };
+
+  const handleEdit = async (messageId: string) => {
+    if (!editText.trim()) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("forum_messages")
+      .update({ message: editText.trim() })
+      .eq("id", messageId);
+    setSaving(false);
+
+    if (error) {
+      showError("Erro ao editar mensagem", error);
+      return;
+    }
+
+    setEditingId(null);
+    await afterChange();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase
+      .from("forum_messages")
+      .delete()
+      .eq("id", deleting.id);
+    setDeleting(null);
+
+    if (error) {
+      showError("Erro ao apagar mensagem", error);
+      return;
+    }
+
+    toast({ title: "Mensagem apagada" });
+    await afterChange();
+  };
+
+  const handlePin = async (message: ForumMessage) => {
+    const { error } = await supabase.rpc("pin_forum_message", {
+      _message_id: message.id,
+      _pinned: !message.pinned_at,
+    });
+
+    if (error) {
+      showError("Erro ao fixar aviso", error);
+      return;
+    }
+
+    toast({
+      title: message.pinned_at ? "Aviso desafixado" : "Aviso fixado",
+      description: message.pinned_at
+        ? undefined
+        : "Ele aparece no topo da página da turma para os alunos.",
+    });
+    await afterChange();
+  };
+
+  const handleReaction = async (
+    messageId: string,
+    emoji: string,
+    mine: boolean
+  ) => {
+    if (!userId) return;
+
+    const { error } = mine
+      ? await supabase
+          .from("forum_reactions")
+          .delete()
+          .eq("message_id", messageId)
+          .eq("user_id", userId)
+          .eq("emoji", emoji)
+      : await supabase
+          .from("forum_reactions")
+          .insert({ message_id: messageId, user_id: userId, emoji });
+
+    if (error && error.code !== "23505") {
+      showError("Erro ao reagir", error);
+      return;
+    }
+
+    await fetchForum();
+  };
+
+  const reactionSummary = summarizeReactions(reactions, userId);
+
+  const renderMessage = (message: ForumMessage, isReply = false) => {
+    const isAuthor = message.user_id === userId;
+    const messageReactions = reactionSummary[message.id] || [];
+
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap justify-between items-start gap-2">
+          <div className="flex items-center gap-2">
+            <Avatar className={isReply ? "h-6 w-6" : "h-8 w-8"}>
+              <AvatarImage
+                src={message.author_avatar_url || undefined}
+                alt={message.author_name || ""}
+              />
+              <AvatarFallback className="text-xs">
+                {authorInitials(message.author_name)}
+              </AvatarFallback>
+            </Avatar>
+            <span className="font-semibold">
+              {message.author_name || "Usuário"}
+            </span>
+            {message.author_is_professional && (
+              <Badge variant="outline">Professor</Badge>
+            )}
+            {message.pinned_at && (
+              <Badge variant="secondary">
+                <Pin className="h-3 w-3 mr-1" />
+                Fixado
+              </Badge>
+            )}
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {formatForumDate(message.created_at)}
+            {message.edited_at && " · editado"}
+          </span>
+        </div>
+
+        {editingId === message.id ? (
+          <div className="space-y-2">
+            <Textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              rows={isReply ? 2 : 3}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleEdit(message.id)}
+                disabled={saving}
+              >
+                Salvar
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setEditingId(null)}
+              >
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm whitespace-pre-wrap">{message.message}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-1">
+          {messageReactions.map((r) => (
+            <Button
+              key={r.emoji}
+              size="sm"
+              variant={r.mine ? "secondary" : "outline"}
+              className="h-7 px-2"
+              onClick={() => handleReaction(message.id, r.emoji, r.mine)}
+            >
+              {r.emoji} {r.count}
+            </Button>
+          ))}
+
+          {canPost && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-muted-foreground"
+                  aria-label="Reagir"
+                >
+                  <SmilePlus className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-1 flex gap-1">
+                {FORUM_REACTIONS.map((emoji) => {
+                  const mine = !!messageReactions.find(
+                    (r) => r.emoji === emoji && r.mine
+                  );
+                  return (
+                    <Button
+                      key={emoji}
+                      size="sm"
+                      variant={mine ? "secondary" : "ghost"}
+                      className="h-8 w-8 p-0 text-lg"
+                      onClick={() => handleReaction(message.id, emoji, mine)}
+                    >
+                      {emoji}
+                    </Button>
+                  );
+                })}
+              </PopoverContent>
+            </Popover>
+          )}
+
+          {canPost && !isReply && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2"
+              onClick={() => {
+                setReply("");
+                setReplyingTo(message.id);
+              }}
+            >
+              <MessageSquareReply className="h-4 w-4 mr-1" />
+              Responder
+            </Button>
+          )}
+          {isOwner && !isReply && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2"
+              onClick={() => handlePin(message)}
+            >
+              {message.pinned_at ? (
+                <PinOff className="h-4 w-4 mr-1" />
+              ) : (
+                <Pin className="h-4 w-4 mr-1" />
+              )}
+              {message.pinned_at ? "Desafixar" : "Fixar"}
+            </Button>
+          )}
+          {isAuthor && canPost && editingId !== message.id && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2"
+              onClick={() => {
+                setEditText(message.message);
+                setEditingId(message.id);
+              }}
+            >
+              <Pencil className="h-4 w-4 mr-1" />
+              Editar
+            </Button>
+          )}
+          {(isAuthor || isOwner) && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-muted-foreground"
+              onClick={() => setDeleting(message)}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Apagar
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderThread = (thread: ForumMessage) => {
+    const threadReplies = replies[thread.id] || [];
+
+    return (
+      <Card
+        key={thread.id}
+        className={thread.pinned_at ? "border-primary/50" : undefined}
+      >
+        <CardContent className="pt-4 space-y-3">
+          {renderMessage(thread)}
+
+          {threadReplies.length > 0 && (
+            <div className="space-y-3 border-l-2 pl-4 ml-1">
+              <p className="text-xs text-muted-foreground">
+                {formatReplyCount(threadReplies.length)}
+              </p>
+              {threadReplies.map((r) => (
+                <div key={r.id}>{renderMessage(r, true)}</div>
+              ))}
+            </div>
+          )}
+
+          {replyingTo === thread.id && (
+            <div className="space-y-2 pl-4 ml-1 border-l-2">
+              <Textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                placeholder="Escreva sua resposta"
+                rows={2}
+                autoFocus
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleReply(thread.id)}
+                  disabled={saving || !reply.trim()}
+                >
+                  Responder
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setReplyingTo(null)}
+                >
+                  Cancelar
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {canPost && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder={
+              isOwner
+                ? "Escreva um aviso ou abra uma conversa com a turma..."
+                : "Escreva uma mensagem para a turma..."
+            }
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            rows={3}
+          />
+          <Button
+            onClick={handleSend}
+            disabled={saving || !newMessage.trim()}
+            className="w-full"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Enviar
+          </Button>
+        </div>
+      )}
+
+      {pinned.length === 0 && threads.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          Ainda não há mensagens no fórum
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {pinned.map(renderThread)}
+          {threads.map(renderThread)}
+        </div>
+      )}
+
+      {hasMore && (
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={loadingMore}
+          onClick={() => {
+            setLoadingMore(true);
+            setLimit(limit + FORUM_PAGE_SIZE);
+          }}
+        >
+          {loadingMore ? "Carregando..." : "Carregar mensagens anteriores"}
+        </Button>
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Apagar mensagem?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting && !deleting.parent_id && replies[deleting.id]?.length
+                ? "As respostas desta conversa também serão apagadas."
+                : "A mensagem some do fórum para todos da turma."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Apagar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ClassForum;
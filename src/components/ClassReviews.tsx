@@ -0,0 +1,385 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Flag, MessageSquareReply } from "lucide-react";
+import StarRating from "@/components/StarRating";
+import {
+  ClassReview,
+  REPORT_REASONS,
+  formatRating,
+  formatReviewCount,
+  reviewErrorMessage,
+} from "@/lib/reviews";
+
+interface ClassReviewsProps {
+  classId: string;
+  // Professor dono da turma: responde às avaliações e vê as ocultas
+  isOwner?: boolean;
+  // Aluno com matrícula (atual ou antiga) na turma
+  isStudent?: boolean;
+  onChange?: () => void;
+}
+
+interface Eligibility {
+  can_review: boolean;
+  presences: number;
+  required_presences: number;
+}
+
+const ClassReviews = ({
+  classId,
+  isOwner = false,
+  isStudent = false,
+  onChange,
+}: ClassReviewsProps) => {
+  const { toast } = useToast();
+  const [reviews, setReviews] = useState<ClassReview[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [eligibility, setEligibility] = useState<Eligibility | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [reporting, setReporting] = useState<ClassReview | null>(null);
+  const [reportReason, setReportReason] = useState(REPORT_REASONS[0]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [classId]);
+
+  useEffect(() => {
+    if (isStudent) fetchEligibility();
+  }, [classId, isStudent]);
+
+  const fetchReviews = async () => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    setUserId(user?.id ?? null);
+
+    const { data, error } = await supabase
+      .from("class_reviews")
+      .select("*")
+      .eq("class_id", classId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching reviews:", error);
+      return;
+    }
+
+    setReviews(data || []);
+
+    const own = data?.find((review) => review.student_id === user?.id);
+    if (own) {
+      setRating(own.rating);
+      setComment(own.comment || "");
+    }
+  };
+
+  const fetchEligibility = async () => {
+    const { data, error } = await supabase.rpc("class_review_eligibility", {
+      _class_id: classId,
+    });
+
+    if (error) {
+      console.error("Error checking review eligibility:", error);
+      return;
+    }
+
+    setEligibility(data?.[0] ?? null);
+  };
+
+  const handleSubmit = async () => {
+    if (!rating) {
+      toast({
+        title: "Escolha uma nota",
+        description: "Selecione de 1 a 5 estrelas.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("submit_class_review", {
+      _class_id: classId,
+      _rating: rating,
+      _comment: comment,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao enviar avaliação",
+        description: reviewErrorMessage(error),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Avaliação enviada!",
+      description: "Obrigado pelo retorno.",
+    });
+    await fetchReviews();
+    onChange?.();
+  };
+
+  const handleReply = async (reviewId: string) => {
+    setSaving(true);
+    const { error } = await supabase.rpc("reply_to_review", {
+      _review_id: reviewId,
+      _reply: reply,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao responder",
+        description: reviewErrorMessage(error),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Resposta publicada" });
+    setReplyingTo(null);
+    await fetchReviews();
+  };
+
+  const handleReport = async () => {
+    if (!reporting || !userId) return;
+
+    setSaving(true);
+    const { error } = await supabase.from("review_reports").insert({
+      review_id: reporting.id,
+      reporter_id: userId,
+      reason: reportReason,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao denunciar",
+        description:
+          error.code === "23505"
+            ? "Você já denunciou esta avaliação."
+            : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Denúncia enviada",
+      description: "Nossa equipe vai analisar esta avaliação.",
+    });
+    setReporting(null);
+    await fetchReviews();
+  };
+
+  const visibleReviews = reviews.filter((review) => !review.hidden_at);
+  const average =
+    visibleReviews.reduce((sum, review) => sum + review.rating, 0) /
+    (visibleReviews.length || 1);
+  const ownReview = reviews.find((review) => review.student_id === userId);
+
+  return (
+    <div className="space-y-4">
+      {visibleReviews.length > 0 && (
+        <div className="flex items-center gap-3">
+          <span className="text-3xl font-bold">{formatRating(average)}</span>
+          <div>
+            <StarRating value={average} size="md" />
+            <p className="text-sm text-muted-foreground">
+              {formatReviewCount(visibleReviews.length)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isStudent &&
+        eligibility &&
+        (eligibility.can_review ? (
+          <div className="space-y-3 rounded-md border p-4">
+            <Label>{ownReview ? "Sua avaliação" : "Avalie esta turma"}</Label>
+            <StarRating value={rating} onChange={setRating} size="lg" />
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Conte como foram as aulas (opcional)"
+              rows={3}
+            />
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving
+                ? "Enviando..."
+                : ownReview
+                  ? "Atualizar avaliação"
+                  : "Enviar avaliação"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Você poderá avaliar esta turma depois de{" "}
+            {eligibility.required_presences} presenças (você tem{" "}
+            {eligibility.presences}).
+          </p>
+        ))}
+
+      {reviews.length === 0 ? (
+        <p className="text-center text-muted-foreground py-4">
+          Esta turma ainda não recebeu avaliações
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <Card key={review.id}>
+              <CardContent className="pt-4 space-y-2">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{review.author_name}</span>
+                    <StarRating value={review.rating} />
+                    {review.hidden_at && (
+                      <Badge variant="destructive">Oculta pela moderação</Badge>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(review.created_at).toLocaleDateString("pt-BR")}
+                  </span>
+                </div>
+
+                {review.comment && <p className="text-sm">{review.comment}</p>}
+
+                {review.reply && replyingTo !== review.id && (
+                  <div className="rounded-md bg-muted p-3 text-sm">
+                    <p className="font-medium mb-1">Resposta do professor</p>
+                    <p>{review.reply}</p>
+                  </div>
+                )}
+
+                {replyingTo === review.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={reply}
+                      onChange={(e) => setReply(e.target.value)}
+                      placeholder="Escreva sua resposta"
+                      rows={2}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleReply(review.id)}
+                        disabled={saving}
+                      >
+                        Publicar resposta
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setReplyingTo(null)}
+                      >
+                        Cancelar
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    {isOwner && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setReply(review.reply || "");
+                          setReplyingTo(review.id);
+                        }}
+                      >
+                        <MessageSquareReply className="h-4 w-4 mr-2" />
+                        {review.reply ? "Editar resposta" : "Responder"}
+                      </Button>
+                    )}
+                    {!isOwner && userId && review.student_id !== userId && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-muted-foreground"
+                        onClick={() => {
+                          setReportReason(REPORT_REASONS[0]);
+                          setReporting(review);
+                        }}
+                      >
+                        <Flag className="h-4 w-4 mr-2" />
+                        Denunciar
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!reporting} onOpenChange={() => setReporting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Denunciar avaliação</DialogTitle>
+            <DialogDescription>
+              Nossa equipe analisa cada denúncia e oculta as avaliações que
+              desrespeitam as regras.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Motivo</Label>
+            <Select value={reportReason} onValueChange={setReportReason}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_REASONS.map((reason) => (
+                  <SelectItem key={reason} value={reason}>
+                    {reason}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReporting(null)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReport}
+              disabled={saving}
+            >
+              Denunciar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ClassReviews;
@@ -0,0 +1,340 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CalendarPlus,
+  CalendarX,
+  CalendarClock,
+  RotateCcw,
+} from "lucide-react";
+import {
+  ClassSession,
+  formatSession,
+  formatSessionDate,
+  isOneOffSession,
+  isSessionMoved,
+  todayISO,
+  upcomingSessions,
+} from "@/lib/sessions";
+
+interface ClassSessionsManagerProps {
+  classId: string;
+  sessions: ClassSession[];
+  defaultStartTime?: string | null;
+  defaultEndTime?: string | null;
+  onChange: () => void;
+}
+
+type DialogState =
+  | { mode: "add" }
+  | { mode: "move"; session: ClassSession }
+  | { mode: "cancel"; session: ClassSession }
+  | null;
+
+const ClassSessionsManager = ({
+  classId,
+  sessions,
+  defaultStartTime,
+  defaultEndTime,
+  onChange,
+}: ClassSessionsManagerProps) => {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    date: "",
+    startTime: "",
+    endTime: "",
+    reason: "",
+  });
+
+  const upcoming = upcomingSessions(sessions);
+
+  const openDialog = (state: DialogState) => {
+    const session = state && state.mode !== "add" ? state.session : null;
+    setForm({
+      date: session?.session_date ?? todayISO(),
+      startTime: (session?.start_time ?? defaultStartTime ?? "").slice(0, 5),
+      endTime: (session?.end_time ?? defaultEndTime ?? "").slice(0, 5),
+      reason: "",
+    });
+    setDialog(state);
+  };
+
+  const runUpdate = async (
+    action: () => PromiseLike<{ error: { message: string } | null }>,
+    successTitle: string
+  ) => {
+    setSaving(true);
+    const { error } = await action();
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao atualizar agenda",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: successTitle });
+    setDialog(null);
+    onChange();
+  };
+
+  const handleConfirm = () => {
+    if (!dialog) return;
+
+    if (dialog.mode === "cancel") {
+      runUpdate(
+        () =>
+          supabase
+            .from("class_sessions")
+            .update({
+              status: "cancelled",
+              cancellation_reason: form.reason.trim() || null,
+            })
+            .eq("id", dialog.session.id),
+        "Aula cancelada"
+      );
+      return;
+    }
+
+    if (!form.date || !form.startTime || !form.endTime) {
+      toast({
+        title: "Erro",
+        description: "Informe a data e os horários da aula.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (form.endTime <= form.startTime) {
+      toast({
+        title: "Erro",
+        description: "O horário de término deve ser depois do início.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (dialog.mode === "add") {
+      runUpdate(
+        () =>
+          supabase.from("class_sessions").insert({
+            class_id: classId,
+            session_date: form.date,
+            start_time: form.startTime,
+            end_time: form.endTime,
+          }),
+        "Aula avulsa adicionada"
+      );
+      return;
+    }
+
+    runUpdate(
+      () =>
+        supabase
+          .from("class_sessions")
+          .update({
+            session_date: form.date,
+            start_time: form.startTime,
+            end_time: form.endTime,
+          })
+          .eq("id", dialog.session.id),
+      "Aula remarcada"
+    );
+  };
+
+  const handleRestore = (session: ClassSession) =>
+    runUpdate(
+      () =>
+        supabase
+          .from("class_sessions")
+          .update({ status: "scheduled", cancellation_reason: null })
+          .eq("id", session.id),
+      "Aula reativada"
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={() => openDialog({ mode: "add" })}>
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Adicionar aula avulsa
+        </Button>
+      </div>
+
+      {upcoming.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          Nenhuma aula programada
+        </p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {upcoming.map((session) => (
+            <div
+              key={session.id}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4"
+            >
+              <div className="space-y-1">
+                <p
+                  className={`font-medium capitalize ${
+                    session.status === "cancelled"
+                      ? "line-through text-muted-foreground"
+                      : ""
+                  }`}
+                >
+                  {formatSession(session, true)}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {session.status === "cancelled" && (
+                    <Badge variant="destructive">Cancelada</Badge>
+                  )}
+                  {isSessionMoved(session) && (
+                    <Badge variant="secondary">
+                      Remarcada de {formatSessionDate(session.original_date!)}
+                    </Badge>
+                  )}
+                  {isOneOffSession(session) && (
+                    <Badge variant="outline">Avulsa</Badge>
+                  )}
+                </div>
+                {session.cancellation_reason && (
+                  <p className="text-sm text-muted-foreground">
+                    Motivo: {session.cancellation_reason}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                {session.status === "cancelled" ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={saving}
+                    onClick={() => handleRestore(session)}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reativar
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openDialog({ mode: "move", session })}
+                    >
+                      <CalendarClock className="w-4 h-4 mr-2" />
+                      Remarcar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => openDialog({ mode: "cancel", session })}
+                    >
+                      <CalendarX className="w-4 h-4 mr-2" />
+                      Cancelar
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.mode === "add" && "Adicionar aula avulsa"}
+              {dialog?.mode === "move" && "Remarcar aula"}
+              {dialog?.mode === "cancel" && "Cancelar aula"}
+            </DialogTitle>
+            {dialog && dialog.mode !== "add" && (
+              <DialogDescription className="capitalize">
+                {formatSession(dialog.session, true)}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          {dialog?.mode === "cancel" ? (
+            <div className="space-y-2">
+              <Label htmlFor="reason">Motivo (opcional)</Label>
+              <Textarea
+                id="reason"
+                placeholder="Ex: Previsão de chuva forte"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              />
+            </div>
+          ) : (
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sessionDate">Data</Label>
+                <Input
+                  id="sessionDate"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sessionStart">Início</Label>
+                <Input
+                  id="sessionStart"
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) =>
+                    setForm({ ...form, startTime: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sessionEnd">Término</Label>
+                <Input
+                  id="sessionEnd"
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) =>
+                    setForm({ ...form, endTime: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Voltar
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={saving}
+              variant={dialog?.mode === "cancel" ? "destructive" : "default"}
+            >
+              {saving ? "Salvando..." : "Confirmar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ClassSessionsManager;
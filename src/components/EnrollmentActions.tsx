@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { addWeeks, format } from "date-fns";
+import { ArrowRightLeft, LogOut, PauseCircle, PlayCircle } from "lucide-react";
+import { ScheduleColumns, formatSchedule } from "@/lib/schedule";
+import {
+  EnrollmentStatus,
+  MAX_PAUSE_WEEKS,
+  enrollmentErrorMessage,
+} from "@/lib/enrollment";
+
+interface EnrollmentActionsProps {
+  enrollment: {
+    id: string;
+    class_id: string;
+    status: EnrollmentStatus;
+    paused_until?: string | null;
+  };
+  professionalId: string;
+  onChange: (transferredToClassId?: string) => void;
+}
+
+interface TransferOption extends ScheduleColumns {
+  id: string;
+  activity: string;
+  location: string;
+}
+
+type DialogMode = "cancel" | "pause" | "transfer" | null;
+
+const EnrollmentActions = ({
+  enrollment,
+  professionalId,
+  onChange,
+}: EnrollmentActionsProps) => {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<DialogMode>(null);
+  const [saving, setSaving] = useState(false);
+  const [reason, setReason] = useState("");
+  const [weeks, setWeeks] = useState("2");
+  const [transferOptions, setTransferOptions] = useState<TransferOption[]>([]);
+  const [targetClassId, setTargetClassId] = useState("");
+
+  const openDialog = async (mode: DialogMode) => {
+    setReason("");
+    setWeeks("2");
+    setTargetClassId("");
+    setDialog(mode);
+
+    if (mode === "transfer") {
+      const { data } = await supabase
+        .from("classes")
+        .select(
+          "id, activity, location, schedule, weekdays, start_time, end_time, timezone"
+        )
+        .eq("professional_id", professionalId)
+        .neq("id", enrollment.class_id)
+        .order("activity");
+
+      setTransferOptions(data || []);
+    }
+  };
+
+  const runAction = async (
+    action: () => PromiseLike<{ error: { message: string } | null }>,
+    successTitle: string,
+    successDescription?: string
+  ) => {
+    setSaving(true);
+    const { error } = await action();
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao atualizar matrícula",
+        description: enrollmentErrorMessage(error),
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({ title: successTitle, description: successDescription });
+    setDialog(null);
+    return true;
+  };
+
+  const handleConfirm = async () => {
+    if (dialog === "cancel") {
+      const done = await runAction(
+        () =>
+          supabase.rpc("cancel_enrollment", {
+            _enrollment_id: enrollment.id,
+            _reason: reason,
+          }),
+        "Matrícula cancelada",
+        "Sua vaga foi liberada para outros alunos."
+      );
+      if (done) onChange();
+      return;
+    }
+
+    if (dialog === "pause") {
+      const done = await runAction(
+        () =>
+          supabase.rpc("pause_enrollment", {
+            _enrollment_id: enrollment.id,
+            _weeks: Number(weeks),
+            _reason: reason,
+          }),
+        "Matrícula pausada",
+        "Sua vaga fica reservada até o fim da pausa."
+      );
+      if (done) onChange();
+      return;
+    }
+
+    if (dialog === "transfer") {
+      if (!targetClassId) {
+        toast({
+          title: "Erro",
+          description: "Selecione a turma de destino.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const done = await runAction(
+        () =>
+          supabase.rpc("transfer_enrollment", {
+            _enrollment_id: enrollment.id,
+            _to_class_id: targetClassId,
+            _reason: reason,
+          }),
+        "Transferência realizada",
+        "Você foi matriculado na nova turma."
+      );
+      if (done) onChange(targetClassId);
+    }
+  };
+
+  const handleResume = async () => {
+    const done = await runAction(
+      () =>
+        supabase.rpc("resume_enrollment", { _enrollment_id: enrollment.id }),
+      "Matrícula retomada"
+    );
+    if (done) onChange();
+  };
+
+  return (
+    <div className="space-y-2">
+      {enrollment.status === "paused" ? (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={saving}
+          onClick={handleResume}
+        >
+          <PlayCircle className="h-4 w-4 mr-2" />
+          Retomar agora
+        </Button>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openDialog("pause")}
+          >
+            <PauseCircle className="h-4 w-4 mr-2" />
+            Pausar
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openDialog("transfer")}
+          >
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Transferir
+          </Button>
+        </div>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full text-destructive"
+        onClick={() => openDialog("cancel")}
+      >
+        <LogOut className="h-4 w-4 mr-2" />
+        Cancelar matrícula
+      </Button>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog === "cancel" && "Cancelar matrícula"}
+              {dialog === "pause" && "Pausar matrícula"}
+              {dialog === "transfer" && "Transferir para outra turma"}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog === "cancel" &&
+                "Você deixará a turma e sua vaga será oferecida a outro aluno."}
+              {dialog === "pause" &&
+                "Sua vaga continua reservada e a matrícula volta a ficar ativa automaticamente."}
+              {dialog === "transfer" &&
+                "Escolha outra turma do mesmo professor. A transferência depende de vaga na turma de destino."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {dialog === "pause" && (
+              <div className="space-y-2">
+                <Label>Duração da pausa</Label>
+                <Select value={weeks} onValueChange={setWeeks}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(
+                      { length: MAX_PAUSE_WEEKS },
+                      (_, i) => i + 1
+                    ).map((n) => (
+                      <SelectItem key={n} value={String(n)}>
+                        {n} {n === 1 ? "semana" : "semanas"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Retorno em{" "}
+                  {format(addWeeks(new Date(), Number(weeks)), "dd/MM/yyyy")}
+                </p>
+              </div>
+            )}
+
+            {dialog === "transfer" && (
+              <div className="space-y-2">
+                <Label>Turma de destino</Label>
+                {transferOptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Este professor não tem outras turmas.
+                  </p>
+                ) : (
+                  <Select
+                    value={targetClassId}
+                    onValueChange={setTargetClassId}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a turma..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {transferOptions.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.activity} • {formatSchedule(option)} •{" "}
+                          {option.location}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="enrollmentReason">Motivo (opcional)</Label>
+              <Textarea
+                id="enrollmentReason"
+                placeholder={
+                  dialog === "pause"
+                    ? "Ex: Viagem de férias"
+                    : "Ex: Mudança de horário"
+                }
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Voltar
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={saving}
+              variant={dialog === "cancel" ? "destructive" : "default"}
+            >
+              {saving ? "Salvando..." : "Confirmar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EnrollmentActions;
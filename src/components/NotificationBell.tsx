@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useNotifications } from "@/context/notifications";
+import { AppNotification, formatNotificationTime } from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+
+const PREVIEW_LIMIT = 5;
+
+const NotificationBell = () => {
+  const { notifications, unreadCount, markAsRead, markAllAsRead } =
+    useNotifications();
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+
+  const openNotification = (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.read_at) markAsRead(notification.id);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={
+            unreadCount > 0 ? `Avisos (${unreadCount} não lidos)` : "Avisos"
+          }
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-semibold">Avisos</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={markAllAsRead}
+            >
+              Marcar todos como lidos
+            </Button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-muted-foreground">
+            Nenhum aviso por enquanto.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {notifications.slice(0, PREVIEW_LIMIT).map((notification) => (
+              <li key={notification.id}>
+                <button
+                  className={cn(
+                    "w-full text-left px-4 py-3 hover:bg-muted transition-colors",
+                    !notification.read_at && "bg-primary/5"
+                  )}
+                  onClick={() => openNotification(notification)}
+                >
+                  <p
+                    className={cn(
+                      "text-sm",
+                      !notification.read_at && "font-semibold"
+                    )}
+                  >
+                    {notification.title}
+                  </p>
+                  {notification.body && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">
+                      {notification.body}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatNotificationTime(notification.created_at)}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="border-t p-2">
+          <Link to="/notificacoes" onClick={() => setOpen(false)}>
+            <Button variant="ghost" className="w-full">
+              Ver todos os avisos
+            </Button>
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,26 @@
+import { Link } from "react-router-dom";
+import { cn } from "@/lib/utils";
+
+interface ProfessionalLinkProps {
+  professionalId: string;
+  name: string;
+  className?: string;
+}
+
+// Nome do professor levando ao perfil público. Não propaga o clique para
+// cards que também são clicáveis.
+const ProfessionalLink = ({
+  professionalId,
+  name,
+  className,
+}: ProfessionalLinkProps) => (
+  <Link
+    to={`/professional/${professionalId}`}
+    onClick={(e) => e.stopPropagation()}
+    className={cn("hover:text-primary hover:underline", className)}
+  >
+    {name}
+  </Link>
+);
+
+export default ProfessionalLink;
@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LEAD_HOUR_OPTIONS,
+  OUTBOUND_CHANNELS,
+  OutboundChannel,
+  ReminderSettings,
+  defaultReminderSettings,
+} from "@/lib/reminders";
+
+const ReminderSettingsCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<ReminderSettings>(
+    defaultReminderSettings(user.id)
+  );
+  const [quietHours, setQuietHours] = useState({
+    enabled: false,
+    start: "22:00",
+    end: "07:00",
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    const { data } = await supabase
+      .from("reminder_settings")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!data) return;
+
+    setSettings(data);
+    if (data.quiet_start && data.quiet_end) {
+      setQuietHours({
+        enabled: true,
+        start: data.quiet_start.slice(0, 5),
+        end: data.quiet_end.slice(0, 5),
+      });
+    }
+  };
+
+  const toggleLeadHours = (hours: number) => {
+    setSettings((prev) => ({
+      ...prev,
+      lead_hours: prev.lead_hours.includes(hours)
+        ? prev.lead_hours.filter((h) => h !== hours)
+        : [...prev.lead_hours, hours].sort((a, b) => b - a),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (
+      quietHours.enabled &&
+      (!quietHours.start ||
+        !quietHours.end ||
+        quietHours.start === quietHours.end)
+    ) {
+      toast({
+        title: "Horário de silêncio inválido",
+        description:
+          "Informe o início e o fim do horário de silêncio, que devem ser diferentes.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = await supabase.from("reminder_settings").upsert(
+      {
+        user_id: user.id,
+        lead_hours: settings.lead_hours,
+        channel: settings.channel,
+        quiet_start: quietHours.enabled ? quietHours.start : null,
+        quiet_end: quietHours.enabled ? quietHours.end : null,
+      },
+      { onConflict: "user_id" }
+    );
+
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao salvar lembretes",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Lembretes atualizados",
+      description:
+        settings.lead_hours.length === 0
+          ? "Você não receberá lembretes antes das aulas."
+          : "Vamos avisar você antes de cada aula.",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Lembretes de aula</CardTitle>
+        <CardDescription>
+          Escolha quando e por onde quer ser lembrado das suas aulas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label className="text-base">Quando avisar</Label>
+          <div className="grid sm:grid-cols-3 gap-3">
+            {LEAD_HOUR_OPTIONS.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`lead-${option.value}`}
+                  checked={settings.lead_hours.includes(option.value)}
+                  onCheckedChange={() => toggleLeadHours(option.value)}
+                />
+                <Label htmlFor={`lead-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reminder-channel" className="text-base">
+            Também enviar por
+          </Label>
+          <Select
+            value={settings.channel ?? "none"}
+            onValueChange={(value) =>
+              setSettings({
+                ...settings,
+                channel: value === "none" ? null : (value as OutboundChannel),
+              })
+            }
+          >
+            <SelectTrigger id="reminder-channel" className="sm:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Somente no app</SelectItem>
+              {OUTBOUND_CHANNELS.map((channel) => (
+                <SelectItem key={channel.value} value={channel.value}>
+                  {channel.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Usamos o e-mail e o telefone do seu cadastro.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="quiet-hours" className="space-y-1">
+              <span className="block text-base">Horário de silêncio</span>
+              <span className="block text-sm font-normal text-muted-foreground">
+                Lembretes que cairiam nesse horário são enviados antes dele
+                começar.
+              </span>
+            </Label>
+            <Switch
+              id="quiet-hours"
+              checked={quietHours.enabled}
+              onCheckedChange={(enabled) =>
+                setQuietHours({ ...quietHours, enabled })
+              }
+            />
+          </div>
+          {quietHours.enabled && (
+            <div className="grid grid-cols-2 gap-4 sm:w-64">
+              <div className="space-y-1">
+                <Label htmlFor="quiet-start" className="text-sm">
+                  Das
+                </Label>
+                <Input
+                  id="quiet-start"
+                  type="time"
+                  value={quietHours.start}
+                  onChange={(e) =>
+                    setQuietHours({ ...quietHours, start: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quiet-end" className="text-sm">
+                  Até
+                </Label>
+                <Input
+                  id="quiet-end"
+                  type="time"
+                  value={quietHours.end}
+                  onChange={(e) =>
+                    setQuietHours({ ...quietHours, end: e.target.value })
+                  }
+                  required
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? "Salvando..." : "Salvar lembretes"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReminderSettingsCard;
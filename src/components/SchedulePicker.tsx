@@ -0,0 +1,142 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ClassSchedule,
+  TIMEZONES,
+  WEEKDAYS,
+  WEEKDAY_ORDER,
+  sortWeekdays,
+} from "@/lib/schedule";
+
+interface SchedulePickerProps {
+  value: ClassSchedule;
+  onChange: (value: ClassSchedule) => void;
+  showPeriod?: boolean;
+}
+
+const SchedulePicker = ({
+  value,
+  onChange,
+  showPeriod = true,
+}: SchedulePickerProps) => {
+  const update = (changes: Partial<ClassSchedule>) =>
+    onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm text-muted-foreground">Dias da semana</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          className="flex-wrap justify-start"
+          value={value.weekdays.map(String)}
+          onValueChange={(days) =>
+            update({ weekdays: sortWeekdays(days.map(Number)) })
+          }
+        >
+          {WEEKDAY_ORDER.map((day) => (
+            <ToggleGroupItem
+              key={day}
+              value={String(day)}
+              aria-label={WEEKDAYS[day].label}
+              className="h-12 min-w-14 text-base data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+            >
+              {WEEKDAYS[day].short}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="startTime" className="text-sm text-muted-foreground">
+            Início
+          </Label>
+          <Input
+            id="startTime"
+            type="time"
+            value={value.startTime}
+            onChange={(e) => update({ startTime: e.target.value })}
+            className="text-base h-12"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="endTime" className="text-sm text-muted-foreground">
+            Término
+          </Label>
+          <Input
+            id="endTime"
+            type="time"
+            value={value.endTime}
+            onChange={(e) => update({ endTime: e.target.value })}
+            className="text-base h-12"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="timezone" className="text-sm text-muted-foreground">
+            Fuso horário
+          </Label>
+          <Select
+            value={value.timezone}
+            onValueChange={(timezone) => update({ timezone })}
+          >
+            <SelectTrigger id="timezone" className="text-base h-12">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIMEZONES.map((tz) => (
+                <SelectItem key={tz.value} value={tz.value}>
+                  {tz.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {showPeriod && (
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label
+              htmlFor="startDate"
+              className="text-sm text-muted-foreground"
+            >
+              Data de início (opcional)
+            </Label>
+            <Input
+              id="startDate"
+              type="date"
+              value={value.startDate}
+              onChange={(e) => update({ startDate: e.target.value })}
+              className="text-base h-12"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="endDate" className="text-sm text-muted-foreground">
+              Data de término (opcional)
+            </Label>
+            <Input
+              id="endDate"
+              type="date"
+              value={value.endDate}
+              min={value.startDate || undefined}
+              onChange={(e) => update({ endDate: e.target.value })}
+              className="text-base h-12"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchedulePicker;
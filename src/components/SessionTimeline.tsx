@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Eye, NotebookPen } from "lucide-react";
+import {
+  ClassSession,
+  SessionNotes,
+  formatSession,
+  hasSessionNotes,
+  sortSessions,
+  todayISO,
+} from "@/lib/sessions";
+
+interface SessionTimelineProps {
+  sessions: ClassSession[];
+  onChange?: () => void;
+}
+
+// Aulas futuras que aparecem na linha do tempo para receber o plano
+const UPCOMING_LIMIT = 3;
+
+const SessionTimeline = ({ sessions, onChange }: SessionTimelineProps) => {
+  const { toast } = useToast();
+  const [notesBySession, setNotesBySession] = useState<
+    Record<string, SessionNotes>
+  >({});
+  const [editing, setEditing] = useState<ClassSession | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    lesson_plan: "",
+    shared: false,
+  });
+
+  const today = todayISO();
+  const sorted = sortSessions(sessions);
+  const timeline = [
+    ...sorted.filter((s) => s.session_date > today).slice(0, UPCOMING_LIMIT),
+    ...sorted.filter((s) => s.session_date <= today),
+  ].reverse();
+
+  useEffect(() => {
+    loadNotes();
+  }, [sessions]);
+
+  const loadNotes = async () => {
+    if (sessions.length === 0) {
+      setNotesBySession({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("session_notes")
+      .select("*")
+      .in(
+        "session_id",
+        sessions.map((s) => s.id)
+      );
+
+    if (error) {
+      console.error("Error loading session notes:", error);
+      return;
+    }
+
+    setNotesBySession(
+      Object.fromEntries((data || []).map((n) => [n.session_id, n]))
+    );
+  };
+
+  const openEditor = (session: ClassSession) => {
+    const current = notesBySession[session.id];
+    setForm({
+      lesson_plan: current?.lesson_plan ?? "",
+      shared: current?.shared ?? false,
+    });
+    setEditing(session);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    // As observações são salvas só com a chamada, onde updated_at (definido
+    // pelo banco) resolve conflitos entre aparelhos; aqui não mexemos nelas
+    setSaving(true);
+    const { error } = await supabase.from("session_notes").upsert(
+      {
+        session_id: editing.id,
+        lesson_plan: form.lesson_plan.trim(),
+        shared: form.shared,
+      },
+      { onConflict: "session_id" }
+    );
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao salvar registro da aula",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Registro da aula salvo" });
+    setEditing(null);
+    loadNotes();
+    onChange?.();
+  };
+
+  if (timeline.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        Nenhuma aula registrada
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="relative border-l ml-2 space-y-6">
+        {timeline.map((session) => {
+          const notes = notesBySession[session.id];
+          const upcoming = session.session_date > today;
+
+          return (
+            <li key={session.id} className="ml-6">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                  upcoming ? "bg-muted-foreground" : "bg-primary"
+                }`}
+              />
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-2">
+                <div className="space-y-2">
+                  <p
+                    className={`font-medium capitalize ${
+                      session.status === "cancelled"
+                        ? "line-through text-muted-foreground"
+                        : ""
+                    }`}
+                  >
+                    {formatSession(session, true)}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {upcoming && <Badge variant="outline">Próxima</Badge>}
+                    {session.status === "cancelled" && (
+                      <Badge variant="destructive">Cancelada</Badge>
+                    )}
+                    {notes?.shared && hasSessionNotes(notes) && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Eye className="h-3 w-3" />
+                        Visível para os alunos
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openEditor(session)}
+                >
+                  <NotebookPen className="w-4 h-4 mr-2" />
+                  {hasSessionNotes(notes) ? "Editar" : "Registrar"}
+                </Button>
+              </div>
+
+              {hasSessionNotes(notes) ? (
+                <div className="mt-2 space-y-2 text-sm">
+                  {notes.lesson_plan && (
+                    <div>
+                      <p className="font-medium">Plano de aula</p>
+                      <p className="text-muted-foreground whitespace-pre-wrap">
+                        {notes.lesson_plan}
+                      </p>
+                    </div>
+                  )}
+                  {notes.notes && (
+                    <div>
+                      <p className="font-medium">Observações</p>
+                      <p className="text-muted-foreground whitespace-pre-wrap">
+                        {notes.notes}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  {upcoming ? "Sem plano de aula" : "Sem registro"}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <Dialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Registro da aula</DialogTitle>
+            {editing && (
+              <DialogDescription className="capitalize">
+                {formatSession(editing, true)}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lessonPlan">Plano de aula</Label>
+              <Textarea
+                id="lessonPlan"
+                placeholder="Aquecimento, sequência, materiais..."
+                value={form.lesson_plan}
+                onChange={(e) =>
+                  setForm({ ...form, lesson_plan: e.target.value })
+                }
+                rows={4}
+              />
+            </div>
+            {editing && notesBySession[editing.id]?.notes && (
+              <div className="space-y-2">
+                <Label>Observações</Label>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                  {notesBySession[editing.id].notes}
+                </p>
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              As observações da aula são registradas junto com a chamada.
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="sharedNotes">
+                Mostrar plano e observações para os alunos
+              </Label>
+              <Switch
+                id="sharedNotes"
+                checked={form.shared}
+                onCheckedChange={(shared) => setForm({ ...form, shared })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Voltar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SessionTimeline;
@@ -0,0 +1,54 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: "sm" | "md" | "lg";
+  className?: string;
+}
+
+const SIZES = {
+  sm: "h-4 w-4",
+  md: "h-5 w-5",
+  lg: "h-7 w-7",
+};
+
+// Sem onChange, apenas exibe a nota (arredondada para a estrela mais próxima)
+const StarRating = ({
+  value,
+  onChange,
+  size = "sm",
+  className,
+}: StarRatingProps) => (
+  <div className={cn("flex items-center gap-0.5", className)}>
+    {[1, 2, 3, 4, 5].map((star) => {
+      const icon = (
+        <Star
+          className={cn(
+            SIZES[size],
+            star <= Math.round(value)
+              ? "fill-secondary text-secondary"
+              : "text-muted-foreground/40"
+          )}
+        />
+      );
+
+      return onChange ? (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          aria-label={`${star} ${star === 1 ? "estrela" : "estrelas"}`}
+          className="rounded-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        >
+          {icon}
+        </button>
+      ) : (
+        <span key={star}>{icon}</span>
+      );
+    })}
+  </div>
+);
+
+export default StarRating;
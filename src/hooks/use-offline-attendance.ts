@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { formatSessionDate, sessionErrorMessage } from "@/lib/sessions";
+import {
+  PendingAttendance,
+  isNetworkError,
+  listPendingAttendance,
+  listRejectedAttendance,
+  queueAttendance,
+  rejectPendingAttendance,
+  removePendingAttendance,
+} from "@/lib/offlineAttendance";
+
+const send = (entry: PendingAttendance) =>
+  supabase.rpc("save_attendance", {
+    _session_id: entry.session_id,
+    _marks: entry.marks as unknown as Json,
+    _notes: entry.notes,
+    _marked_at: entry.marked_at,
+  });
+
+// Salva a chamada no banco ou, sem conexão, no aparelho. As chamadas
+// guardadas são enviadas quando a conexão volta.
+export function useOfflineAttendance(classId: string, onSynced?: () => void) {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pending, setPending] = useState<PendingAttendance[]>([]);
+  const [rejected, setRejected] = useState<PendingAttendance[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refresh = useCallback(async () => {
+    setPending(classId ? await listPendingAttendance(classId) : []);
+    setRejected(classId ? await listRejectedAttendance(classId) : []);
+  }, [classId]);
+
+  const sync = useCallback(async () => {
+    if (!classId || syncingRef.current || !navigator.onLine) return;
+
+    const entries = await listPendingAttendance(classId);
+    if (entries.length === 0) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+
+    let synced = 0;
+    let kept = 0;
+
+    for (const entry of entries) {
+      const { data, error } = await send(entry);
+
+      if (error) {
+        // Sem conexão de novo: as demais ficam para a próxima tentativa
+        if (isNetworkError(error)) break;
+
+        // Recusada pelo servidor (por exemplo, a aula foi apagada): reenviar
+        // não adianta, então a chamada sai da fila e fica na lista de
+        // recusadas até o professor descartá-la
+        await rejectPendingAttendance(entry, sessionErrorMessage(error));
+        toast({
+          title: "Chamada recusada",
+          description: `${formatSessionDate(
+            entry.session_date
+          )}: ${sessionErrorMessage(error)}`,
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      await removePendingAttendance(entry.session_id);
+      synced++;
+      kept += data.length;
+    }
+
+    syncingRef.current = false;
+    setSyncing(false);
+    await refresh();
+
+    if (synced > 0) {
+      toast({
+        title: "Chamadas sincronizadas",
+        description:
+          `${synced} ${synced === 1 ? "chamada enviada" : "chamadas enviadas"}.` +
+          (kept === 1
+            ? " 1 marcação feita depois (QR Code ou outro aparelho) foi mantida."
+            : kept > 1
+              ? ` ${kept} marcações feitas depois (QR Code ou outro aparelho) foram mantidas.`
+              : ""),
+      });
+      onSyncedRef.current?.();
+    }
+  }, [classId, refresh]);
+
+  useEffect(() => {
+    refresh().then(sync);
+
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [refresh, sync]);
+
+  // Devolve as marcações mantidas no servidor, ou null se ficou no aparelho
+  const save = async (entry: PendingAttendance) => {
+    if (navigator.onLine) {
+      const { data, error } = await send(entry);
+      if (!error) return data;
+      if (!isNetworkError(error)) throw error;
+    }
+
+    await queueAttendance(entry);
+    setOnline(navigator.onLine);
+    await refresh();
+    return null;
+  };
+
+  const discard = async (sessionId: string) => {
+    await removePendingAttendance(sessionId);
+    await refresh();
+  };
+
+  return { online, pending, rejected, syncing, save, sync, discard };
+}
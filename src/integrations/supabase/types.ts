@@ -16,25 +16,34 @@ export type Database = {
     Tables: {
       attendance: {
         Row: {
+          checked_in_at: string | null;
           created_at: string | null;
           date: string;
           enrollment_id: string;
           id: string;
+          marked_at: string;
           present: boolean | null;
+          session_id: string;
         };
         Insert: {
+          checked_in_at?: string | null;
           created_at?: string | null;
           date?: string;
           enrollment_id: string;
           id?: string;
+          marked_at?: string;
           present?: boolean | null;
+          session_id: string;
         };
         Update: {
+          checked_in_at?: string | null;
           created_at?: string | null;
           date?: string;
           enrollment_id?: string;
           id?: string;
+          marked_at?: string;
           present?: boolean | null;
+          session_id?: string;
         };
         Relationships: [
           {
@@ -43,45 +52,302 @@ export type Database = {
             isOneToOne: false;
             referencedRelation: "enrollments";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "attendance_session_id_fkey";
+            columns: ["session_id"];
+            isOneToOne: false;
+            referencedRelation: "class_sessions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      attendance_certificates: {
+        Row: {
+          activity: string;
+          attendance_rate: number;
+          class_id: string | null;
+          code: string;
+          cref: string;
+          enrollment_id: string | null;
+          id: string;
+          issued_at: string;
+          period_end: string;
+          period_start: string;
+          professional_name: string;
+          sessions_present: number;
+          sessions_total: number;
+          student_id: string;
+          student_name: string;
+        };
+        Insert: {
+          activity: string;
+          attendance_rate: number;
+          class_id?: string | null;
+          code: string;
+          cref: string;
+          enrollment_id?: string | null;
+          id?: string;
+          issued_at?: string;
+          period_end: string;
+          period_start: string;
+          professional_name: string;
+          sessions_present: number;
+          sessions_total: number;
+          student_id: string;
+          student_name: string;
+        };
+        Update: {
+          activity?: string;
+          attendance_rate?: number;
+          class_id?: string | null;
+          code?: string;
+          cref?: string;
+          enrollment_id?: string | null;
+          id?: string;
+          issued_at?: string;
+          period_end?: string;
+          period_start?: string;
+          professional_name?: string;
+          sessions_present?: number;
+          sessions_total?: number;
+          student_id?: string;
+          student_name?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "attendance_certificates_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "attendance_certificates_enrollment_id_fkey";
+            columns: ["enrollment_id"];
+            isOneToOne: false;
+            referencedRelation: "enrollments";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      class_check_in_keys: {
+        Row: {
+          class_id: string;
+          created_at: string | null;
+          secret: string;
+        };
+        Insert: {
+          class_id: string;
+          created_at?: string | null;
+          secret?: string;
+        };
+        Update: {
+          class_id?: string;
+          created_at?: string | null;
+          secret?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "class_check_in_keys_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      class_reviews: {
+        Row: {
+          author_name: string;
+          class_id: string;
+          comment: string | null;
+          created_at: string;
+          hidden_at: string | null;
+          id: string;
+          professional_id: string;
+          rating: number;
+          replied_at: string | null;
+          reported_at: string | null;
+          reply: string | null;
+          student_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          author_name: string;
+          class_id: string;
+          comment?: string | null;
+          created_at?: string;
+          hidden_at?: string | null;
+          id?: string;
+          professional_id: string;
+          rating: number;
+          replied_at?: string | null;
+          reported_at?: string | null;
+          reply?: string | null;
+          student_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          author_name?: string;
+          class_id?: string;
+          comment?: string | null;
+          created_at?: string;
+          hidden_at?: string | null;
+          id?: string;
+          professional_id?: string;
+          rating?: number;
+          replied_at?: string | null;
+          reported_at?: string | null;
+          reply?: string | null;
+          student_id?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "class_reviews_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "class_reviews_professional_id_fkey";
+            columns: ["professional_id"];
+            isOneToOne: false;
+            referencedRelation: "professionals";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      class_sessions: {
+        Row: {
+          cancellation_reason: string | null;
+          class_id: string;
+          created_at: string | null;
+          end_time: string | null;
+          id: string;
+          original_date: string | null;
+          session_date: string;
+          start_time: string | null;
+          status: Database["public"]["Enums"]["session_status"];
+          updated_at: string | null;
+        };
+        Insert: {
+          cancellation_reason?: string | null;
+          class_id: string;
+          created_at?: string | null;
+          end_time?: string | null;
+          id?: string;
+          original_date?: string | null;
+          session_date: string;
+          start_time?: string | null;
+          status?: Database["public"]["Enums"]["session_status"];
+          updated_at?: string | null;
+        };
+        Update: {
+          cancellation_reason?: string | null;
+          class_id?: string;
+          created_at?: string | null;
+          end_time?: string | null;
+          id?: string;
+          original_date?: string | null;
+          session_date?: string;
+          start_time?: string | null;
+          status?: Database["public"]["Enums"]["session_status"];
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "class_sessions_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
           }
         ];
       };
       classes: {
         Row: {
           activity: string;
+          archived_at: string | null;
+          at_risk_absences: number;
+          at_risk_rate: number;
+          category: Database["public"]["Enums"]["class_category"] | null;
           created_at: string | null;
           demand_id: string | null;
           description: string | null;
+          duplicated_from_id: string | null;
+          end_date: string | null;
+          end_time: string | null;
           id: string;
+          latitude: number | null;
+          level: Database["public"]["Enums"]["class_level"];
           location: string;
+          longitude: number | null;
           max_students: number;
+          neighborhood: string | null;
           price: number | null;
           professional_id: string;
-          schedule: string;
+          schedule: string | null;
+          start_date: string | null;
+          start_time: string | null;
+          timezone: string;
+          weekdays: number[];
         };
         Insert: {
           activity: string;
+          archived_at?: string | null;
+          at_risk_absences?: number;
+          at_risk_rate?: number;
+          category?: Database["public"]["Enums"]["class_category"] | null;
           created_at?: string | null;
           demand_id?: string | null;
           description?: string | null;
+          duplicated_from_id?: string | null;
+          end_date?: string | null;
+          end_time?: string | null;
           id?: string;
+          latitude?: number | null;
+          level?: Database["public"]["Enums"]["class_level"];
           location: string;
+          longitude?: number | null;
           max_students: number;
+          neighborhood?: string | null;
           price?: number | null;
           professional_id: string;
-          schedule: string;
+          schedule?: string | null;
+          start_date?: string | null;
+          start_time?: string | null;
+          timezone?: string;
+          weekdays?: number[];
         };
         Update: {
           activity?: string;
+          archived_at?: string | null;
+          at_risk_absences?: number;
+          at_risk_rate?: number;
+          category?: Database["public"]["Enums"]["class_category"] | null;
           created_at?: string | null;
           demand_id?: string | null;
           description?: string | null;
+          duplicated_from_id?: string | null;
+          end_date?: string | null;
+          end_time?: string | null;
           id?: string;
+          latitude?: number | null;
+          level?: Database["public"]["Enums"]["class_level"];
           location?: string;
+          longitude?: number | null;
           max_students?: number;
+          neighborhood?: string | null;
           price?: number | null;
           professional_id?: string;
-          schedule?: string;
+          schedule?: string | null;
+          start_date?: string | null;
+          start_time?: string | null;
+          timezone?: string;
+          weekdays?: number[];
         };
         Relationships: [
           {
@@ -91,6 +357,13 @@ export type Database = {
             referencedRelation: "demands";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "classes_duplicated_from_id_fkey";
+            columns: ["duplicated_from_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "classes_professional_id_fkey";
             columns: ["professional_id"];
@@ -100,165 +373,608 @@ export type Database = {
           }
         ];
       };
+      delivery_log: {
+        Row: {
+          attempt: number;
+          created_at: string;
+          error: string | null;
+          id: string;
+          message_id: string;
+          provider: string;
+          status: Database["public"]["Enums"]["outbound_status"];
+        };
+        Insert: {
+          attempt: number;
+          created_at?: string;
+          error?: string | null;
+          id?: string;
+          message_id: string;
+          provider: string;
+          status: Database["public"]["Enums"]["outbound_status"];
+        };
+        Update: {
+          attempt?: number;
+          created_at?: string;
+          error?: string | null;
+          id?: string;
+          message_id?: string;
+          provider?: string;
+          status?: Database["public"]["Enums"]["outbound_status"];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "delivery_log_message_id_fkey";
+            columns: ["message_id"];
+            isOneToOne: false;
+            referencedRelation: "outbound_messages";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      demand_interests: {
+        Row: {
+          created_at: string | null;
+          demand_id: string;
+          student_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          demand_id: string;
+          student_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          demand_id?: string;
+          student_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "demand_interests_demand_id_fkey";
+            columns: ["demand_id"];
+            isOneToOne: false;
+            referencedRelation: "demands";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       demands: {
         Row: {
           activity: string;
+          category: Database["public"]["Enums"]["class_category"] | null;
           created_at: string | null;
+          created_by: string | null;
+          end_time: string | null;
+          fulfilled_at: string | null;
+          fulfilled_class_id: string | null;
           id: string;
+          last_interest_at: string;
+          latitude: number | null;
           location: string;
+          longitude: number | null;
           neighborhood: string;
           num_interested: number;
-          schedule: string;
+          schedule: string | null;
+          start_time: string | null;
+          weekdays: number[];
         };
         Insert: {
           activity: string;
+          category?: Database["public"]["Enums"]["class_category"] | null;
           created_at?: string | null;
+          created_by?: string | null;
+          end_time?: string | null;
+          fulfilled_at?: string | null;
+          fulfilled_class_id?: string | null;
           id?: string;
+          last_interest_at?: string;
+          latitude?: number | null;
           location: string;
+          longitude?: number | null;
           neighborhood: string;
           num_interested?: number;
-          schedule: string;
+          schedule?: string | null;
+          start_time?: string | null;
+          weekdays?: number[];
         };
         Update: {
           activity?: string;
+          category?: Database["public"]["Enums"]["class_category"] | null;
           created_at?: string | null;
+          created_by?: string | null;
+          end_time?: string | null;
+          fulfilled_at?: string | null;
+          fulfilled_class_id?: string | null;
           id?: string;
+          last_interest_at?: string;
+          latitude?: number | null;
           location?: string;
+          longitude?: number | null;
           neighborhood?: string;
           num_interested?: number;
-          schedule?: string;
+          schedule?: string | null;
+          start_time?: string | null;
+          weekdays?: number[];
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "demands_fulfilled_class_id_fkey";
+            columns: ["fulfilled_class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          }
+        ];
       };
-      enrollments: {
+      enrollment_status_history: {
         Row: {
+          changed_by: string | null;
           class_id: string;
           created_at: string | null;
+          enrollment_id: string;
+          from_status: Database["public"]["Enums"]["enrollment_status"] | null;
           id: string;
-          status: string | null;
+          paused_until: string | null;
+          reason: string | null;
           student_id: string;
+          to_status: Database["public"]["Enums"]["enrollment_status"];
+          transferred_to_class_id: string | null;
         };
         Insert: {
+          changed_by?: string | null;
           class_id: string;
           created_at?: string | null;
+          enrollment_id: string;
+          from_status?: Database["public"]["Enums"]["enrollment_status"] | null;
           id?: string;
-          status?: string | null;
+          paused_until?: string | null;
+          reason?: string | null;
           student_id: string;
+          to_status: Database["public"]["Enums"]["enrollment_status"];
+          transferred_to_class_id?: string | null;
         };
         Update: {
+          changed_by?: string | null;
           class_id?: string;
           created_at?: string | null;
+          enrollment_id?: string;
+          from_status?: Database["public"]["Enums"]["enrollment_status"] | null;
           id?: string;
-          status?: string | null;
+          paused_until?: string | null;
+          reason?: string | null;
           student_id?: string;
+          to_status?: Database["public"]["Enums"]["enrollment_status"];
+          transferred_to_class_id?: string | null;
         };
         Relationships: [
           {
-            foreignKeyName: "enrollments_class_id_fkey";
+            foreignKeyName: "enrollment_status_history_class_id_fkey";
             columns: ["class_id"];
             isOneToOne: false;
             referencedRelation: "classes";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "enrollment_status_history_enrollment_id_fkey";
+            columns: ["enrollment_id"];
+            isOneToOne: false;
+            referencedRelation: "enrollments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "enrollment_status_history_transferred_to_class_id_fkey";
+            columns: ["transferred_to_class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
           }
         ];
       };
-      forum_messages: {
+      enrollments: {
         Row: {
           class_id: string;
           created_at: string | null;
           id: string;
-          message: string;
-          user_id: string;
+          paused_until: string | null;
+          status: Database["public"]["Enums"]["enrollment_status"];
+          status_changed_at: string | null;
+          status_reason: string | null;
+          student_id: string;
+          transferred_to_class_id: string | null;
         };
         Insert: {
           class_id: string;
           created_at?: string | null;
           id?: string;
-          message: string;
-          user_id: string;
+          paused_until?: string | null;
+          status?: Database["public"]["Enums"]["enrollment_status"];
+          status_changed_at?: string | null;
+          status_reason?: string | null;
+          student_id: string;
+          transferred_to_class_id?: string | null;
         };
         Update: {
           class_id?: string;
           created_at?: string | null;
           id?: string;
-          message?: string;
-          user_id?: string;
+          paused_until?: string | null;
+          status?: Database["public"]["Enums"]["enrollment_status"];
+          status_changed_at?: string | null;
+          status_reason?: string | null;
+          student_id?: string;
+          transferred_to_class_id?: string | null;
         };
         Relationships: [
           {
-            foreignKeyName: "forum_messages_class_id_fkey";
+            foreignKeyName: "enrollments_class_id_fkey";
             columns: ["class_id"];
             isOneToOne: false;
             referencedRelation: "classes";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "enrollments_transferred_to_class_id_fkey";
+            columns: ["transferred_to_class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
           }
         ];
       };
-      payments: {
+      forum_messages: {
         Row: {
-          amount: number;
           class_id: string;
           created_at: string | null;
-          enrollment_id: string;
+          edited_at: string | null;
           id: string;
-          payment_date: string | null;
-          status: string | null;
+          message: string;
+          parent_id: string | null;
+          pinned_at: string | null;
+          user_id: string;
         };
         Insert: {
-          amount: number;
           class_id: string;
           created_at?: string | null;
-          enrollment_id: string;
+          edited_at?: string | null;
           id?: string;
-          payment_date?: string | null;
-          status?: string | null;
+          message: string;
+          parent_id?: string | null;
+          pinned_at?: string | null;
+          user_id: string;
         };
         Update: {
-          amount?: number;
           class_id?: string;
           created_at?: string | null;
-          enrollment_id?: string;
+          edited_at?: string | null;
           id?: string;
-          payment_date?: string | null;
-          status?: string | null;
+          message?: string;
+          parent_id?: string | null;
+          pinned_at?: string | null;
+          user_id?: string;
         };
         Relationships: [
           {
-            foreignKeyName: "payments_class_id_fkey";
+            foreignKeyName: "forum_messages_class_id_fkey";
             columns: ["class_id"];
             isOneToOne: false;
             referencedRelation: "classes";
             referencedColumns: ["id"];
           },
           {
-            foreignKeyName: "payments_enrollment_id_fkey";
-            columns: ["enrollment_id"];
+            foreignKeyName: "forum_messages_parent_id_fkey";
+            columns: ["parent_id"];
             isOneToOne: false;
-            referencedRelation: "enrollments";
+            referencedRelation: "forum_messages";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "forum_messages_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
             referencedColumns: ["id"];
           }
         ];
       };
-      private_messages: {
+      forum_reactions: {
         Row: {
-          created_at: string;
-          id: string;
-          message: string;
-          recipient_id: string;
-          sender_id: string;
+          created_at: string | null;
+          emoji: string;
+          message_id: string;
+          user_id: string;
         };
         Insert: {
-          created_at?: string;
-          id?: string;
-          message: string;
-          recipient_id: string;
-          sender_id: string;
+          created_at?: string | null;
+          emoji: string;
+          message_id: string;
+          user_id: string;
         };
         Update: {
-          created_at?: string;
-          id?: string;
-          message?: string;
-          recipient_id?: string;
+          created_at?: string | null;
+          emoji?: string;
+          message_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "forum_reactions_message_id_fkey";
+            columns: ["message_id"];
+            isOneToOne: false;
+            referencedRelation: "forum_messages";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      forum_reads: {
+        Row: {
+          class_id: string;
+          last_read_at: string;
+          user_id: string;
+        };
+        Insert: {
+          class_id: string;
+          last_read_at?: string;
+          user_id: string;
+        };
+        Update: {
+          class_id?: string;
+          last_read_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "forum_reads_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      local_outbox: {
+        Row: {
+          channel: Database["public"]["Enums"]["outbound_channel"];
+          created_at: string;
+          destination: string;
+          id: string;
+          message_id: string;
+          subject: string | null;
+          text: string;
+        };
+        Insert: {
+          channel: Database["public"]["Enums"]["outbound_channel"];
+          created_at?: string;
+          destination: string;
+          id?: string;
+          message_id: string;
+          subject?: string | null;
+          text: string;
+        };
+        Update: {
+          channel?: Database["public"]["Enums"]["outbound_channel"];
+          created_at?: string;
+          destination?: string;
+          id?: string;
+          message_id?: string;
+          subject?: string | null;
+          text?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "local_outbox_message_id_fkey";
+            columns: ["message_id"];
+            isOneToOne: false;
+            referencedRelation: "outbound_messages";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      notification_preferences: {
+        Row: {
+          category: Database["public"]["Enums"]["notification_category"] | null;
+          class_id: string | null;
+          enabled: boolean;
+          id: string;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          category?: Database["public"]["Enums"]["notification_category"] | null;
+          class_id?: string | null;
+          enabled: boolean;
+          id?: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          category?: Database["public"]["Enums"]["notification_category"] | null;
+          class_id?: string | null;
+          enabled?: boolean;
+          id?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      notifications: {
+        Row: {
+          body: string | null;
+          category: Database["public"]["Enums"]["notification_category"];
+          class_id: string | null;
+          created_at: string | null;
+          id: string;
+          link: string | null;
+          read_at: string | null;
+          title: string;
+          type: string;
+          user_id: string;
+        };
+        Insert: {
+          body?: string | null;
+          category?: Database["public"]["Enums"]["notification_category"];
+          class_id?: string | null;
+          created_at?: string | null;
+          id?: string;
+          link?: string | null;
+          read_at?: string | null;
+          title: string;
+          type: string;
+          user_id: string;
+        };
+        Update: {
+          body?: string | null;
+          category?: Database["public"]["Enums"]["notification_category"];
+          class_id?: string | null;
+          created_at?: string | null;
+          id?: string;
+          link?: string | null;
+          read_at?: string | null;
+          title?: string;
+          type?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      outbound_messages: {
+        Row: {
+          attempts: number;
+          body: string;
+          channel: Database["public"]["Enums"]["outbound_channel"];
+          created_at: string;
+          destination: string;
+          id: string;
+          last_error: string | null;
+          link: string | null;
+          next_attempt_at: string;
+          params: Json;
+          provider: string | null;
+          provider_message_id: string | null;
+          sent_at: string | null;
+          status: Database["public"]["Enums"]["outbound_status"];
+          template: string;
+          title: string;
+          user_id: string;
+        };
+        Insert: {
+          attempts?: number;
+          body: string;
+          channel: Database["public"]["Enums"]["outbound_channel"];
+          created_at?: string;
+          destination: string;
+          id?: string;
+          last_error?: string | null;
+          link?: string | null;
+          next_attempt_at?: string;
+          params?: Json;
+          provider?: string | null;
+          provider_message_id?: string | null;
+          sent_at?: string | null;
+          status?: Database["public"]["Enums"]["outbound_status"];
+          template?: string;
+          title: string;
+          user_id: string;
+        };
+        Update: {
+          attempts?: number;
+          body?: string;
+          channel?: Database["public"]["Enums"]["outbound_channel"];
+          created_at?: string;
+          destination?: string;
+          id?: string;
+          last_error?: string | null;
+          link?: string | null;
+          next_attempt_at?: string;
+          params?: Json;
+          provider?: string | null;
+          provider_message_id?: string | null;
+          sent_at?: string | null;
+          status?: Database["public"]["Enums"]["outbound_status"];
+          template?: string;
+          title?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      payments: {
+        Row: {
+          amount: number;
+          class_id: string;
+          created_at: string | null;
+          enrollment_id: string;
+          id: string;
+          payment_date: string | null;
+          status: string | null;
+        };
+        Insert: {
+          amount: number;
+          class_id: string;
+          created_at?: string | null;
+          enrollment_id: string;
+          id?: string;
+          payment_date?: string | null;
+          status?: string | null;
+        };
+        Update: {
+          amount?: number;
+          class_id?: string;
+          created_at?: string | null;
+          enrollment_id?: string;
+          id?: string;
+          payment_date?: string | null;
+          status?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payments_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payments_enrollment_id_fkey";
+            columns: ["enrollment_id"];
+            isOneToOne: false;
+            referencedRelation: "enrollments";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      private_messages: {
+        Row: {
+          created_at: string;
+          id: string;
+          message: string;
+          recipient_id: string;
+          sender_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          message: string;
+          recipient_id: string;
+          sender_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          message?: string;
+          recipient_id?: string;
           sender_id?: string;
         };
         Relationships: [];
@@ -266,10 +982,14 @@ export type Database = {
       professionals: {
         Row: {
           avatar_url: string | null;
+          bio: string | null;
           birth_date: string;
+          certifications: string[];
           cpf: string;
           created_at: string | null;
           cref: string;
+          cref_verified_at: string | null;
+          experience_years: number | null;
           full_name: string;
           id: string;
           specialty: string;
@@ -277,10 +997,14 @@ export type Database = {
         };
         Insert: {
           avatar_url?: string | null;
+          bio?: string | null;
           birth_date: string;
+          certifications?: string[];
           cpf: string;
           created_at?: string | null;
           cref: string;
+          cref_verified_at?: string | null;
+          experience_years?: number | null;
           full_name: string;
           id?: string;
           specialty: string;
@@ -288,10 +1012,14 @@ export type Database = {
         };
         Update: {
           avatar_url?: string | null;
+          bio?: string | null;
           birth_date?: string;
+          certifications?: string[];
           cpf?: string;
           created_at?: string | null;
           cref?: string;
+          cref_verified_at?: string | null;
+          experience_years?: number | null;
           full_name?: string;
           id?: string;
           specialty?: string;
@@ -317,6 +1045,126 @@ export type Database = {
         };
         Relationships: [];
       };
+      reminder_settings: {
+        Row: {
+          channel: Database["public"]["Enums"]["outbound_channel"] | null;
+          lead_hours: number[];
+          quiet_end: string | null;
+          quiet_start: string | null;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          channel?: Database["public"]["Enums"]["outbound_channel"] | null;
+          lead_hours?: number[];
+          quiet_end?: string | null;
+          quiet_start?: string | null;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          channel?: Database["public"]["Enums"]["outbound_channel"] | null;
+          lead_hours?: number[];
+          quiet_end?: string | null;
+          quiet_start?: string | null;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      review_reports: {
+        Row: {
+          created_at: string;
+          id: string;
+          reason: string;
+          reporter_id: string;
+          review_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          reason: string;
+          reporter_id: string;
+          review_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          reason?: string;
+          reporter_id?: string;
+          review_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "review_reports_review_id_fkey";
+            columns: ["review_id"];
+            isOneToOne: false;
+            referencedRelation: "class_reviews";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      session_notes: {
+        Row: {
+          lesson_plan: string;
+          notes: string;
+          session_id: string;
+          shared: boolean;
+          updated_at: string;
+        };
+        Insert: {
+          lesson_plan?: string;
+          notes?: string;
+          session_id: string;
+          shared?: boolean;
+          updated_at?: string;
+        };
+        Update: {
+          lesson_plan?: string;
+          notes?: string;
+          session_id?: string;
+          shared?: boolean;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "session_notes_session_id_fkey";
+            columns: ["session_id"];
+            isOneToOne: true;
+            referencedRelation: "class_sessions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      session_reminders: {
+        Row: {
+          lead_hours: number;
+          sent_at: string;
+          session_id: string;
+          student_id: string;
+        };
+        Insert: {
+          lead_hours: number;
+          sent_at?: string;
+          session_id: string;
+          student_id: string;
+        };
+        Update: {
+          lead_hours?: number;
+          sent_at?: string;
+          session_id?: string;
+          student_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "session_reminders_session_id_fkey";
+            columns: ["session_id"];
+            isOneToOne: false;
+            referencedRelation: "class_sessions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       students: {
         Row: {
           address: string;
@@ -383,11 +1231,318 @@ export type Database = {
         };
         Relationships: [];
       };
+      waitlist_entries: {
+        Row: {
+          class_id: string;
+          created_at: string | null;
+          id: string;
+          offer_expires_at: string | null;
+          offered_at: string | null;
+          status: Database["public"]["Enums"]["waitlist_status"];
+          student_id: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          class_id: string;
+          created_at?: string | null;
+          id?: string;
+          offer_expires_at?: string | null;
+          offered_at?: string | null;
+          status?: Database["public"]["Enums"]["waitlist_status"];
+          student_id: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          class_id?: string;
+          created_at?: string | null;
+          id?: string;
+          offer_expires_at?: string | null;
+          offered_at?: string | null;
+          status?: Database["public"]["Enums"]["waitlist_status"];
+          student_id?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
     };
     Views: {
-      [_ in never]: never;
+      class_rating_summary: {
+        Row: {
+          average_rating: number | null;
+          class_id: string | null;
+          review_count: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "class_reviews_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      demand_class_conversions: {
+        Row: {
+          activity: string | null;
+          archived_at: string | null;
+          class_id: string | null;
+          converted_count: number | null;
+          demand_id: string | null;
+          enrolled_count: number | null;
+          fulfilled_at: string | null;
+          interested_count: number | null;
+          neighborhood: string | null;
+        };
+        Relationships: [];
+      };
+      forum_posts: {
+        Row: {
+          author_avatar_url: string | null;
+          author_is_professional: boolean | null;
+          author_name: string | null;
+          class_id: string | null;
+          created_at: string | null;
+          edited_at: string | null;
+          id: string | null;
+          message: string | null;
+          parent_id: string | null;
+          pinned_at: string | null;
+          user_id: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "forum_messages_class_id_fkey";
+            columns: ["class_id"];
+            isOneToOne: false;
+            referencedRelation: "classes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "forum_messages_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "forum_messages";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      open_demands: {
+        Row: {
+          activity: string | null;
+          category: Database["public"]["Enums"]["class_category"] | null;
+          created_at: string | null;
+          created_by: string | null;
+          end_time: string | null;
+          id: string | null;
+          interested: boolean | null;
+          last_interest_at: string | null;
+          latitude: number | null;
+          location: string | null;
+          longitude: number | null;
+          neighborhood: string | null;
+          num_interested: number | null;
+          schedule: string | null;
+          start_time: string | null;
+          weekdays: number[] | null;
+        };
+        Relationships: [];
+      };
+      professional_rating_summary: {
+        Row: {
+          average_rating: number | null;
+          professional_id: string | null;
+          review_count: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "class_reviews_professional_id_fkey";
+            columns: ["professional_id"];
+            isOneToOne: false;
+            referencedRelation: "professionals";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
     };
     Functions: {
+      accept_waitlist_offer: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: string;
+      };
+      cancel_enrollment: {
+        Args: {
+          _enrollment_id: string;
+          _reason?: string;
+        };
+        Returns: undefined;
+      };
+      check_in: {
+        Args: {
+          _code: string;
+        };
+        Returns: {
+          activity: string;
+          already_checked_in: boolean;
+          class_id: string;
+          session_id: string;
+        }[];
+      };
+      check_in_signature: {
+        Args: {
+          _session_id: string;
+          _step: number;
+        };
+        Returns: string;
+      };
+      claim_outbound_messages: {
+        Args: {
+          _lease?: unknown;
+          _limit?: number;
+        };
+        Returns: Database["public"]["Tables"]["outbound_messages"]["Row"][];
+      };
+      class_attendance_stats: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: {
+          best_present_streak: number | null;
+          consecutive_absences: number | null;
+          current_present: boolean | null;
+          current_streak: number | null;
+          enrollment_id: string | null;
+          weekday_rates: (number | null)[];
+        }[];
+      };
+      class_attendance_trend: {
+        Args: {
+          _class_id: string;
+          _limit?: number;
+        };
+        Returns: {
+          attendance_rate: number;
+          session_date: string;
+          session_id: string;
+        }[];
+      };
+      class_enrolled_count: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: number;
+      };
+      class_review_eligibility: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: {
+          can_review: boolean;
+          presences: number;
+          required_presences: number;
+        }[];
+      };
+      class_roster: {
+        Args: {
+          _class_id: string;
+          _session_id?: string;
+        };
+        Returns: {
+          absences: number;
+          attendance_rate: number;
+          checked_in_at: string;
+          enrollment_id: string;
+          enrollment_status: Database["public"]["Enums"]["enrollment_status"];
+          full_name: string;
+          present: boolean;
+          student_id: string;
+          total_classes: number;
+        }[];
+      };
+      class_waitlist_summary: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: {
+          active_count: number;
+          offered_count: number;
+          waiting_count: number;
+          my_status: Database["public"]["Enums"]["waitlist_status"] | null;
+          my_position: number | null;
+          my_offer_expires_at: string | null;
+        }[];
+      };
+      create_demand: {
+        Args: {
+          _activity: string;
+          _category?: Database["public"]["Enums"]["class_category"];
+          _end_time?: string;
+          _latitude?: number;
+          _location?: string;
+          _longitude?: number;
+          _neighborhood: string;
+          _start_time?: string;
+          _weekdays?: number[];
+        };
+        Returns: {
+          demand_id: string;
+          joined_existing: boolean;
+        }[];
+      };
+      distance_km: {
+        Args: {
+          _lat1: number;
+          _lat2: number;
+          _lon1: number;
+          _lon2: number;
+        };
+        Returns: number;
+      };
+      enroll_in_class: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: string;
+      };
+      extend_class_sessions: {
+        Args: never;
+        Returns: number;
+      };
+      forum_message_author: {
+        Args: {
+          _message_id: string;
+        };
+        Returns: {
+          author_avatar_url: string;
+          author_is_professional: boolean;
+          author_name: string;
+        }[];
+      };
+      forum_unread_counts: {
+        Args: never;
+        Returns: {
+          class_id: string;
+          unread_count: number;
+        }[];
+      };
+      generate_class_sessions: {
+        Args: {
+          _class_id: string;
+          _from?: string;
+          _until?: string;
+        };
+        Returns: number;
+      };
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"];
@@ -395,9 +1550,246 @@ export type Database = {
         };
         Returns: boolean;
       };
+      issue_attendance_certificate: {
+        Args: {
+          _enrollment_id: string;
+        };
+        Returns: Database["public"]["Tables"]["attendance_certificates"]["Row"][];
+      };
+      leave_waitlist: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: undefined;
+      };
+      mark_forum_read: {
+        Args: {
+          _class_id: string;
+          _read_at: string;
+        };
+        Returns: undefined;
+      };
+      my_waitlist_summaries: {
+        Args: {
+          _class_ids: string[];
+        };
+        Returns: {
+          class_id: string;
+          my_status: Database["public"]["Enums"]["waitlist_status"];
+          my_position: number | null;
+          my_offer_expires_at: string | null;
+        }[];
+      };
+      notification_category_for: {
+        Args: {
+          _type: string;
+        };
+        Returns: Database["public"]["Enums"]["notification_category"];
+      };
+      notification_class_id: {
+        Args: {
+          _link: string;
+        };
+        Returns: string;
+      };
+      notifications_enabled: {
+        Args: {
+          _category: Database["public"]["Enums"]["notification_category"];
+          _class_id?: string;
+          _user_id: string;
+        };
+        Returns: boolean;
+      };
+      pause_enrollment: {
+        Args: {
+          _enrollment_id: string;
+          _reason?: string;
+          _weeks: number;
+        };
+        Returns: string;
+      };
+      pin_forum_message: {
+        Args: {
+          _message_id: string;
+          _pinned: boolean;
+        };
+        Returns: undefined;
+      };
+      promote_due_waitlists: {
+        Args: never;
+        Returns: number;
+      };
+      promote_waitlist: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: number;
+      };
+      queue_due_reminders: {
+        Args: never;
+        Returns: number;
+      };
+      reminder_send_at: {
+        Args: {
+          _due: string;
+          _quiet_end: string;
+          _quiet_start: string;
+          _timezone: string;
+        };
+        Returns: string;
+      };
+      reply_to_review: {
+        Args: {
+          _reply: string;
+          _review_id: string;
+        };
+        Returns: undefined;
+      };
+      resume_due_enrollments: {
+        Args: never;
+        Returns: number;
+      };
+      resume_enrollment: {
+        Args: {
+          _enrollment_id: string;
+        };
+        Returns: undefined;
+      };
+      save_attendance: {
+        Args: {
+          _marked_at?: string;
+          _marks: Json;
+          _notes?: string;
+          _session_id: string;
+        };
+        Returns: {
+          enrollment_id: string;
+          present: boolean;
+        }[];
+      };
+      search_classes: {
+        Args: {
+          _category?: Database["public"]["Enums"]["class_category"];
+          _ends_before?: string;
+          _latitude?: number;
+          _level?: Database["public"]["Enums"]["class_level"];
+          _limit?: number;
+          _longitude?: number;
+          _max_price?: number;
+          _min_price?: number;
+          _offset?: number;
+          _only_available?: boolean;
+          _query?: string;
+          _radius_km?: number;
+          _sort?: string;
+          _starts_after?: string;
+          _weekdays?: number[];
+        };
+        Returns: {
+          id: string;
+          professional_id: string;
+          professional_name: string;
+          activity: string;
+          description: string | null;
+          category: Database["public"]["Enums"]["class_category"] | null;
+          level: Database["public"]["Enums"]["class_level"];
+          location: string;
+          neighborhood: string | null;
+          price: number | null;
+          max_students: number;
+          schedule: string | null;
+          weekdays: number[];
+          start_time: string | null;
+          end_time: string | null;
+          timezone: string;
+          start_date: string | null;
+          end_date: string | null;
+          enrolled_count: number;
+          available_spots: number;
+          distance_km: number | null;
+          average_rating: number | null;
+          review_count: number;
+          professional_average_rating: number | null;
+          total_count: number;
+        }[];
+      };
+      search_normalize: {
+        Args: {
+          _text: string;
+        };
+        Returns: string;
+      };
+      session_check_in_code: {
+        Args: {
+          _session_id: string;
+        };
+        Returns: {
+          closes_at: string;
+          code: string;
+          expires_at: string;
+          opens_at: string;
+        }[];
+      };
+      session_check_in_window: {
+        Args: {
+          _session_id: string;
+        };
+        Returns: {
+          closes_at: string;
+          opens_at: string;
+        }[];
+      };
+      submit_class_review: {
+        Args: {
+          _class_id: string;
+          _comment?: string;
+          _rating: number;
+        };
+        Returns: string;
+      };
+      transfer_enrollment: {
+        Args: {
+          _enrollment_id: string;
+          _reason?: string;
+          _to_class_id: string;
+        };
+        Returns: string;
+      };
+      verify_attendance_certificate: {
+        Args: {
+          _code: string;
+        };
+        Returns: {
+          activity: string;
+          attendance_rate: number;
+          code: string;
+          cref: string;
+          issued_at: string;
+          period_end: string;
+          period_start: string;
+          professional_name: string;
+          sessions_present: number;
+          sessions_total: number;
+          student_name: string;
+        }[];
+      };
+      waitlist_promotion_due: {
+        Args: {
+          _class_id: string;
+        };
+        Returns: boolean;
+      };
     };
     Enums: {
       app_role: "professional" | "student" | "admin";
+      class_category: "outdoor" | "yoga" | "gym" | "pilates" | "water" | "dance" | "stretch";
+      class_level: "beginner" | "intermediate" | "advanced" | "all_levels";
+      enrollment_status: "active" | "paused" | "cancelled" | "transferred";
+      notification_category: "forum" | "messages" | "schedule" | "payments" | "reminders" | "general";
+      outbound_channel: "email" | "sms" | "whatsapp";
+      outbound_status: "pending" | "sent" | "failed";
+      session_status: "scheduled" | "cancelled";
+      waitlist_status: "waiting" | "offered" | "accepted" | "expired" | "cancelled";
     };
     CompositeTypes: {
       [_ in never]: never;
@@ -529,6 +1921,14 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["professional", "student", "admin"],
+      class_category: ["outdoor", "yoga", "gym", "pilates", "water", "dance", "stretch"],
+      class_level: ["beginner", "intermediate", "advanced", "all_levels"],
+      enrollment_status: ["active", "paused", "cancelled", "transferred"],
+      notification_category: ["forum", "messages", "schedule", "payments", "reminders", "general"],
+      outbound_channel: ["email", "sms", "whatsapp"],
+      outbound_status: ["pending", "sent", "failed"],
+      session_status: ["scheduled", "cancelled"],
+      waitlist_status: ["waiting", "offered", "accepted", "expired", "cancelled"],
     },
   },
 } as const;
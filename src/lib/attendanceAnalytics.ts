@@ -0,0 +1,82 @@
+import { format } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AttendanceStatsRow =
+  Database["public"]["Functions"]["class_attendance_stats"]["Returns"][number];
+
+export type AttendanceTrendRow =
+  Database["public"]["Functions"]["class_attendance_trend"]["Returns"][number];
+
+export interface StudentStreak {
+  // Aulas seguidas no mesmo estado, contando da mais recente
+  current: number;
+  currentPresent: boolean;
+  bestPresent: number;
+  consecutiveAbsences: number;
+}
+
+export type AtRiskReason = "low_rate" | "absences";
+
+export const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00`);
+
+const NO_WEEKDAYS: (number | null)[] = WEEKDAY_LABELS.map(() => null);
+
+// Frequência da turma em cada aula, da mais antiga para a mais recente
+export const trendPoints = (rows: AttendanceTrendRow[]) =>
+  rows.map((row) => ({
+    date: format(parseDate(row.session_date), "dd/MM"),
+    rate: row.attendance_rate,
+  }));
+
+// Sequências e frequência por dia da semana de cada aluno; a linha sem
+// matrícula traz a frequência por dia da semana da turma toda
+export const summarizeStats = (rows: AttendanceStatsRow[]) => {
+  const streaks: Record<string, StudentStreak> = {};
+  const weekdays: Record<string, (number | null)[]> = {};
+  let classWeekdays = NO_WEEKDAYS;
+
+  for (const row of rows) {
+    if (!row.enrollment_id) {
+      classWeekdays = row.weekday_rates;
+      continue;
+    }
+
+    weekdays[row.enrollment_id] = row.weekday_rates;
+    streaks[row.enrollment_id] = {
+      current: row.current_streak ?? 0,
+      currentPresent: !!row.current_present,
+      bestPresent: row.best_present_streak ?? 0,
+      consecutiveAbsences: row.consecutive_absences ?? 0,
+    };
+  }
+
+  return {
+    streaks,
+    classWeekdays,
+    weekdaysOf: (enrollmentId: string) => weekdays[enrollmentId] ?? NO_WEEKDAYS,
+  };
+};
+
+export const atRiskReasons = (
+  attendanceRate: number,
+  totalClasses: number,
+  streak: StudentStreak | undefined,
+  settings: { at_risk_rate: number; at_risk_absences: number }
+) => {
+  const reasons: AtRiskReason[] = [];
+
+  if (totalClasses > 0 && attendanceRate < settings.at_risk_rate) {
+    reasons.push("low_rate");
+  }
+  if ((streak?.consecutiveAbsences ?? 0) >= settings.at_risk_absences) {
+    reasons.push("absences");
+  }
+
+  return reasons;
+};
+
+// Mensagem sugerida para o professor procurar o aluno
+export const missedClassesMessage = (fullName: string, activity: string) =>
+  `Oi, ${fullName.split(" ")[0]}! Sentimos sua falta nas últimas aulas de ${activity}. Está tudo bem? Se precisar de algo, é só falar.`;
@@ -0,0 +1,187 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { ClassSession } from "@/lib/sessions";
+
+export type Cell = string | number;
+export type Sheet = { name: string; rows: Cell[][] };
+
+export interface AttendanceSheetHeader {
+  activity: string;
+  professional: string;
+  cref: string;
+  location: string;
+  schedule: string;
+  month: string;
+}
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00`);
+
+// "2025-11" -> "novembro de 2025"
+export const formatMonth = (month: string) =>
+  format(parseDate(`${month}-01`), "MMMM 'de' yyyy", { locale: ptBR });
+
+export const sessionMonth = (session: ClassSession) =>
+  session.session_date.slice(0, 7);
+
+export const formatCpf = (cpf: string) => {
+  const digits = cpf.replace(/\D/g, "");
+  return digits.length === 11
+    ? digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, "$1.$2.$3-$4")
+    : cpf;
+};
+
+// Colunas da chamada: dia do mês de cada aula, na ordem
+export const sessionColumns = (sessions: ClassSession[]) =>
+  sessions.map((s) => format(parseDate(s.session_date), "dd/MM"));
+
+export const attendanceMark = (present: boolean | undefined) =>
+  present === undefined ? "" : present ? "P" : "F";
+
+export const fileSlug = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Alguns navegadores só começam o download depois do clique
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Texto que começa com =, +, - ou @ vira fórmula no Excel: o apóstrofo
+// faz a célula ser lida como texto
+const csvText = (cell: Cell) => {
+  const text = String(cell);
+  return typeof cell === "string" && /^[=+\-@\t\r]/.test(text)
+    ? `'${text}`
+    : text;
+};
+
+// Ponto e vírgula e BOM para o Excel em português abrir certo
+export const downloadCsv = (filename: string, rows: Cell[][]) => {
+  const csv = rows
+    .map((row) =>
+      row
+        .map((cell) => {
+          const text = csvText(cell);
+          return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(";")
+    )
+    .join("\r\n");
+
+  download(
+    new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" }),
+    filename
+  );
+};
+
+// As bibliotecas de planilha e PDF só são baixadas quando usadas
+export const downloadXlsx = async (filename: string, sheets: Sheet[]) => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+
+  for (const sheet of sheets) {
+    workbook.addWorksheet(sheet.name.slice(0, 31)).addRows(sheet.rows);
+  }
+
+  download(
+    new Blob([await workbook.xlsx.writeBuffer()], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    }),
+    filename
+  );
+};
+
+export const downloadAttendanceSheetPdf = async (
+  filename: string,
+  header: AttendanceSheetHeader,
+  columns: string[],
+  rows: Cell[][]
+) => {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+  ]);
+
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+
+  doc.setFontSize(16);
+  doc.text("Lista de Presença", width / 2, 15, { align: "center" });
+  doc.setFontSize(10);
+  doc.text(
+    [
+      `Turma: ${header.activity}`,
+      `Professor(a): ${header.professional} — CREF ${header.cref}`,
+      `Local: ${header.location}`,
+      `Horário: ${header.schedule}`,
+    ],
+    14,
+    24
+  );
+  doc.text(`Mês: ${header.month}`, width - 14, 24, { align: "right" });
+
+  let tableEnd = 46;
+
+  autoTable(doc, {
+    startY: 46,
+    head: [["Nº", "Aluno", ...columns, "Assinatura"]],
+    body: rows.map((row, index) => [index + 1, ...row, ""]),
+    theme: "grid",
+    styles: { fontSize: 8, cellPadding: 1.5, valign: "middle" },
+    headStyles: { fillColor: [60, 60, 60], halign: "center" },
+    columnStyles: {
+      0: { halign: "center", cellWidth: 8 },
+      1: { cellWidth: 55 },
+      [columns.length + 2]: { cellWidth: 45 },
+    },
+    didParseCell: (data) => {
+      if (data.column.index > 1 && data.column.index < columns.length + 2) {
+        data.cell.styles.halign = "center";
+      }
+    },
+    // Na última página o cursor fica logo abaixo da tabela
+    didDrawPage: (data) => {
+      tableEnd = data.cursor?.y ?? tableEnd;
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  // Linhas de assinatura no fim da última página
+  let y = tableEnd + 25;
+  if (y > height - 15) {
+    doc.addPage();
+    y = 40;
+  }
+
+  const lineWidth = 90;
+  const signatures = [
+    [header.professional, `CREF ${header.cref}`],
+    ["Responsável pelo programa", "Nome e carimbo"],
+  ];
+
+  signatures.forEach(([name, detail], i) => {
+    const x = i === 0 ? 14 : width - 14 - lineWidth;
+    doc.line(x, y, x + lineWidth, y);
+    doc.text(name, x + lineWidth / 2, y + 5, { align: "center" });
+    doc.text(detail, x + lineWidth / 2, y + 10, { align: "center" });
+  });
+
+  doc.setFontSize(8);
+  doc.text(
+    `Gerado em ${format(new Date(), "dd/MM/yyyy 'às' HH:mm")}`,
+    14,
+    height - 8
+  );
+
+  doc.save(filename);
+};
@@ -0,0 +1,95 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { errorMessage } from "@/lib/errors";
+
+export type AttendanceCertificate = Tables<"attendance_certificates">;
+
+// O que a verificação pública mostra de um certificado
+export type VerifiedCertificate =
+  Database["public"]["Functions"]["verify_attendance_certificate"]["Returns"][number];
+
+const ERROR_MESSAGES: Record<string, string> = {
+  enrollment_not_found: "Matrícula não encontrada.",
+  certificate_no_attendance:
+    "Ainda não há presenças registradas nesta turma para gerar o certificado.",
+};
+
+export const certificateErrorMessage = (error: { message?: string }) =>
+  errorMessage(error, ERROR_MESSAGES);
+
+export const certificateUrl = (code: string) =>
+  `${window.location.origin}/verificar/${code}`;
+
+const formatDate = (date: string) =>
+  format(new Date(`${date}T00:00:00`), "dd/MM/yyyy");
+
+export const formatCertificatePeriod = (start: string, end: string) =>
+  start === end
+    ? `em ${formatDate(start)}`
+    : `de ${formatDate(start)} a ${formatDate(end)}`;
+
+export const certificateText = (certificate: VerifiedCertificate) =>
+  `Certificamos que ${certificate.student_name} participou das aulas de ` +
+  `${certificate.activity}, ministradas por ${certificate.professional_name} ` +
+  `(CREF ${certificate.cref}), ${formatCertificatePeriod(
+    certificate.period_start,
+    certificate.period_end
+  )}, com ${certificate.sessions_present} ${
+    certificate.sessions_present === 1 ? "presença" : "presenças"
+  } em ${certificate.sessions_total} ${
+    certificate.sessions_total === 1 ? "aula registrada" : "aulas registradas"
+  } (${Number(certificate.attendance_rate).toFixed(1)}% de frequência).`;
+
+export const downloadCertificatePdf = async (
+  certificate: VerifiedCertificate
+) => {
+  const { jsPDF } = await import("jspdf");
+
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+
+  doc.setLineWidth(0.8);
+  doc.rect(10, 10, width - 20, height - 20);
+  doc.setLineWidth(0.2);
+  doc.rect(13, 13, width - 26, height - 26);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(26);
+  doc.text("Certificado de Frequência", width / 2, 45, { align: "center" });
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(14);
+  doc.text(
+    doc.splitTextToSize(certificateText(certificate), width - 70),
+    width / 2,
+    70,
+    { align: "center", lineHeightFactor: 1.6 }
+  );
+
+  doc.setFontSize(11);
+  doc.text(
+    `Emitido em ${format(
+      new Date(certificate.issued_at),
+      "dd 'de' MMMM 'de' yyyy",
+      { locale: ptBR }
+    )}`,
+    width / 2,
+    125,
+    { align: "center" }
+  );
+
+  doc.setFontSize(10);
+  doc.text(`Código de verificação: ${certificate.code}`, width / 2, 165, {
+    align: "center",
+  });
+  doc.text(
+    `Confira a autenticidade em ${certificateUrl(certificate.code)}`,
+    width / 2,
+    171,
+    { align: "center" }
+  );
+
+  doc.save(`certificado-${certificate.code}.pdf`);
+};
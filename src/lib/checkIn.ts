@@ -0,0 +1,36 @@
+import { errorMessage } from "@/lib/errors";
+
+// O QR Code da chamada leva para a página da turma com o código no
+// parâmetro "presenca", assim a câmera do celular também funciona
+export const CHECK_IN_PARAM = "presenca";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  session_not_found: "Aula não encontrada.",
+  check_in_invalid: "Este QR Code não é válido para a chamada.",
+  check_in_expired:
+    "Este QR Code expirou. Leia novamente o código na tela do professor.",
+  check_in_closed: "A chamada desta aula não está aberta agora.",
+  check_in_revoked:
+    "O professor removeu sua presença nesta aula. Fale com ele se for um engano.",
+  enrollment_not_found: "Você não está matriculado nesta turma.",
+  enrollment_not_active: "Sua matrícula nesta turma não está ativa.",
+};
+
+export const checkInErrorMessage = (error: { message?: string }) =>
+  errorMessage(error, ERROR_MESSAGES);
+
+const CODE_PATTERN = /[0-9a-f-]{36}\.[0-9]{1,12}\.[0-9a-f]{32}/;
+
+export const checkInUrl = (classId: string, code: string) =>
+  `${window.location.origin}/turma-aluno/${classId}?${CHECK_IN_PARAM}=${code}`;
+
+// Aceita o link completo ou apenas o código
+export const parseCheckInCode = (text: string) => {
+  try {
+    const param = new URL(text).searchParams.get(CHECK_IN_PARAM);
+    if (param) return param;
+  } catch {
+    // Não é um link
+  }
+  return text.match(CODE_PATTERN)?.[0] ?? null;
+};
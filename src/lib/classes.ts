@@ -0,0 +1,27 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type ClassCategory = Database["public"]["Enums"]["class_category"];
+export type ClassLevel = Database["public"]["Enums"]["class_level"];
+
+export const CLASS_CATEGORIES: { value: ClassCategory; label: string }[] = [
+  { value: "outdoor", label: "Ao Ar Livre" },
+  { value: "yoga", label: "Yoga" },
+  { value: "gym", label: "Musculação" },
+  { value: "pilates", label: "Pilates" },
+  { value: "water", label: "Hidroginástica" },
+  { value: "dance", label: "Dança" },
+  { value: "stretch", label: "Alongamento" },
+];
+
+export const CLASS_LEVELS: { value: ClassLevel; label: string }[] = [
+  { value: "beginner", label: "Iniciante" },
+  { value: "intermediate", label: "Intermediário" },
+  { value: "advanced", label: "Avançado" },
+  { value: "all_levels", label: "Todos os níveis" },
+];
+
+export const categoryLabel = (category?: ClassCategory | null) =>
+  CLASS_CATEGORIES.find((c) => c.value === category)?.label ?? "";
+
+export const levelLabel = (level?: ClassLevel | null) =>
+  CLASS_LEVELS.find((l) => l.value === level)?.label ?? "";
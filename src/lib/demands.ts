@@ -0,0 +1,9 @@
+import { errorMessage } from "@/lib/errors";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  demand_requires_student: "Apenas alunos podem pedir novas turmas.",
+  invalid_demand: "Informe a atividade e o bairro desejados.",
+};
+
+export const demandErrorMessage = (error: { message?: string }) =>
+  errorMessage(error, ERROR_MESSAGES);
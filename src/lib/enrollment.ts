@@ -0,0 +1,80 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Database } from "@/integrations/supabase/types";
+import { errorMessage } from "@/lib/errors";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_a_student: "Apenas alunos podem se matricular em turmas.",
+  student_profile_missing:
+    "Complete seu cadastro de aluno antes de se matricular.",
+  health_certificate_required:
+    "Envie seu atestado médico no cadastro antes de se matricular.",
+  class_not_found: "Turma não encontrada.",
+  already_enrolled: "Você já está matriculado nesta turma.",
+  class_full: "Esta turma já atingiu o número máximo de alunos.",
+  class_archived: "Esta turma foi encerrada e não aceita novas matrículas.",
+  capacity_below_enrolled:
+    "O número de vagas não pode ser menor que o de alunos matriculados.",
+  enrollment_not_found: "Matrícula não encontrada.",
+  enrollment_not_active: "Esta matrícula não está mais ativa.",
+  enrollment_not_paused: "Esta matrícula não está pausada.",
+  invalid_pause_length: "Escolha uma pausa entre 1 e 12 semanas.",
+  transfer_same_class: "Escolha uma turma diferente da atual.",
+  transfer_other_professional:
+    "A transferência só é possível para turmas do mesmo professor.",
+  waitlist_offer_not_found: "Não há vaga reservada para você nesta turma.",
+  waitlist_offer_expired:
+    "O prazo para confirmar esta vaga terminou. Você pode entrar novamente na lista de espera.",
+};
+
+export const enrollmentErrorMessage = (error: { message?: string }) =>
+  errorMessage(error, ERROR_MESSAGES);
+
+export interface WaitlistSummary {
+  active_count: number;
+  offered_count: number;
+  waiting_count: number;
+  my_status:
+    "waiting" | "offered" | "accepted" | "expired" | "cancelled" | null;
+  my_position: number | null;
+  my_offer_expires_at: string | null;
+}
+
+// "sexta, 14/11 às 09:30"
+export const formatOfferDeadline = (expiresAt: string) =>
+  format(new Date(expiresAt), "EEEE, dd/MM 'às' HH:mm", { locale: ptBR });
+
+export type EnrollmentStatus = Database["public"]["Enums"]["enrollment_status"];
+
+export const MAX_PAUSE_WEEKS = 12;
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: "Ativa",
+  paused: "Pausada",
+  cancelled: "Cancelada",
+  transferred: "Transferida",
+};
+
+// Matrículas pausadas continuam ocupando a vaga
+export const isCurrentEnrollment = (status?: EnrollmentStatus | null) =>
+  status === "active" || status === "paused";
+
+// "10/11/2025"
+export const formatEnrollmentDate = (date: string) =>
+  new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString(
+    "pt-BR"
+  );
+
+// Descrição de uma linha do histórico de matrícula
+export const describeStatusChange = (
+  from: EnrollmentStatus | null,
+  to: EnrollmentStatus
+) => {
+  if (to === "active") {
+    if (from === "paused") return "Retorno da pausa";
+    return from ? "Rematrícula" : "Matrícula";
+  }
+  if (to === "paused") return "Pausa";
+  if (to === "transferred") return "Transferência";
+  return "Cancelamento";
+};
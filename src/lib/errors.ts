@@ -0,0 +1,14 @@
+// Códigos lançados pelas funções do banco (RAISE EXCEPTION '<código>').
+// Cada funcionalidade tem o próprio mapa; estes valem para todas.
+const COMMON_MESSAGES: Record<string, string> = {
+  not_authenticated: "Faça login para continuar.",
+};
+
+export const errorMessage = (
+  error: { message?: string },
+  messages: Record<string, string> = {}
+) =>
+  (error.message &&
+    (messages[error.message] ?? COMMON_MESSAGES[error.message])) ||
+  error.message ||
+  "Não foi possível concluir a operação.";
@@ -0,0 +1,75 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { errorMessage } from "@/lib/errors";
+
+// Linha da view forum_posts: a mensagem com nome e foto de quem escreveu
+export type ForumMessage = Tables<"forum_posts">;
+
+export type ForumReaction = Tables<"forum_reactions">;
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  mine: boolean;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  forum_message_not_found: "Mensagem não encontrada no fórum desta turma.",
+  forum_pin_not_allowed: "Apenas o professor da turma pode fixar avisos.",
+};
+
+export const forumErrorMessage = (error: { message?: string }) =>
+  errorMessage(error, ERROR_MESSAGES);
+
+// Tópicos carregados por vez; as respostas vêm junto com o tópico
+export const FORUM_PAGE_SIZE = 20;
+
+export const FORUM_REACTIONS = ["👍", "❤️", "👏", "😂", "💪", "🙏"];
+
+// Reações agrupadas por mensagem, na ordem de FORUM_REACTIONS
+export const summarizeReactions = (
+  reactions: ForumReaction[],
+  userId: string | null
+) => {
+  const byMessage: Record<string, ReactionSummary[]> = {};
+
+  for (const reaction of reactions) {
+    const list = byMessage[reaction.message_id] || [];
+    byMessage[reaction.message_id] = list;
+
+    let entry = list.find((r) => r.emoji === reaction.emoji);
+    if (!entry) {
+      entry = { emoji: reaction.emoji, count: 0, mine: false };
+      list.push(entry);
+    }
+    entry.count++;
+    if (reaction.user_id === userId) entry.mine = true;
+  }
+
+  const order = (emoji: string) => {
+    const index = FORUM_REACTIONS.indexOf(emoji);
+    return index === -1 ? FORUM_REACTIONS.length : index;
+  };
+  for (const list of Object.values(byMessage)) {
+    list.sort((a, b) => order(a.emoji) - order(b.emoji));
+  }
+
+  return byMessage;
+};
+
+export const authorInitials = (name: string | null) =>
+  (name || "")
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2) || "?";
+
+// "1 resposta" / "3 respostas"
+export const formatReplyCount = (count: number) =>
+  `${count} ${count === 1 ? "resposta" : "respostas"}`;
+
+export const formatForumDate = (date: string) =>
+  new Date(date).toLocaleString("pt-BR", {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
@@ -0,0 +1,105 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export const RADIUS_OPTIONS_KM = [2, 5, 10, 25, 50];
+
+export const DEFAULT_RADIUS_KM = 10;
+
+// Geocodificação pelo Nominatim (OpenStreetMap), restrita ao Brasil
+const GEOCODER_URL = "https://nominatim.openstreetmap.org/search";
+
+// "Rua das Flores, 123" + "Asa Sul" -> "Rua das Flores, 123, Asa Sul"
+export const formatAddress = (address: string, neighborhood?: string | null) =>
+  [address, neighborhood]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+
+// A política de uso do Nominatim permite no máximo uma requisição por
+// segundo: as buscas entram em fila e endereços repetidos vêm do cache
+const GEOCODER_INTERVAL_MS = 1000;
+
+const geocodeCache = new Map<string, Promise<Coordinates | null>>();
+let nextGeocodeAt = 0;
+
+const waitGeocoderTurn = async () => {
+  const now = Date.now();
+  const wait = Math.max(nextGeocodeAt - now, 0);
+  nextGeocodeAt = Math.max(nextGeocodeAt, now) + GEOCODER_INTERVAL_MS;
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+};
+
+// Falhas de rede lançam erro para não ficarem no cache
+const requestGeocode = async (query: string) => {
+  await waitGeocoderTurn();
+
+  const params = new URLSearchParams({
+    q: query,
+    format: "json",
+    limit: "1",
+    countrycodes: "br",
+  });
+
+  const response = await fetch(`${GEOCODER_URL}?${params}`, {
+    headers: { "Accept-Language": "pt-BR" },
+  });
+  if (!response.ok) throw new Error(`Geocoder ${response.status}`);
+
+  const [result] = await response.json();
+  if (!result) return null;
+
+  return {
+    latitude: parseFloat(result.lat),
+    longitude: parseFloat(result.lon),
+  };
+};
+
+export const geocodeAddress = async (
+  query: string
+): Promise<Coordinates | null> => {
+  const key = query.trim().replace(/\s+/g, " ").toLowerCase();
+  if (!key) return null;
+
+  if (!geocodeCache.has(key)) {
+    geocodeCache.set(
+      key,
+      requestGeocode(query).catch(() => {
+        geocodeCache.delete(key);
+        return null;
+      })
+    );
+  }
+
+  return geocodeCache.get(key);
+};
+
+export const getCurrentPosition = () =>
+  new Promise<Coordinates>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Seu navegador não permite obter a localização."));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        }),
+      () =>
+        reject(
+          new Error(
+            "Permita o acesso à localização para buscar aulas perto de você."
+          )
+        ),
+      { enableHighAccuracy: false, timeout: 10000 }
+    );
+  });
+
+// "800 m" / "2,4 km"
+export const formatDistance = (km: number) =>
+  km < 1
+    ? `${Math.round(km * 1000)} m`
+    : `${km.toLocaleString("pt-BR", { maximumFractionDigits: 1 })} km`;
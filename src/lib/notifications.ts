@@ -0,0 +1,77 @@
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+export type NotificationCategory =
+  Database["public"]["Enums"]["notification_category"];
+
+export type AppNotification = Tables<"notifications">;
+
+export type NotificationPreference = Tables<"notification_preferences">;
+
+// Categorias que o usuário pode desativar. Avisos de matrícula e lista de
+// espera ("general") sempre são entregues.
+export const NOTIFICATION_CATEGORIES: {
+  value: Exclude<NotificationCategory, "general">;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "forum",
+    label: "Fórum das turmas",
+    description: "Novas mensagens no fórum",
+  },
+  {
+    value: "messages",
+    label: "Mensagens privadas",
+    description: "Mensagens recebidas no chat",
+  },
+  {
+    value: "schedule",
+    label: "Mudanças de horário",
+    description: "Aulas canceladas, remarcadas ou extras",
+  },
+  {
+    value: "payments",
+    label: "Pagamentos",
+    description: "Novas mensalidades e pagamentos confirmados",
+  },
+  {
+    value: "reminders",
+    label: "Lembretes de aula",
+    description: "Avisos antes de cada aula começar",
+  },
+];
+
+// Mensagens privadas não pertencem a uma turma
+export const CLASS_NOTIFICATION_CATEGORIES = NOTIFICATION_CATEGORIES.filter(
+  (category) => category.value !== "messages"
+);
+
+// Mesma regra de notifications_enabled no banco: a preferência mais
+// específica vence (turma + categoria, turma, categoria) e o padrão é ativo
+export const isNotificationEnabled = (
+  preferences: NotificationPreference[],
+  category: NotificationCategory | null,
+  classId: string | null = null
+) => {
+  if (category === "general") return true;
+
+  const match = preferences
+    .filter(
+      (p) =>
+        (p.class_id === null || p.class_id === classId) &&
+        (p.category === null || p.category === category)
+    )
+    .sort(
+      (a, b) =>
+        Number(b.class_id !== null) - Number(a.class_id !== null) ||
+        Number(b.category !== null) - Number(a.category !== null)
+    )[0];
+
+  return match?.enabled ?? true;
+};
+
+// "há 5 minutos"
+export const formatNotificationTime = (createdAt: string) =>
+  formatDistanceToNow(new Date(createdAt), { addSuffix: true, locale: ptBR });
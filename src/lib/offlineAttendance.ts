@@ -0,0 +1,95 @@
+// Chamadas feitas sem conexão ficam guardadas no IndexedDB do aparelho até
+// serem enviadas (veja save_attendance no banco)
+export interface AttendanceMark {
+  enrollment_id: string;
+  present: boolean;
+}
+
+export interface PendingAttendance {
+  session_id: string;
+  class_id: string;
+  session_date: string;
+  marks: AttendanceMark[];
+  notes: string | null;
+  // Quando a chamada foi feita, usado para resolver conflitos
+  marked_at: string;
+  // Motivo informado pelo servidor ao recusar a chamada. Recusadas não são
+  // reenviadas: ficam guardadas até o professor descartá-las.
+  rejected_error?: string;
+}
+
+const DB_NAME = "aulas-offline";
+const DB_VERSION = 1;
+const STORE = "pending_attendance";
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, {
+        keyPath: "session_id",
+      });
+      store.createIndex("class_id", "class_id");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Uma chamada por aula: salvar de novo substitui a anterior
+export const queueAttendance = (entry: PendingAttendance) =>
+  withStore("readwrite", (store) => store.put(entry));
+
+// Sem IndexedDB (navegação privada em alguns navegadores) não há fila
+const listStoredAttendance = async (classId: string) => {
+  try {
+    const entries = await withStore<PendingAttendance[]>("readonly", (store) =>
+      store.index("class_id").getAll(classId)
+    );
+    return entries.sort((a, b) => a.marked_at.localeCompare(b.marked_at));
+  } catch (error) {
+    console.error("Error reading offline attendance:", error);
+    return [];
+  }
+};
+
+export const listPendingAttendance = async (classId: string) =>
+  (await listStoredAttendance(classId)).filter(
+    (entry) => !entry.rejected_error
+  );
+
+export const listRejectedAttendance = async (classId: string) =>
+  (await listStoredAttendance(classId)).filter((entry) => entry.rejected_error);
+
+export const rejectPendingAttendance = (
+  entry: PendingAttendance,
+  reason: string
+) =>
+  withStore("readwrite", (store) =>
+    store.put({ ...entry, rejected_error: reason })
+  );
+
+export const removePendingAttendance = (sessionId: string) =>
+  withStore("readwrite", (store) => store.delete(sessionId));
+
+// Erros de rede do supabase-js chegam como "TypeError: Failed to fetch"
+export const isNetworkError = (error: { message: string }) =>
+  !navigator.onLine ||
+  /failed to fetch|network|load failed/i.test(error.message);
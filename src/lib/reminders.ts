@@ -0,0 +1,31 @@
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+export type OutboundChannel = Database["public"]["Enums"]["outbound_channel"];
+
+export type ReminderSettings = Tables<"reminder_settings">;
+
+// Antecedências aceitas pelo banco (reminder_settings.lead_hours)
+export const LEAD_HOUR_OPTIONS = [
+  { value: 48, label: "2 dias antes" },
+  { value: 24, label: "1 dia antes" },
+  { value: 12, label: "12 horas antes" },
+  { value: 6, label: "6 horas antes" },
+  { value: 2, label: "2 horas antes" },
+  { value: 1, label: "1 hora antes" },
+];
+
+export const OUTBOUND_CHANNELS: { value: OutboundChannel; label: string }[] = [
+  { value: "email", label: "E-mail" },
+  { value: "sms", label: "SMS" },
+  { value: "whatsapp", label: "WhatsApp" },
+];
+
+// Valores usados quando o aluno ainda não salvou nenhuma preferência
+export const defaultReminderSettings = (userId: string): ReminderSettings => ({
+  user_id: userId,
+  lead_hours: [24, 2],
+  channel: null,
+  quiet_start: null,
+  quiet_end: null,
+  updated_at: null,
+});
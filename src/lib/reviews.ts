@@ -0,0 +1,51 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { errorMessage } from "@/lib/errors";
+
+export type ClassReview = Tables<"class_reviews">;
+
+export interface RatingSummary {
+  review_count: number;
+  average_rating: number;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid_rating: "Escolha uma nota de 1 a 5 estrelas.",
+  review_not_allowed:
+    "Você precisa ter participado de algumas aulas antes de avaliar a turma.",
+  review_not_found: "Avaliação não encontrada.",
+};
+
+export const reviewErrorMessage = (error: { message?: string }) =>
+  errorMessage(error, ERROR_MESSAGES);
+
+export const REPORT_REASONS = [
+  "Linguagem ofensiva",
+  "Conteúdo falso ou enganoso",
+  "Dados pessoais expostos",
+  "Propaganda ou spam",
+];
+
+// "4,8"
+export const formatRating = (rating: number) =>
+  Number(rating).toLocaleString("pt-BR", {
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  });
+
+// "1 avaliação" / "12 avaliações"
+export const formatReviewCount = (count: number) =>
+  `${count} ${count === 1 ? "avaliação" : "avaliações"}`;
+
+// Linha das views class_rating_summary / professional_rating_summary
+export const toRatingSummary = (
+  row?: {
+    review_count: number | null;
+    average_rating: number | null;
+  } | null
+): RatingSummary | null =>
+  row?.review_count
+    ? {
+        review_count: row.review_count,
+        average_rating: Number(row.average_rating),
+      }
+    : null;
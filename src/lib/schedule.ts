@@ -0,0 +1,171 @@
+export const DEFAULT_TIMEZONE = "America/Sao_Paulo";
+
+// Índices seguem Date.getDay(): 0 = domingo ... 6 = sábado
+export const WEEKDAYS = [
+  { value: 0, label: "Domingo", short: "Dom" },
+  { value: 1, label: "Segunda", short: "Seg" },
+  { value: 2, label: "Terça", short: "Ter" },
+  { value: 3, label: "Quarta", short: "Qua" },
+  { value: 4, label: "Quinta", short: "Qui" },
+  { value: 5, label: "Sexta", short: "Sex" },
+  { value: 6, label: "Sábado", short: "Sáb" },
+];
+
+// Ordem de exibição: semana começando na segunda-feira
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const TIMEZONES = [
+  { value: "America/Sao_Paulo", label: "Horário de Brasília" },
+  { value: "America/Manaus", label: "Horário do Amazonas" },
+  { value: "America/Cuiaba", label: "Horário de Mato Grosso" },
+  { value: "America/Rio_Branco", label: "Horário do Acre" },
+  { value: "America/Noronha", label: "Horário de Fernando de Noronha" },
+];
+
+export interface ClassSchedule {
+  weekdays: number[];
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  startDate: string;
+  endDate: string;
+}
+
+// Colunas de horário compartilhadas por classes e demands
+export interface ScheduleColumns {
+  schedule?: string | null;
+  weekdays?: number[] | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  timezone?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+}
+
+export const emptySchedule = (): ClassSchedule => ({
+  weekdays: [],
+  startTime: "",
+  endTime: "",
+  timezone: DEFAULT_TIMEZONE,
+  startDate: "",
+  endDate: "",
+});
+
+const trimSeconds = (time?: string | null) => (time ? time.slice(0, 5) : "");
+
+export const scheduleFromRow = (row: ScheduleColumns): ClassSchedule => ({
+  weekdays: row.weekdays ?? [],
+  startTime: trimSeconds(row.start_time),
+  endTime: trimSeconds(row.end_time),
+  timezone: row.timezone || DEFAULT_TIMEZONE,
+  startDate: row.start_date ?? "",
+  endDate: row.end_date ?? "",
+});
+
+export const scheduleToRow = (schedule: ClassSchedule) => ({
+  weekdays: sortWeekdays(schedule.weekdays),
+  start_time: schedule.startTime || null,
+  end_time: schedule.endTime || null,
+  timezone: schedule.timezone || DEFAULT_TIMEZONE,
+  start_date: schedule.startDate || null,
+  end_date: schedule.endDate || null,
+});
+
+export const sortWeekdays = (weekdays: number[]) =>
+  [...new Set(weekdays)].sort(
+    (a, b) => WEEKDAY_ORDER.indexOf(a) - WEEKDAY_ORDER.indexOf(b)
+  );
+
+export const isScheduleComplete = (schedule: ClassSchedule) =>
+  schedule.weekdays.length > 0 && !!schedule.startTime && !!schedule.endTime;
+
+// Retorna a mensagem de erro do formulário, ou null se o horário é válido
+export const validateSchedule = (schedule: ClassSchedule): string | null => {
+  if (!isScheduleComplete(schedule)) {
+    return "Selecione os dias da semana e o horário de início e término.";
+  }
+  if (schedule.endTime <= schedule.startTime) {
+    return "O horário de término deve ser depois do horário de início.";
+  }
+  if (
+    schedule.startDate &&
+    schedule.endDate &&
+    schedule.endDate < schedule.startDate
+  ) {
+    return "A data de término deve ser depois da data de início.";
+  }
+  return null;
+};
+
+const joinWithE = (items: string[]) =>
+  items.length <= 1
+    ? items.join("")
+    : `${items.slice(0, -1).join(", ")} e ${items[items.length - 1]}`;
+
+// "Segunda a Sexta" para dias consecutivos, "Segunda, Quarta e Sexta" caso contrário
+export const formatWeekdays = (weekdays: number[], short = false) => {
+  const sorted = sortWeekdays(weekdays);
+  const label = (day: number) =>
+    short ? WEEKDAYS[day].short : WEEKDAYS[day].label;
+
+  if (sorted.length === 7) return "Todos os dias";
+
+  const positions = sorted.map((day) => WEEKDAY_ORDER.indexOf(day));
+  const consecutive =
+    sorted.length >= 3 &&
+    positions.every((pos, i) => i === 0 || pos === positions[i - 1] + 1);
+
+  if (consecutive) {
+    return `${label(sorted[0])} a ${label(sorted[sorted.length - 1])}`;
+  }
+
+  return joinWithE(sorted.map(label));
+};
+
+// "08:00:00" -> "8h", "08:30" -> "8h30"
+export const formatTime = (time?: string | null) => {
+  if (!time) return "";
+  const [hours, minutes] = time.split(":");
+  const h = parseInt(hours, 10);
+  return minutes && minutes !== "00" ? `${h}h${minutes}` : `${h}h`;
+};
+
+export const formatTimeRange = (start?: string | null, end?: string | null) =>
+  start && end ? `${formatTime(start)} às ${formatTime(end)}` : "";
+
+const timezoneLabel = (timezone?: string | null) =>
+  timezone && timezone !== DEFAULT_TIMEZONE
+    ? (TIMEZONES.find((tz) => tz.value === timezone)?.label ?? timezone)
+    : "";
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("pt-BR");
+
+// Texto do horário de uma turma ou demanda. Linhas antigas que a migração não
+// conseguiu interpretar continuam exibindo o texto livre original.
+export const formatSchedule = (
+  row: ScheduleColumns,
+  options: { short?: boolean } = {}
+) => {
+  if (!row.weekdays?.length || !row.start_time || !row.end_time) {
+    return row.schedule || "Horário a definir";
+  }
+
+  const text = `${formatWeekdays(row.weekdays, options.short)}, ${formatTimeRange(
+    row.start_time,
+    row.end_time
+  )}`;
+  const timezone = timezoneLabel(row.timezone);
+
+  return timezone ? `${text} (${timezone})` : text;
+};
+
+// "De 10/11/2025 até 20/12/2025", "A partir de 10/11/2025" ou "" sem datas
+export const formatSchedulePeriod = (row: ScheduleColumns) => {
+  if (row.start_date && row.end_date) {
+    return `De ${formatDate(row.start_date)} até ${formatDate(row.end_date)}`;
+  }
+  if (row.start_date) return `A partir de ${formatDate(row.start_date)}`;
+  if (row.end_date) return `Até ${formatDate(row.end_date)}`;
+  return "";
+};
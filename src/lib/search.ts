@@ -0,0 +1,139 @@
+import type { Database } from "@/integrations/supabase/types";
+import { ClassCategory, ClassLevel } from "@/lib/classes";
+import { DEFAULT_RADIUS_KM } from "@/lib/geo";
+
+export type SearchResult =
+  Database["public"]["Functions"]["search_classes"]["Returns"][number];
+
+export type SearchSort =
+  "recent" | "distance" | "price_asc" | "price_desc" | "rating";
+
+export const SEARCH_PAGE_SIZE = 12;
+
+export const SORT_OPTIONS: { value: SearchSort; label: string }[] = [
+  { value: "recent", label: "Mais recentes" },
+  { value: "distance", label: "Mais próximas" },
+  { value: "price_asc", label: "Menor preço" },
+  { value: "price_desc", label: "Maior preço" },
+  { value: "rating", label: "Melhor avaliadas" },
+];
+
+export interface SearchFilters {
+  query: string;
+  category: ClassCategory | null;
+  level: ClassLevel | null;
+  minPrice: string;
+  maxPrice: string;
+  weekdays: number[];
+  startsAfter: string;
+  endsBefore: string;
+  onlyAvailable: boolean;
+  latitude: number | null;
+  longitude: number | null;
+  nearLabel: string;
+  radiusKm: number;
+  sort: SearchSort;
+  page: number;
+}
+
+// Nomes dos parâmetros na URL, para que a busca possa ser compartilhada
+const PARAMS = {
+  query: "q",
+  category: "categoria",
+  level: "nivel",
+  minPrice: "preco_min",
+  maxPrice: "preco_max",
+  weekdays: "dias",
+  startsAfter: "inicio",
+  endsBefore: "fim",
+  onlyAvailable: "vagas",
+  latitude: "lat",
+  longitude: "lng",
+  nearLabel: "perto",
+  radiusKm: "raio",
+  sort: "ordem",
+  page: "pagina",
+};
+
+const toNumber = (value: string | null) =>
+  value !== null && value !== "" && !isNaN(Number(value))
+    ? Number(value)
+    : null;
+
+export const filtersFromParams = (params: URLSearchParams): SearchFilters => {
+  const latitude = toNumber(params.get(PARAMS.latitude));
+  const longitude = toNumber(params.get(PARAMS.longitude));
+  const hasOrigin = latitude !== null && longitude !== null;
+
+  return {
+    query: params.get(PARAMS.query) || "",
+    category: (params.get(PARAMS.category) as ClassCategory) || null,
+    level: (params.get(PARAMS.level) as ClassLevel) || null,
+    minPrice: params.get(PARAMS.minPrice) || "",
+    maxPrice: params.get(PARAMS.maxPrice) || "",
+    weekdays: (params.get(PARAMS.weekdays) || "")
+      .split(",")
+      .filter(Boolean)
+      .map(Number),
+    startsAfter: params.get(PARAMS.startsAfter) || "",
+    endsBefore: params.get(PARAMS.endsBefore) || "",
+    onlyAvailable: params.get(PARAMS.onlyAvailable) === "1",
+    latitude: hasOrigin ? latitude : null,
+    longitude: hasOrigin ? longitude : null,
+    nearLabel: hasOrigin ? params.get(PARAMS.nearLabel) || "" : "",
+    radiusKm: toNumber(params.get(PARAMS.radiusKm)) || DEFAULT_RADIUS_KM,
+    sort:
+      (params.get(PARAMS.sort) as SearchSort) ||
+      (hasOrigin ? "distance" : "recent"),
+    page: Math.max(toNumber(params.get(PARAMS.page)) || 1, 1),
+  };
+};
+
+// Só grava na URL o que difere do padrão
+export const filtersToParams = (filters: SearchFilters) => {
+  const params = new URLSearchParams();
+  const set = (key: keyof typeof PARAMS, value: string | number | null) => {
+    if (value !== null && value !== "") params.set(PARAMS[key], String(value));
+  };
+  const hasOrigin = filters.latitude !== null && filters.longitude !== null;
+
+  set("query", filters.query.trim());
+  set("category", filters.category);
+  set("level", filters.level);
+  set("minPrice", filters.minPrice);
+  set("maxPrice", filters.maxPrice);
+  set("weekdays", filters.weekdays.join(","));
+  set("startsAfter", filters.startsAfter);
+  set("endsBefore", filters.endsBefore);
+  if (filters.onlyAvailable) set("onlyAvailable", 1);
+  if (hasOrigin) {
+    set("latitude", filters.latitude.toFixed(5));
+    set("longitude", filters.longitude.toFixed(5));
+    set("nearLabel", filters.nearLabel);
+  }
+  if (filters.radiusKm !== DEFAULT_RADIUS_KM) set("radiusKm", filters.radiusKm);
+  if (filters.sort !== (hasOrigin ? "distance" : "recent")) {
+    set("sort", filters.sort);
+  }
+  if (filters.page > 1) set("page", filters.page);
+
+  return params;
+};
+
+export const searchArgs = (filters: SearchFilters) => ({
+  _query: filters.query.trim() || undefined,
+  _category: filters.category || undefined,
+  _level: filters.level || undefined,
+  _min_price: toNumber(filters.minPrice) ?? undefined,
+  _max_price: toNumber(filters.maxPrice) ?? undefined,
+  _weekdays: filters.weekdays.length ? filters.weekdays : undefined,
+  _starts_after: filters.startsAfter || undefined,
+  _ends_before: filters.endsBefore || undefined,
+  _only_available: filters.onlyAvailable,
+  _latitude: filters.latitude ?? undefined,
+  _longitude: filters.longitude ?? undefined,
+  _radius_km: filters.radiusKm,
+  _sort: filters.sort,
+  _limit: SEARCH_PAGE_SIZE,
+  _offset: (filters.page - 1) * SEARCH_PAGE_SIZE,
+});
@@ -0,0 +1,65 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Tables } from "@/integrations/supabase/types";
+import { errorMessage } from "@/lib/errors";
+import { formatTimeRange } from "@/lib/schedule";
+
+export type ClassSession = Tables<"class_sessions">;
+
+export type SessionNotes = Tables<"session_notes">;
+
+const ERROR_MESSAGES: Record<string, string> = {
+  session_not_found: "Aula não encontrada.",
+};
+
+export const sessionErrorMessage = (error: { message?: string }) =>
+  errorMessage(error, ERROR_MESSAGES);
+
+export const todayISO = () => format(new Date(), "yyyy-MM-dd");
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00`);
+
+// "terça, 11/11" ou "terça, 11/11/2025" com long = true
+export const formatSessionDate = (date: string, long = false) =>
+  format(parseDate(date), long ? "EEEE, dd/MM/yyyy" : "EEEE, dd/MM", {
+    locale: ptBR,
+  });
+
+export const formatSession = (session: ClassSession, long = false) => {
+  const time = formatTimeRange(session.start_time, session.end_time);
+  const date = formatSessionDate(session.session_date, long);
+  return time ? `${date} • ${time}` : date;
+};
+
+export const isSessionMoved = (session: ClassSession) =>
+  !!session.original_date && session.original_date !== session.session_date;
+
+export const isOneOffSession = (session: ClassSession) =>
+  !session.original_date;
+
+export const sortSessions = (sessions: ClassSession[]) =>
+  [...sessions].sort(
+    (a, b) =>
+      a.session_date.localeCompare(b.session_date) ||
+      (a.start_time ?? "").localeCompare(b.start_time ?? "")
+  );
+
+// Sessão sugerida para a chamada: a última aula não cancelada até hoje
+export const pickDefaultSession = (
+  sessions: ClassSession[],
+  today = todayISO()
+) => {
+  const past = sortSessions(sessions).filter(
+    (s) => s.status === "scheduled" && s.session_date <= today
+  );
+  return past[past.length - 1] ?? null;
+};
+
+export const upcomingSessions = (
+  sessions: ClassSession[],
+  today = todayISO()
+) => sortSessions(sessions).filter((s) => s.session_date >= today);
+
+// Sessões que já têm plano de aula ou observações
+export const hasSessionNotes = (notes?: SessionNotes | null) =>
+  !!notes && (!!notes.lesson_plan.trim() || !!notes.notes.trim());
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,7 +11,41 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { formatSchedule, formatSchedulePeriod } from "@/lib/schedule";
+import {
+  WaitlistSummary,
+  enrollmentErrorMessage,
+  formatEnrollmentDate,
+  formatOfferDeadline,
+  isCurrentEnrollment,
+} from "@/lib/enrollment";
+import type { Tables } from "@/integrations/supabase/types";
+import { CHECK_IN_PARAM, checkInErrorMessage } from "@/lib/checkIn";
+import EnrollmentActions from "@/components/EnrollmentActions";
+import CheckInScanner from "@/components/CheckInScanner";
+import ClassBadges from "@/components/ClassBadges";
+import ClassForum from "@/components/ClassForum";
+import ClassReviews from "@/components/ClassReviews";
+import ProfessionalLink from "@/components/ProfessionalLink";
+import StarRating from "@/components/StarRating";
+import {
+  RatingSummary,
+  formatRating,
+  formatReviewCount,
+  toRatingSummary,
+} from "@/lib/reviews";
+import {
+  ClassSession,
+  SessionNotes,
+  formatSession,
+  formatSessionDate,
+  hasSessionNotes,
+  isSessionMoved,
+  todayISO,
+} from "@/lib/sessions";
+import { ForumMessage, formatForumDate } from "@/lib/forum";
 import {
   MapPin,
   Clock,
@@ -19,20 +53,38 @@ import {
   User,
   MessageSquare,
   MessageCircle,
+  CalendarDays,
+  NotebookPen,
+  Hourglass,
+  Pin,
+  Star,
 } from "lucide-react";
 
 const ClassDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [enrolling, setEnrolling] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistSummary | null>(null);
   const [classData, setClassData] = useState<any>(null);
   const [professional, setProfessional] = useState<any>(null);
   const [enrollmentCount, setEnrollmentCount] = useState(0);
+  const [enrollment, setEnrollment] = useState<Tables<"enrollments"> | null>(
+    null
+  );
   const [isEnrolled, setIsEnrolled] = useState(false);
-  const [forumMessages, setForumMessages] = useState<any[]>([]);
+  const [enrollmentChecked, setEnrollmentChecked] = useState(false);
+  const [announcements, setAnnouncements] = useState<ForumMessage[]>([]);
   const [classmates, setClassmates] = useState<any[]>([]);
+  const [upcomingSessions, setUpcomingSessions] = useState<ClassSession[]>([]);
+  const [sharedNotes, setSharedNotes] = useState<
+    (SessionNotes & { class_sessions: ClassSession })[]
+  >([]);
+  const [rating, setRating] = useState<RatingSummary | null>(null);
+  const [professionalRating, setProfessionalRating] =
+    useState<RatingSummary | null>(null);
 
   useEffect(() => {
     fetchClassDetails();
@@ -41,11 +93,66 @@ const ClassDetails = () => {
 
   useEffect(() => {
     if (isEnrolled) {
-      fetchForumMessages();
-      subscribeToForum();
+      fetchAnnouncements();
       fetchClassmates();
+      fetchUpcomingSessions();
+      fetchSharedNotes();
+    }
+  }, [isEnrolled, id]);
+
+  // Link dos avisos de pedido atendido: matricula com um toque. Espera a
+  // turma e a matrícula atual; turma cheia leva para a lista de espera
+  useEffect(() => {
+    if (
+      loading ||
+      !enrollmentChecked ||
+      searchParams.get("matricular") !== "1"
+    ) {
+      return;
+    }
+
+    setSearchParams({}, { replace: true });
+    if (!classData || classData.archived_at || isEnrolled) return;
+
+    if (waitlist?.my_status === "offered") {
+      handleAcceptOffer();
+    } else if (waitlist?.my_status === "waiting") {
+      return;
+    } else if (availableSpots > 0) {
+      handleEnroll();
+    } else {
+      handleJoinWaitlist();
     }
-  }, [isEnrolled]);
+  }, [loading, enrollmentChecked]);
+
+  // QR Code da chamada lido com a câmera do celular
+  useEffect(() => {
+    const code = searchParams.get(CHECK_IN_PARAM);
+    if (loading || !code) return;
+
+    setSearchParams({}, { replace: true });
+    handleCheckIn(code);
+  }, [loading]);
+
+  const handleCheckIn = async (code: string) => {
+    const { data, error } = await supabase.rpc("check_in", { _code: code });
+
+    if (error) {
+      toast({
+        title: "Presença não registrada",
+        description: checkInErrorMessage(error),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: data[0].already_checked_in
+        ? "Presença já registrada"
+        : "Presença confirmada!",
+      description: `Aula de ${data[0].activity}.`,
+    });
+  };
 
   const fetchClassDetails = async () => {
     try {
@@ -67,12 +174,8 @@ const ClassDetails = () => {
       if (profError) throw profError;
       setProfessional(profData);
 
-      const { count } = await supabase
-        .from("enrollments")
-        .select("*", { count: "exact", head: true })
-        .eq("class_id", id);
-
-      setEnrollmentCount(count || 0);
+      await fetchWaitlist();
+      await fetchRatings(classInfo.professional_id);
     } catch (error: any) {
       toast({
         title: "Erro ao carregar turma",
@@ -84,6 +187,36 @@ const ClassDetails = () => {
     }
   };
 
+  const fetchWaitlist = async () => {
+    const { data, error } = await supabase.rpc("class_waitlist_summary", {
+      _class_id: id,
+    });
+
+    if (error) throw error;
+
+    const summary = data?.[0] ?? null;
+    setWaitlist(summary);
+    setEnrollmentCount(summary?.active_count || 0);
+  };
+
+  const fetchRatings = async (professionalId: string) => {
+    const [{ data: classRating }, { data: profRating }] = await Promise.all([
+      supabase
+        .from("class_rating_summary")
+        .select("*")
+        .eq("class_id", id)
+        .maybeSingle(),
+      supabase
+        .from("professional_rating_summary")
+        .select("*")
+        .eq("professional_id", professionalId)
+        .maybeSingle(),
+    ]);
+
+    setRating(toRatingSummary(classRating));
+    setProfessionalRating(toRatingSummary(profRating));
+  };
+
   const fetchClassmates = async () => {
     try {
       // 1. Busca os enrollments da turma
@@ -91,7 +224,7 @@ const ClassDetails = () => {
         .from("enrollments")
         .select("id, student_id")
         .eq("class_id", id)
-        .eq("status", "active");
+        .in("status", ["active", "paused"]);
 
       if (enrollError) throw enrollError;
 
@@ -132,6 +265,48 @@ const ClassDetails = () => {
       console.error("Error fetching classmates:", error);
     }
   };
+  const fetchUpcomingSessions = async () => {
+    const { data, error } = await supabase
+      .from("class_sessions")
+      .select("*")
+      .eq("class_id", id)
+      .gte("session_date", todayISO())
+      .order("session_date", { ascending: true })
+      .order("start_time", { ascending: true })
+      .limit(5);
+
+    if (error) {
+      console.error("Error fetching sessions:", error);
+      return;
+    }
+
+    setUpcomingSessions(data || []);
+  };
+
+  const fetchSharedNotes = async () => {
+    const { data, error } = await supabase
+      .from("session_notes")
+      .select("*, class_sessions!inner (*)")
+      .eq("class_sessions.class_id", id)
+      .eq("shared", true);
+
+    if (error) {
+      console.error("Error fetching session notes:", error);
+      return;
+    }
+
+    setSharedNotes(
+      (data || [])
+        .filter(hasSessionNotes)
+        .sort((a, b) =>
+          b.class_sessions.session_date.localeCompare(
+            a.class_sessions.session_date
+          )
+        )
+        .slice(0, 10)
+    );
+  };
+
   const checkEnrollment = async () => {
     try {
       const {
@@ -147,56 +322,35 @@ const ClassDetails = () => {
         .maybeSingle();
 
       if (error) throw error;
-      setIsEnrolled(!!data);
+      setEnrollment(data);
+      setIsEnrolled(isCurrentEnrollment(data?.status));
     } catch (error: any) {
       console.error("Error checking enrollment:", error);
+    } finally {
+      setEnrollmentChecked(true);
     }
   };
 
-  const fetchForumMessages = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("forum_messages")
-        .select(
-          `
-          *,
-          profiles:user_id (full_name)
-        `
-        )
-        .eq("class_id", id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setForumMessages(data || []);
-    } catch (error: any) {
-      console.error("Error fetching forum:", error);
+  // Avisos fixados pelo professor, mostrados no topo da página
+  const fetchAnnouncements = async () => {
+    const { data, error } = await supabase
+      .from("forum_posts")
+      .select("*")
+      .eq("class_id", id)
+      .is("parent_id", null)
+      .not("pinned_at", "is", null)
+      .order("pinned_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching announcements:", error);
+      return;
     }
-  };
 
-  const subscribeToForum = () => {
-    const channel = supabase
-      .channel(`forum-${id}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "forum_messages",
-          filter: `class_id=eq.${id}`,
-        },
-        () => {
-          fetchForumMessages();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
+    setAnnouncements(data || []);
   };
 
   const handleEnroll = async () => {
-    if (enrollmentCount >= classData.max_students) {
+    if (availableSpots <= 0) {
       toast({
         title: "Turma cheia",
         description: "Esta turma já atingiu o número máximo de alunos.",
@@ -205,37 +359,114 @@ const ClassDetails = () => {
       return;
     }
 
+    // Vagas, papel de aluno e cadastro completo são verificados no banco
     setEnrolling(true);
-    try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error("Usuário não autenticado");
+    const { error } = await supabase.rpc("enroll_in_class", {
+      _class_id: id,
+    });
+    setEnrolling(false);
 
-      const { error } = await supabase.from("enrollments").insert({
-        class_id: id,
-        student_id: user.id,
-        status: "active",
+    if (error) {
+      toast({
+        title: "Erro ao matricular",
+        description: enrollmentErrorMessage(error),
+        variant: "destructive",
       });
+      if (error.message === "already_enrolled") await checkEnrollment();
+      await fetchWaitlist();
+      return;
+    }
 
-      if (error) throw error;
+    toast({
+      title: "Matrícula realizada!",
+      description: "Você foi matriculado na turma com sucesso.",
+    });
 
+    await checkEnrollment();
+    await fetchWaitlist();
+  };
+
+  const handleJoinWaitlist = async () => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setEnrolling(true);
+    const { error } = await supabase.from("waitlist_entries").insert({
+      class_id: id,
+      student_id: user.id,
+    });
+    setEnrolling(false);
+
+    if (error) {
       toast({
-        title: "Matrícula realizada!",
-        description: "Você foi matriculado na turma com sucesso.",
+        title: "Erro ao entrar na lista de espera",
+        description: enrollmentErrorMessage(error),
+        variant: "destructive",
       });
+      return;
+    }
 
-      setIsEnrolled(true);
-      setEnrollmentCount(enrollmentCount + 1);
-    } catch (error: any) {
+    toast({
+      title: "Você entrou na lista de espera",
+      description: "Avisaremos quando uma vaga for liberada.",
+    });
+    await fetchWaitlist();
+  };
+
+  const handleLeaveWaitlist = async () => {
+    setEnrolling(true);
+    const { error } = await supabase.rpc("leave_waitlist", { _class_id: id });
+    setEnrolling(false);
+
+    if (error) {
       toast({
-        title: "Erro ao matricular",
-        description: error.message,
+        title: "Erro ao sair da lista de espera",
+        description: enrollmentErrorMessage(error),
         variant: "destructive",
       });
-    } finally {
-      setEnrolling(false);
+      return;
+    }
+
+    toast({ title: "Você saiu da lista de espera" });
+    await fetchWaitlist();
+  };
+
+  const handleAcceptOffer = async () => {
+    setEnrolling(true);
+    const { error } = await supabase.rpc("accept_waitlist_offer", {
+      _class_id: id,
+    });
+    setEnrolling(false);
+
+    if (error) {
+      toast({
+        title: "Erro ao confirmar vaga",
+        description: enrollmentErrorMessage(error),
+        variant: "destructive",
+      });
+      await fetchWaitlist();
+      return;
     }
+
+    toast({
+      title: "Matrícula realizada!",
+      description: "Sua vaga foi confirmada com sucesso.",
+    });
+
+    await checkEnrollment();
+    await fetchWaitlist();
+  };
+
+  const handleEnrollmentChange = async (transferredToClassId?: string) => {
+    if (transferredToClassId) {
+      navigate(`/turma-aluno/${transferredToClassId}`);
+      return;
+    }
+
+    await checkEnrollment();
+    await fetchWaitlist();
   };
 
   if (loading) {
@@ -246,7 +477,9 @@ const ClassDetails = () => {
     return <div className="container py-12">Turma não encontrada</div>;
   }
 
-  const availableSpots = classData.max_students - enrollmentCount;
+  // Vagas reservadas para a lista de espera contam como ocupadas
+  const availableSpots =
+    classData.max_students - enrollmentCount - (waitlist?.offered_count || 0);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-primary/5 to-background py-12 px-4">
@@ -255,16 +488,55 @@ const ClassDetails = () => {
           ← Voltar
         </Button>
 
+        {isEnrolled &&
+          announcements.map((announcement) => (
+            <Alert key={announcement.id} className="mb-4 border-primary/50">
+              <Pin className="h-4 w-4" />
+              <AlertTitle className="flex flex-wrap justify-between gap-2">
+                <span>Aviso de {announcement.author_name || "Professor"}</span>
+                <span className="text-xs font-normal text-muted-foreground">
+                  {formatForumDate(announcement.created_at)}
+                  {announcement.edited_at && " · editado"}
+                </span>
+              </AlertTitle>
+              <AlertDescription className="whitespace-pre-wrap">
+                {announcement.message}
+              </AlertDescription>
+            </Alert>
+          ))}
+
         <Card>
           <CardHeader>
             <div className="flex items-start justify-between">
               <div>
+                <ClassBadges
+                  category={classData.category}
+                  level={classData.level}
+                  className="mb-3"
+                />
                 <CardTitle className="text-3xl">{classData.activity}</CardTitle>
+                {rating && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <StarRating value={rating.average_rating} />
+                    <span className="font-semibold">
+                      {formatRating(rating.average_rating)}
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      ({formatReviewCount(rating.review_count)})
+                    </span>
+                  </div>
+                )}
                 <CardDescription className="text-lg mt-2">
                   {classData.description || "Sem descrição disponível"}
                 </CardDescription>
               </div>
-              {isEnrolled && <Badge className="bg-primary">Matriculado</Badge>}
+              {enrollment?.status === "paused" ? (
+                <Badge variant="secondary">
+                  Pausada até {formatEnrollmentDate(enrollment.paused_until)}
+                </Badge>
+              ) : (
+                isEnrolled && <Badge className="bg-primary">Matriculado</Badge>
+              )}
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -272,13 +544,24 @@ const ClassDetails = () => {
               <div className="flex items-center gap-3">
                 <Clock className="h-5 w-5 text-muted-foreground" />
                 <span className="font-medium">Horário:</span>
-                <span>{classData.schedule}</span>
+                <span>{formatSchedule(classData)}</span>
               </div>
 
+              {formatSchedulePeriod(classData) && (
+                <div className="flex items-center gap-3">
+                  <CalendarDays className="h-5 w-5 text-muted-foreground" />
+                  <span className="font-medium">Período:</span>
+                  <span>{formatSchedulePeriod(classData)}</span>
+                </div>
+              )}
+
               <div className="flex items-center gap-3">
                 <MapPin className="h-5 w-5 text-muted-foreground" />
                 <span className="font-medium">Local:</span>
-                <span>{classData.location}</span>
+                <span>
+                  {classData.location}
+                  {classData.neighborhood && ` - ${classData.neighborhood}`}
+                </span>
               </div>
 
               <div className="flex items-center gap-3">
@@ -292,12 +575,32 @@ const ClassDetails = () => {
                 </span>
               </div>
 
+              {!!waitlist?.waiting_count && (
+                <div className="flex items-center gap-3">
+                  <Hourglass className="h-5 w-5 text-muted-foreground" />
+                  <span className="font-medium">Lista de espera:</span>
+                  <span>
+                    {waitlist.waiting_count}{" "}
+                    {waitlist.waiting_count === 1 ? "pessoa" : "pessoas"}
+                  </span>
+                </div>
+              )}
+
               {professional && (
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <User className="h-5 w-5 text-muted-foreground" />
                     <span className="font-medium">Professor:</span>
-                    <span>{professional.full_name}</span>
+                    <ProfessionalLink
+                      professionalId={professional.id}
+                      name={professional.full_name}
+                    />
+                    {professionalRating && (
+                      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Star className="h-4 w-4 fill-secondary text-secondary" />
+                        {formatRating(professionalRating.average_rating)}
+                      </span>
+                    )}
                   </div>
                   {isEnrolled && (
                     <Button
@@ -327,19 +630,173 @@ const ClassDetails = () => {
             {!isEnrolled && (
               <>
                 <Separator />
-                <Button
-                  onClick={handleEnroll}
-                  disabled={enrolling || availableSpots <= 0}
-                  className="w-full"
-                  size="lg"
-                >
-                  {enrolling ? "Matriculando..." : "Confirmar Inscrição"}
-                </Button>
+                {classData.archived_at ? (
+                  <p className="text-center text-muted-foreground">
+                    Esta turma foi encerrada e não aceita novas matrículas.
+                  </p>
+                ) : waitlist?.my_status === "offered" ? (
+                  <div className="space-y-3 rounded-md border border-primary bg-primary/5 p-4">
+                    <p className="font-medium">
+                      Uma vaga foi reservada para você!
+                    </p>
+                    {waitlist.my_offer_expires_at && (
+                      <p className="text-sm text-muted-foreground">
+                        Confirme sua matrícula até{" "}
+                        {formatOfferDeadline(waitlist.my_offer_expires_at)}.
+                      </p>
+                    )}
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Button
+                        onClick={handleAcceptOffer}
+                        disabled={enrolling}
+                        className="flex-1"
+                        size="lg"
+                      >
+                        {enrolling ? "Confirmando..." : "Confirmar Matrícula"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={handleLeaveWaitlist}
+                        disabled={enrolling}
+                        size="lg"
+                      >
+                        Recusar vaga
+                      </Button>
+                    </div>
+                  </div>
+                ) : waitlist?.my_status === "waiting" ? (
+                  <div className="space-y-3 rounded-md border p-4">
+                    <p className="font-medium">
+                      Você está na posição {waitlist.my_position} da lista de
+                      espera
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Quando uma vaga for liberada, você receberá uma
+                      notificação e terá 24 horas para confirmar.
+                    </p>
+                    <Button
+                      variant="outline"
+                      onClick={handleLeaveWaitlist}
+                      disabled={enrolling}
+                      className="w-full"
+                    >
+                      Sair da lista de espera
+                    </Button>
+                  </div>
+                ) : availableSpots > 0 ? (
+                  <Button
+                    onClick={handleEnroll}
+                    disabled={enrolling}
+                    className="w-full"
+                    size="lg"
+                  >
+                    {enrolling ? "Matriculando..." : "Confirmar Inscrição"}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleJoinWaitlist}
+                    disabled={enrolling}
+                    variant="secondary"
+                    className="w-full"
+                    size="lg"
+                  >
+                    {enrolling ? "Aguarde..." : "Entrar na Lista de Espera"}
+                  </Button>
+                )}
               </>
             )}
 
             {isEnrolled && (
               <>
+                <Separator />
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <CalendarDays className="h-5 w-5" />
+                    <h3 className="text-xl font-semibold">Próximas Aulas</h3>
+                  </div>
+
+                  {upcomingSessions.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-4">
+                      Nenhuma aula programada
+                    </p>
+                  ) : (
+                    <div className="grid gap-2">
+                      {upcomingSessions.map((session) => (
+                        <div
+                          key={session.id}
+                          className="flex flex-wrap items-center justify-between gap-2 rounded-md border px-4 py-3"
+                        >
+                          <span
+                            className={`capitalize ${
+                              session.status === "cancelled"
+                                ? "line-through text-muted-foreground"
+                                : "font-medium"
+                            }`}
+                          >
+                            {formatSession(session)}
+                          </span>
+                          {session.status === "cancelled" ? (
+                            <Badge variant="destructive">
+                              Cancelada
+                              {session.cancellation_reason &&
+                                `: ${session.cancellation_reason}`}
+                            </Badge>
+                          ) : (
+                            isSessionMoved(session) && (
+                              <Badge variant="secondary">
+                                Remarcada de{" "}
+                                {formatSessionDate(session.original_date!)}
+                              </Badge>
+                            )
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {sharedNotes.length > 0 && (
+                  <>
+                    <Separator />
+                    <div className="space-y-4">
+                      <div className="flex items-center gap-2">
+                        <NotebookPen className="h-5 w-5" />
+                        <h3 className="text-xl font-semibold">
+                          Diário da Turma
+                        </h3>
+                      </div>
+                      <div className="grid gap-2">
+                        {sharedNotes.map((entry) => (
+                          <div
+                            key={entry.session_id}
+                            className="rounded-md border px-4 py-3 space-y-2 text-sm"
+                          >
+                            <p className="font-medium capitalize">
+                              {formatSession(entry.class_sessions)}
+                            </p>
+                            {entry.lesson_plan && (
+                              <div>
+                                <p className="font-medium">Plano de aula</p>
+                                <p className="text-muted-foreground whitespace-pre-wrap">
+                                  {entry.lesson_plan}
+                                </p>
+                              </div>
+                            )}
+                            {entry.notes && (
+                              <div>
+                                <p className="font-medium">Observações</p>
+                                <p className="text-muted-foreground whitespace-pre-wrap">
+                                  {entry.notes}
+                                </p>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+
                 <Separator />
                 <div className="space-y-4">
                   <div className="flex items-center gap-2">
@@ -388,34 +845,44 @@ const ClassDetails = () => {
                     <h3 className="text-xl font-semibold">Fórum da Turma</h3>
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    Comunicados e avisos do professor
+                    Avisos do professor e conversas com a turma
                   </p>
 
-                  <div className="space-y-3">
-                    {forumMessages.length === 0 ? (
-                      <p className="text-center text-muted-foreground py-8">
-                        Ainda não há mensagens no fórum
-                      </p>
-                    ) : (
-                      forumMessages.map((message) => (
-                        <Card key={message.id}>
-                          <CardContent className="pt-4">
-                            <div className="flex justify-between items-start mb-2">
-                              <span className="font-semibold">
-                                {message.profiles?.full_name || "Professor"}
-                              </span>
-                              <span className="text-xs text-muted-foreground">
-                                {new Date(message.created_at).toLocaleString(
-                                  "pt-BR"
-                                )}
-                              </span>
-                            </div>
-                            <p className="text-sm">{message.message}</p>
-                          </CardContent>
-                        </Card>
-                      ))
-                    )}
+                  <ClassForum
+                    classId={id}
+                    canPost={!classData.archived_at}
+                    onChange={fetchAnnouncements}
+                  />
+                </div>
+              </>
+            )}
+
+            <Separator />
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Star className="h-5 w-5" />
+                <h3 className="text-xl font-semibold">Avaliações</h3>
+              </div>
+              <ClassReviews
+                classId={id}
+                isStudent={!!enrollment}
+                onChange={() => fetchRatings(classData.professional_id)}
+              />
+            </div>
+
+            {isEnrolled && !classData.archived_at && (
+              <>
+                <Separator />
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="text-xl font-semibold">Sua Matrícula</h3>
+                    <CheckInScanner />
                   </div>
+                  <EnrollmentActions
+                    enrollment={enrollment}
+                    professionalId={classData.professional_id}
+                    onChange={handleEnrollmentChange}
+                  />
                 </div>
               </>
             )}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import {
   Card,
@@ -12,7 +12,26 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
-import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import {
   Table,
@@ -26,14 +45,49 @@ import {
   ArrowLeft,
   MessageSquare,
   ClipboardList,
-  Send,
   BarChart3,
   Calendar,
-  MessageCircle,
+  CalendarDays,
+  History,
+  Pencil,
+  Copy,
+  Archive,
+  ArchiveRestore,
+  Star,
+  CloudOff,
+  NotebookPen,
+  RefreshCw,
+  AlertTriangle,
 } from "lucide-react";
 import { format } from "date-fns";
-import { ptBR } from "date-fns/locale";
 import { Badge } from "@/components/ui/badge";
+import { formatSchedule } from "@/lib/schedule";
+import {
+  ClassSession,
+  formatSession,
+  formatSessionDate,
+  pickDefaultSession,
+  sessionErrorMessage,
+  sortSessions,
+  todayISO,
+} from "@/lib/sessions";
+import ClassSessionsManager from "@/components/ClassSessionsManager";
+import ClassForum from "@/components/ClassForum";
+import ClassReviews from "@/components/ClassReviews";
+import CheckInQrCode from "@/components/CheckInQrCode";
+import SessionTimeline from "@/components/SessionTimeline";
+import AttendanceAnalytics from "@/components/AttendanceAnalytics";
+import AttendanceExportMenu from "@/components/AttendanceExportMenu";
+import {
+  EnrollmentStatus,
+  describeStatusChange,
+  formatEnrollmentDate,
+} from "@/lib/enrollment";
+import {
+  PendingAttendance,
+  listPendingAttendance,
+} from "@/lib/offlineAttendance";
+import { useOfflineAttendance } from "@/hooks/use-offline-attendance";
 
 interface Student {
   id: string;
@@ -44,40 +98,88 @@ interface Student {
   attendance_rate: number;
 }
 
-interface Message {
+interface EnrollmentEvent {
   id: string;
-  message: string;
+  student_id: string;
+  full_name: string;
+  from_status: EnrollmentStatus | null;
+  to_status: EnrollmentStatus;
+  reason: string | null;
+  paused_until: string | null;
   created_at: string;
-  user_id: string;
-  profiles: { full_name: string } | null;
 }
 
 const ClassManagement = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
   const [classData, setClassData] = useState<any>(null);
   const [students, setStudents] = useState<Student[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [newMessage, setNewMessage] = useState("");
   const [attendance, setAttendance] = useState<Record<string, boolean>>({});
+  const [checkedIn, setCheckedIn] = useState<Record<string, string>>({});
   const [notes, setNotes] = useState("");
   const [loading, setLoading] = useState(true);
-  const [selectedDate, setSelectedDate] = useState(
-    format(new Date(), "yyyy-MM-dd")
-  );
+  const [sessions, setSessions] = useState<ClassSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState("");
   const [frequencyData, setFrequencyData] = useState<Student[]>([]);
+  const [waitingCount, setWaitingCount] = useState(0);
+  const [enrollmentEvents, setEnrollmentEvents] = useState<EnrollmentEvent[]>(
+    []
+  );
+  const offline = useOfflineAttendance(id, () => loadRoster());
 
   useEffect(() => {
     loadClassData();
-    loadStudents();
-    loadMessages();
-    loadFrequencyData();
+    loadSessions();
+    loadWaitlist();
+    loadEnrollmentHistory();
   }, [id]);
 
   useEffect(() => {
-    loadAttendanceForDate();
-  }, [selectedDate, students]);
+    loadRoster();
+  }, [id, selectedSessionId]);
+
+  // Presenças marcadas pelo QR Code aparecem na lista sem recarregar
+  useEffect(() => {
+    if (!selectedSessionId) return;
+
+    const channel = supabase
+      .channel(`attendance-${selectedSessionId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "attendance",
+          filter: `session_id=eq.${selectedSessionId}`,
+        },
+        (payload) => {
+          const record = payload.new as {
+            enrollment_id?: string;
+            present?: boolean;
+            checked_in_at?: string | null;
+          };
+          const student = students.find(
+            (s) => s.enrollment_id === record.enrollment_id
+          );
+
+          // Só soma check-ins; marcações manuais ainda não salvas ficam
+          if (!student || !record.present || !record.checked_in_at) return;
+
+          setAttendance((prev) => ({ ...prev, [student.id]: true }));
+          setCheckedIn((prev) => ({
+            ...prev,
+            [student.id]: record.checked_in_at,
+          }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedSessionId, students]);
 
   const loadClassData = async () => {
     const { data } = await supabase
@@ -90,256 +192,204 @@ const ClassManagement = () => {
     setLoading(false);
   };
 
-  const loadStudents = async () => {
-    try {
-      // 1. Busca enrollments
-      const { data: enrollments, error: enrollError } = await supabase
-        .from("enrollments")
-        .select("id, student_id")
-        .eq("class_id", id)
-        .eq("status", "active");
+  const loadSessions = async () => {
+    // Garante que as próximas ocorrências da recorrência existam
+    await supabase.rpc("generate_class_sessions", { _class_id: id });
 
-      if (enrollError) throw enrollError;
+    const { data, error } = await supabase
+      .from("class_sessions")
+      .select("*")
+      .eq("class_id", id)
+      .order("session_date", { ascending: true })
+      .order("start_time", { ascending: true });
 
-      if (!enrollments || enrollments.length === 0) {
-        setStudents([]);
-        return;
-      }
+    if (error) {
+      console.error("Error loading sessions:", error);
+      return;
+    }
 
-      // 2. Busca perfis dos estudantes - CORRIGIDO
-      const studentIds = enrollments.map((e) => e.student_id);
+    setSessions(data || []);
+    setSelectedSessionId(
+      (current) => current || pickDefaultSession(data || [])?.id || ""
+    );
+  };
 
-      const { data: profiles, error: profilesError } = await supabase
-        .from("profiles")
-        .select("id, full_name")
-        .in("id", studentIds);
+  const loadWaitlist = async () => {
+    const { count } = await supabase
+      .from("waitlist_entries")
+      .select("*", { count: "exact", head: true })
+      .eq("class_id", id)
+      .eq("status", "waiting");
 
-      if (profilesError) {
-        console.error("Error fetching profiles:", profilesError);
-      }
+    setWaitingCount(count || 0);
+  };
 
-      // 3. Se profiles está vazio, tenta buscar da tabela students
-      let studentsInfo = null;
-      if (!profiles || profiles.length === 0) {
-        const { data: studentsData, error: studentsError } = await supabase
-          .from("students")
-          .select("user_id, full_name")
-          .in("user_id", studentIds);
+  const loadEnrollmentHistory = async () => {
+    const { data: events, error } = await supabase
+      .from("enrollment_status_history")
+      .select(
+        "id, student_id, from_status, to_status, reason, paused_until, created_at"
+      )
+      .eq("class_id", id)
+      .order("created_at", { ascending: false });
 
-        studentsInfo = studentsData;
-      }
+    if (error) {
+      console.error("Error loading enrollment history:", error);
+      return;
+    }
 
-      // 4. Combina dados e busca faltas
-      const studentsWithAbsences = await Promise.all(
-        enrollments.map(async (enrollment) => {
-          const profile = profiles?.find((p) => p.id === enrollment.student_id);
-          const student = studentsInfo?.find(
-            (s) => s.user_id === enrollment.student_id
-          );
+    const studentIds = [...new Set((events || []).map((e) => e.student_id))];
+    const { data: studentsData } = await supabase
+      .from("students")
+      .select("user_id, full_name")
+      .in("user_id", studentIds);
+
+    setEnrollmentEvents(
+      (events || []).map((event) => ({
+        ...event,
+        full_name:
+          studentsData?.find((s) => s.user_id === event.student_id)
+            ?.full_name || "Sem nome",
+      }))
+    );
+  };
 
-          const { count } = await supabase
-            .from("attendance")
-            .select("*", { count: "exact", head: true })
-            .eq("enrollment_id", enrollment.id)
-            .eq("present", false);
-
-          return {
-            id: enrollment.student_id,
-            enrollment_id: enrollment.id,
-            full_name: profile?.full_name || student?.full_name || "Sem nome",
-            absences: count || 0,
-            total_classes: 0,
-            attendance_rate: 0,
-          };
-        })
-      );
+  // Alunos, frequência e a chamada da aula selecionada em uma só consulta
+  const loadRoster = async () => {
+    const { data, error } = await supabase.rpc("class_roster", {
+      _class_id: id,
+      _session_id: selectedSessionId || undefined,
+    });
 
-      setStudents(studentsWithAbsences);
-    } catch (error) {
-      console.error("Error loading students:", error);
+    if (error) {
+      console.error("Error loading roster:", error);
+      return;
     }
-  };
 
-  const loadAttendanceForDate = async () => {
-    if (students.length === 0) return;
+    const rows = data || [];
+    const toStudent = (row: (typeof rows)[number]): Student => ({
+      id: row.student_id,
+      enrollment_id: row.enrollment_id,
+      full_name: row.full_name || "Sem nome",
+      absences: row.absences,
+      total_classes: row.total_classes,
+      attendance_rate: Number(row.attendance_rate),
+    });
+    const activeRows = rows.filter((row) => row.enrollment_status === "active");
 
     const attendanceMap: Record<string, boolean> = {};
+    const checkedInMap: Record<string, string> = {};
 
-    for (const student of students) {
-      const { data } = await supabase
-        .from("attendance")
-        .select("present")
-        .eq("enrollment_id", student.enrollment_id)
-        .eq("date", selectedDate)
-        .maybeSingle();
-
-      if (data) {
-        attendanceMap[student.id] = data.present;
+    for (const row of activeRows) {
+      if (row.present !== null) {
+        attendanceMap[row.student_id] = row.present;
+      }
+      if (row.checked_in_at) {
+        checkedInMap[row.student_id] = row.checked_in_at;
       }
     }
 
-    setAttendance(attendanceMap);
-  };
+    let sessionNotes = "";
 
-  const loadFrequencyData = async () => {
-    try {
-      // 1. Busca enrollments
-      const { data: enrollments, error: enrollError } = await supabase
-        .from("enrollments")
-        .select("id, student_id")
-        .eq("class_id", id)
-        .eq("status", "active");
-
-      if (enrollError) throw enrollError;
+    if (selectedSessionId) {
+      const { data: notesData } = await supabase
+        .from("session_notes")
+        .select("notes")
+        .eq("session_id", selectedSessionId)
+        .maybeSingle();
 
-      if (!enrollments || enrollments.length === 0) {
-        setFrequencyData([]);
-        return;
-      }
+      // Uma chamada ainda não sincronizada vale mais que a do servidor
+      const queued = (await listPendingAttendance(id)).find(
+        (entry) => entry.session_id === selectedSessionId
+      );
 
-      // 2. Busca dados dos estudantes
-      const studentIds = enrollments.map((e) => e.student_id);
-
-      // Tenta buscar de profiles primeiro
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("id, full_name")
-        .in("id", studentIds);
-
-      // Se profiles estiver vazio, busca de students
-      let studentsData = null;
-      if (!profiles || profiles.length === 0) {
-        const { data } = await supabase
-          .from("students")
-          .select("user_id, full_name")
-          .in("user_id", studentIds);
-        studentsData = data;
+      for (const row of activeRows) {
+        const mark = queued?.marks.find(
+          (m) => m.enrollment_id === row.enrollment_id
+        );
+        if (mark) attendanceMap[row.student_id] = mark.present;
       }
 
-      // 3. Calcula estatísticas de frequência
-      const frequencyStats = await Promise.all(
-        enrollments.map(async (enrollment) => {
-          // Busca o nome do estudante
-          const profile = profiles?.find((p) => p.id === enrollment.student_id);
-          const student = studentsData?.find(
-            (s) => s.user_id === enrollment.student_id
-          );
-          const fullName =
-            profile?.full_name || student?.full_name || "Sem nome";
-
-          // Busca registros de presença
-          const { data: attendanceRecords } = await supabase
-            .from("attendance")
-            .select("present")
-            .eq("enrollment_id", enrollment.id);
-
-          const totalClasses = attendanceRecords?.length || 0;
-          const absences =
-            attendanceRecords?.filter((a) => !a.present).length || 0;
-          const presences = totalClasses - absences;
-          const attendanceRate =
-            totalClasses > 0 ? (presences / totalClasses) * 100 : 0;
-
-          return {
-            id: enrollment.student_id,
-            enrollment_id: enrollment.id,
-            full_name: fullName,
-            absences,
-            total_classes: totalClasses,
-            attendance_rate: attendanceRate,
-          };
-        })
-      );
-
-      setFrequencyData(frequencyStats);
-    } catch (error) {
-      console.error("Error loading frequency data:", error);
+      sessionNotes = queued?.notes ?? notesData?.notes ?? "";
     }
+
+    setStudents(activeRows.map(toStudent));
+    setFrequencyData(rows.map(toStudent));
+    setAttendance(attendanceMap);
+    setCheckedIn(checkedInMap);
+    setNotes(sessionNotes);
   };
 
-  const loadMessages = async () => {
-    const { data } = await supabase
-      .from("forum_messages")
-      .select("*")
-      .eq("class_id", id)
-      .order("created_at", { ascending: false });
+  const handleAttendanceSubmit = async () => {
+    const session = sessions.find((s) => s.id === selectedSessionId);
+    if (!session) return;
 
-    if (data) {
-      const messagesWithProfiles = await Promise.all(
-        data.map(async (msg) => {
-          const { data: profile } = await supabase
-            .from("profiles")
-            .select("full_name")
-            .eq("id", msg.user_id)
-            .maybeSingle();
-
-          return {
-            ...msg,
-            profiles: profile || null,
-          };
-        })
-      );
+    const entry: PendingAttendance = {
+      session_id: session.id,
+      class_id: id,
+      session_date: session.session_date,
+      marks: students.map((student) => ({
+        enrollment_id: student.enrollment_id,
+        present: attendance[student.id] || false,
+      })),
+      notes,
+      marked_at: new Date().toISOString(),
+    };
+    const sessionDate = format(
+      new Date(`${session.session_date}T00:00:00`),
+      "dd/MM/yyyy"
+    );
 
-      setMessages(messagesWithProfiles as Message[]);
-    }
-  };
+    try {
+      const kept = await offline.save(entry);
 
-  const handleAttendanceSubmit = async () => {
-    const attendanceRecords = students.map((student) => ({
-      enrollment_id: student.enrollment_id,
-      date: selectedDate,
-      present: attendance[student.id] || false,
-    }));
+      if (!kept) {
+        toast({
+          title: "Sem conexão: chamada guardada",
+          description: `A chamada de ${sessionDate} ficou salva neste aparelho e será enviada quando a conexão voltar.`,
+        });
+        return;
+      }
 
-    const { error } = await supabase
-      .from("attendance")
-      .upsert(attendanceRecords, {
-        onConflict: "enrollment_id,date",
+      toast({
+        title: "Presença salva!",
+        description: `Chamada de ${sessionDate} atualizada.`,
       });
-
-    if (error) {
+      loadRoster();
+    } catch (error) {
       toast({
         title: "Erro ao salvar presença",
-        description: error.message,
+        description: sessionErrorMessage(error),
         variant: "destructive",
       });
-    } else {
-      toast({
-        title: "Presença salva!",
-        description: `Chamada de ${format(
-          new Date(selectedDate),
-          "dd/MM/yyyy"
-        )} atualizada.`,
-      });
-      loadStudents();
-      loadFrequencyData();
     }
   };
 
-  const handleSendMessage = async () => {
-    if (!newMessage.trim()) return;
-
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const { error } = await supabase.from("forum_messages").insert({
-      class_id: id,
-      user_id: user.id,
-      message: newMessage,
-    });
+  const handleToggleArchive = async () => {
+    const archiving = !classData?.archived_at;
+    const { error } = await supabase
+      .from("classes")
+      .update({ archived_at: archiving ? new Date().toISOString() : null })
+      .eq("id", id);
 
     if (error) {
       toast({
-        title: "Erro ao enviar mensagem",
+        title: archiving ? "Erro ao arquivar turma" : "Erro ao reativar turma",
         description: error.message,
         variant: "destructive",
       });
-    } else {
-      setNewMessage("");
-      loadMessages();
+      return;
     }
+
+    toast({
+      title: archiving ? "Turma arquivada" : "Turma reativada",
+      description: archiving
+        ? "A turma não aparece mais na busca. O histórico foi mantido."
+        : "A turma voltou a aparecer na busca.",
+    });
+    loadClassData();
+    loadSessions();
+    loadWaitlist();
   };
 
   if (loading) {
@@ -362,19 +412,102 @@ const ClassManagement = () => {
           Voltar ao Dashboard
         </Button>
 
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold">{classData?.activity}</h1>
-          <p className="text-xl text-muted-foreground mt-2">
-            {classData?.schedule} • {classData?.location}
-          </p>
+        <div className="mb-8 flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-4xl font-bold">{classData?.activity}</h1>
+              {classData?.archived_at && (
+                <Badge variant="secondary">Arquivada</Badge>
+              )}
+            </div>
+            <p className="text-xl text-muted-foreground mt-2">
+              {classData && formatSchedule(classData)} • {classData?.location}
+            </p>
+            {waitingCount > 0 && (
+              <Badge variant="secondary" className="mt-3">
+                {waitingCount}{" "}
+                {waitingCount === 1
+                  ? "aluno na lista de espera"
+                  : "alunos na lista de espera"}
+              </Badge>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/turma/${id}/editar`)}
+            >
+              <Pencil className="w-4 h-4 mr-2" />
+              Editar
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() =>
+                navigate("/cadastrar-aulas", {
+                  state: { duplicateFromId: id },
+                })
+              }
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Duplicar
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline">
+                  {classData?.archived_at ? (
+                    <ArchiveRestore className="w-4 h-4 mr-2" />
+                  ) : (
+                    <Archive className="w-4 h-4 mr-2" />
+                  )}
+                  {classData?.archived_at ? "Reativar" : "Arquivar"}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>
+                    {classData?.archived_at
+                      ? "Reativar turma?"
+                      : "Arquivar turma?"}
+                  </AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {classData?.archived_at
+                      ? "A turma volta a aparecer na busca e as próximas aulas são geradas novamente."
+                      : "A turma deixa de aparecer na busca, as próximas aulas e a lista de espera são canceladas e os alunos matriculados são avisados. Presenças e pagamentos continuam no histórico."}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Voltar</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleToggleArchive}>
+                    Confirmar
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
         </div>
 
-        <Tabs defaultValue="attendance" className="space-y-6">
+        <Tabs
+          defaultValue={searchParams.get("aba") || "attendance"}
+          className="space-y-6"
+        >
           <TabsList>
             <TabsTrigger value="attendance">
               <ClipboardList className="w-4 h-4 mr-2" />
               Chamada
             </TabsTrigger>
+            <TabsTrigger value="sessions">
+              <CalendarDays className="w-4 h-4 mr-2" />
+              Agenda
+            </TabsTrigger>
+            <TabsTrigger value="journal">
+              <NotebookPen className="w-4 h-4 mr-2" />
+              Diário
+            </TabsTrigger>
+            <TabsTrigger value="enrollments">
+              <History className="w-4 h-4 mr-2" />
+              Matrículas
+            </TabsTrigger>
             <TabsTrigger value="frequency">
               <BarChart3 className="w-4 h-4 mr-2" />
               Frequência
@@ -383,25 +516,124 @@ const ClassManagement = () => {
               <MessageSquare className="w-4 h-4 mr-2" />
               Fórum
             </TabsTrigger>
+            <TabsTrigger value="reviews">
+              <Star className="w-4 h-4 mr-2" />
+              Avaliações
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="attendance" className="space-y-6">
             <Card className="shadow-soft">
               <CardHeader>
-                <CardTitle>Lista de Chamada</CardTitle>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle>Lista de Chamada</CardTitle>
+                  {(!offline.online || offline.pending.length > 0) && (
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="gap-1">
+                        <CloudOff className="h-3 w-3" />
+                        {!offline.online && "Sem conexão"}
+                        {!offline.online && offline.pending.length > 0 && " · "}
+                        {offline.pending.length > 0 &&
+                          `${offline.pending.length} ${
+                            offline.pending.length === 1
+                              ? "chamada aguardando envio"
+                              : "chamadas aguardando envio"
+                          }`}
+                      </Badge>
+                      {offline.online && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={offline.sync}
+                          disabled={offline.syncing}
+                        >
+                          <RefreshCw
+                            className={`h-4 w-4 mr-1 ${
+                              offline.syncing ? "animate-spin" : ""
+                            }`}
+                          />
+                          Sincronizar
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
                 <CardDescription>
-                  Selecione a data e marque os alunos presentes
+                  Selecione a aula e marque os alunos presentes
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="flex items-center gap-2 mb-4">
+                {offline.rejected.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>
+                      {offline.rejected.length === 1
+                        ? "Chamada recusada pelo servidor"
+                        : "Chamadas recusadas pelo servidor"}
+                    </AlertTitle>
+                    <AlertDescription>
+                      <p className="mb-2">
+                        Estas chamadas feitas sem conexão não puderam ser
+                        salvas. Confira e descarte quando não precisar mais
+                        delas.
+                      </p>
+                      <ul className="space-y-1">
+                        {offline.rejected.map((entry) => (
+                          <li
+                            key={entry.session_id}
+                            className="flex flex-wrap items-center justify-between gap-2"
+                          >
+                            <span>
+                              <span className="capitalize">
+                                {formatSessionDate(entry.session_date)}
+                              </span>
+                              : {entry.rejected_error}
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => offline.discard(entry.session_id)}
+                            >
+                              Descartar
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <div className="flex flex-wrap items-center gap-2 mb-4">
                   <Calendar className="h-5 w-5 text-muted-foreground" />
-                  <Input
-                    type="date"
-                    value={selectedDate}
-                    onChange={(e) => setSelectedDate(e.target.value)}
-                    max={format(new Date(), "yyyy-MM-dd")}
-                    className="max-w-xs"
+                  <Select
+                    value={selectedSessionId}
+                    onValueChange={setSelectedSessionId}
+                  >
+                    <SelectTrigger className="max-w-sm">
+                      <SelectValue placeholder="Selecione a aula..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sortSessions(sessions)
+                        .filter((s) => s.session_date <= todayISO())
+                        .reverse()
+                        .map((session) => (
+                          <SelectItem
+                            key={session.id}
+                            value={session.id}
+                            disabled={session.status === "cancelled"}
+                            className="capitalize"
+                          >
+                            {formatSession(session, true)}
+                            {session.status === "cancelled" && " (cancelada)"}
+                            {offline.pending.some(
+                              (entry) => entry.session_id === session.id
+                            ) && " (não enviada)"}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <CheckInQrCode
+                    classId={id}
+                    session={sessions.find((s) => s.id === selectedSessionId)}
                   />
                 </div>
                 <Table>
@@ -416,6 +648,21 @@ const ClassManagement = () => {
                       <TableRow key={student.id}>
                         <TableCell className="font-medium">
                           {student.full_name}
+                          {checkedIn[student.id] && (
+                            <Badge
+                              variant={
+                                attendance[student.id] ? "secondary" : "outline"
+                              }
+                              className="ml-2"
+                            >
+                              {attendance[student.id]
+                                ? `QR ${format(
+                                    new Date(checkedIn[student.id]),
+                                    "HH:mm"
+                                  )}`
+                                : "QR removido"}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell className="text-center">
                           <Checkbox
@@ -432,10 +679,22 @@ const ClassManagement = () => {
                     ))}
                   </TableBody>
                 </Table>
+                <div className="space-y-2">
+                  <Label htmlFor="session-notes">Observações da aula</Label>
+                  <Textarea
+                    id="session-notes"
+                    placeholder="O que foi feito, ocorrências, substituições..."
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={3}
+                    disabled={!selectedSessionId}
+                  />
+                </div>
                 <Button
                   onClick={handleAttendanceSubmit}
                   className="w-full"
                   size="lg"
+                  disabled={!selectedSessionId}
                 >
                   Salvar Chamada
                 </Button>
@@ -443,78 +702,101 @@ const ClassManagement = () => {
             </Card>
           </TabsContent>
 
-          <TabsContent value="frequency" className="space-y-6">
+          <TabsContent value="sessions" className="space-y-6">
+            <Card className="shadow-soft">
+              <CardHeader>
+                <CardTitle>Próximas Aulas</CardTitle>
+                <CardDescription>
+                  Cancele, remarque ou adicione aulas avulsas
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ClassSessionsManager
+                  classId={id}
+                  sessions={sessions}
+                  defaultStartTime={classData?.start_time}
+                  defaultEndTime={classData?.end_time}
+                  onChange={loadSessions}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="journal" className="space-y-6">
             <Card className="shadow-soft">
               <CardHeader>
-                <CardTitle>Frequência Consolidada</CardTitle>
+                <CardTitle>Diário da Turma</CardTitle>
                 <CardDescription>
-                  Visão geral da frequência de todos os alunos
+                  Planos de aula e observações de cada aula
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SessionTimeline sessions={sessions} onChange={loadRoster} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="enrollments" className="space-y-6">
+            <Card className="shadow-soft">
+              <CardHeader>
+                <CardTitle>Movimentações de Matrícula</CardTitle>
+                <CardDescription>
+                  Entradas, pausas, transferências e cancelamentos dos alunos
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead>Data</TableHead>
                       <TableHead>Aluno</TableHead>
-                      <TableHead className="text-center">
-                        Total de Aulas
-                      </TableHead>
-                      <TableHead className="text-center">Presenças</TableHead>
-                      <TableHead className="text-center">Faltas</TableHead>
-                      <TableHead className="text-center">
-                        % Frequência
-                      </TableHead>
-                      <TableHead className="text-center">Ações</TableHead>
+                      <TableHead>Movimentação</TableHead>
+                      <TableHead>Motivo</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {frequencyData.length === 0 ? (
+                    {enrollmentEvents.length === 0 ? (
                       <TableRow>
                         <TableCell
-                          colSpan={6}
+                          colSpan={4}
                           className="text-center text-muted-foreground py-8"
                         >
-                          Nenhum registro de frequência ainda
+                          Nenhuma movimentação registrada
                         </TableCell>
                       </TableRow>
                     ) : (
-                      frequencyData.map((student) => (
-                        <TableRow key={student.id}>
-                          <TableCell className="font-medium">
-                            {student.full_name}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {student.total_classes}
+                      enrollmentEvents.map((event) => (
+                        <TableRow key={event.id}>
+                          <TableCell>
+                            {formatEnrollmentDate(event.created_at)}
                           </TableCell>
-                          <TableCell className="text-center text-green-600 font-semibold">
-                            {student.total_classes - student.absences}
-                          </TableCell>
-                          <TableCell className="text-center text-red-600 font-semibold">
-                            {student.absences}
+                          <TableCell className="font-medium">
+                            {event.full_name}
                           </TableCell>
-                          <TableCell className="text-center">
+                          <TableCell>
                             <Badge
                               variant={
-                                student.attendance_rate >= 75
-                                  ? "default"
-                                  : "destructive"
+                                event.to_status === "cancelled" ||
+                                event.to_status === "transferred"
+                                  ? "destructive"
+                                  : event.to_status === "paused"
+                                    ? "secondary"
+                                    : "default"
                               }
-                              className="font-semibold"
                             >
-                              {student.attendance_rate.toFixed(1)}%
+                              {describeStatusChange(
+                                event.from_status,
+                                event.to_status
+                              )}
                             </Badge>
+                            {event.paused_until && (
+                              <span className="ml-2 text-sm text-muted-foreground">
+                                até {formatEnrollmentDate(event.paused_until)}
+                              </span>
+                            )}
                           </TableCell>
-
-                          <TableCell className="text-center">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() =>
-                                navigate(`/chat?contact=${student.id}`)
-                              }
-                            >
-                              <MessageCircle className="h-4 w-4" />
-                            </Button>
+                          <TableCell className="text-muted-foreground">
+                            {event.reason || "-"}
                           </TableCell>
                         </TableRow>
                       ))
@@ -525,46 +807,55 @@ const ClassManagement = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="frequency" className="space-y-6">
+            {classData && (
+              <div className="flex justify-end">
+                <AttendanceExportMenu
+                  classData={classData}
+                  sessions={sessions}
+                  students={frequencyData}
+                />
+              </div>
+            )}
+            {classData && (
+              <AttendanceAnalytics
+                classData={classData}
+                students={frequencyData}
+                onSettingsChange={loadClassData}
+              />
+            )}
+          </TabsContent>
+
           <TabsContent value="forum" className="space-y-6">
             <Card className="shadow-soft">
               <CardHeader>
-                <CardTitle>Enviar Mensagem</CardTitle>
+                <CardTitle>Fórum da Turma</CardTitle>
+                <CardDescription>
+                  Fixe avisos para que apareçam no topo da página da turma
+                </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <Textarea
-                  placeholder="Digite sua mensagem..."
-                  value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
-                  rows={3}
+              <CardContent>
+                <ClassForum
+                  classId={id}
+                  isOwner
+                  canPost={!classData?.archived_at}
                 />
-                <Button onClick={handleSendMessage} className="w-full">
-                  <Send className="w-4 h-4 mr-2" />
-                  Enviar
-                </Button>
               </CardContent>
             </Card>
+          </TabsContent>
 
-            <div className="space-y-4">
-              {messages.map((msg) => (
-                <Card key={msg.id} className="shadow-soft">
-                  <CardHeader className="pb-3">
-                    <div className="flex justify-between items-start">
-                      <CardTitle className="text-base">
-                        {msg.profiles?.full_name || "Usuário"}
-                      </CardTitle>
-                      <span className="text-sm text-muted-foreground">
-                        {format(new Date(msg.created_at), "dd/MM/yyyy HH:mm", {
-                          locale: ptBR,
-                        })}
-                      </span>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <p className="text-sm">{msg.message}</p>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+          <TabsContent value="reviews" className="space-y-6">
+            <Card className="shadow-soft">
+              <CardHeader>
+                <CardTitle>Avaliações dos Alunos</CardTitle>
+                <CardDescription>
+                  Responda às avaliações publicadas sobre esta turma
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ClassReviews classId={id} isOwner />
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
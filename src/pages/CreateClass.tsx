@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import { useNavigate, useLocation, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import {
   Card,
@@ -20,6 +20,22 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import SchedulePicker from "@/components/SchedulePicker";
+import {
+  ClassSchedule,
+  emptySchedule,
+  scheduleFromRow,
+  scheduleToRow,
+  validateSchedule,
+} from "@/lib/schedule";
+import {
+  CLASS_CATEGORIES,
+  CLASS_LEVELS,
+  ClassCategory,
+  ClassLevel,
+} from "@/lib/classes";
+import { enrollmentErrorMessage } from "@/lib/enrollment";
+import { Coordinates, formatAddress, geocodeAddress } from "@/lib/geo";
 import {
   GraduationCap,
   MapPin,
@@ -33,27 +49,67 @@ const CreateClass = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const location = useLocation();
+  const { id: editId } = useParams();
   const [loading, setLoading] = useState(false);
   const [professionalId, setProfessionalId] = useState<string | null>(null);
 
   const demandData = location.state as {
     demandId?: string;
+    numInterested?: number;
     activity?: string;
-    schedule?: string;
+    category?: string | null;
+    weekdays?: number[];
+    startTime?: string | null;
+    endTime?: string | null;
     location?: string;
+    neighborhood?: string;
+    latitude?: number | null;
+    longitude?: number | null;
+    duplicateFromId?: string;
   } | null;
 
+  // Edição reaproveita o formulário; duplicação copia os dados para uma nova turma
+  const sourceClassId = editId || demandData?.duplicateFromId;
+  const isEditing = !!editId;
+
   const [formData, setFormData] = useState({
     title: demandData?.activity || "",
     description: "",
-    category: "",
+    category: demandData?.category || "",
     location: demandData?.location || "",
-    schedule: demandData?.schedule || "",
+    neighborhood: demandData?.neighborhood || "",
     maxStudents: "",
     price: "",
     level: "",
   });
 
+  // Coordenadas já conhecidas e o endereço a que se referem; o endereço só é
+  // geocodificado de novo quando muda
+  const [geocoded, setGeocoded] = useState<{
+    address: string;
+    coordinates: Coordinates;
+  } | null>(() =>
+    demandData?.latitude != null && demandData?.longitude != null
+      ? {
+          address: formatAddress(demandData.location, demandData.neighborhood),
+          coordinates: {
+            latitude: demandData.latitude,
+            longitude: demandData.longitude,
+          },
+        }
+      : null
+  );
+
+  const [schedule, setSchedule] = useState<ClassSchedule>(() =>
+    demandData
+      ? scheduleFromRow({
+          weekdays: demandData.weekdays,
+          start_time: demandData.startTime,
+          end_time: demandData.endTime,
+        })
+      : emptySchedule()
+  );
+
   useEffect(() => {
     const checkAuth = async () => {
       const {
@@ -76,10 +132,58 @@ const CreateClass = () => {
       }
 
       setProfessionalId(prof.id);
+
+      if (sourceClassId) {
+        await loadSourceClass(sourceClassId, prof.id);
+      }
     };
 
     checkAuth();
-  }, [navigate]);
+  }, [navigate, sourceClassId]);
+
+  const loadSourceClass = async (classId: string, profId: string) => {
+    const { data: source } = await supabase
+      .from("classes")
+      .select("*")
+      .eq("id", classId)
+      .eq("professional_id", profId)
+      .maybeSingle();
+
+    if (!source) {
+      toast({
+        title: "Turma não encontrada",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+      return;
+    }
+
+    setFormData({
+      title: source.activity,
+      description: source.description || "",
+      category: source.category || "",
+      location: source.location,
+      neighborhood: source.neighborhood || "",
+      maxStudents: String(source.max_students),
+      price: String(source.price),
+      level: source.level,
+    });
+
+    if (source.latitude !== null && source.longitude !== null) {
+      setGeocoded({
+        address: formatAddress(source.location, source.neighborhood),
+        coordinates: { latitude: source.latitude, longitude: source.longitude },
+      });
+    }
+
+    // Uma turma duplicada começa um novo período
+    const sourceSchedule = scheduleFromRow(source);
+    setSchedule(
+      isEditing
+        ? sourceSchedule
+        : { ...sourceSchedule, startDate: "", endDate: "" }
+    );
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -87,8 +191,8 @@ const CreateClass = () => {
     if (
       !formData.title ||
       !formData.category ||
+      !formData.level ||
       !formData.location ||
-      !formData.schedule ||
       !professionalId
     ) {
       toast({
@@ -99,32 +203,93 @@ const CreateClass = () => {
       return;
     }
 
+    const scheduleError = validateSchedule(schedule);
+    if (scheduleError) {
+      toast({
+        title: "Horário inválido",
+        description: scheduleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
+    const address = formatAddress(formData.location, formData.neighborhood);
+    const coordinates =
+      geocoded?.address === address
+        ? geocoded.coordinates
+        : await geocodeAddress(address);
+
+    const classRow = {
+      activity: formData.title,
+      description: formData.description,
+      category: formData.category as ClassCategory,
+      level: formData.level as ClassLevel,
+      ...scheduleToRow(schedule),
+      max_students: parseInt(formData.maxStudents) || 10,
+      location: formData.location,
+      neighborhood: formData.neighborhood.trim() || null,
+      latitude: coordinates?.latitude ?? null,
+      longitude: coordinates?.longitude ?? null,
+      price: parseFloat(formData.price) || 0,
+    };
+
+    if (!coordinates) {
+      toast({
+        title: "Endereço não localizado no mapa",
+        description:
+          "A turma será salva, mas não aparecerá na busca por proximidade. Confira o endereço e o bairro.",
+      });
+    }
+
     try {
+      if (isEditing) {
+        const { error } = await supabase
+          .from("classes")
+          .update(classRow)
+          .eq("id", editId);
+
+        if (error) throw error;
+
+        toast({
+          title: "Turma atualizada!",
+          description:
+            "Os alunos matriculados serão avisados sobre mudanças de valor, local ou horário.",
+        });
+
+        navigate(`/turma/${editId}`);
+        return;
+      }
+
       const { error } = await supabase.from("classes").insert({
+        ...classRow,
         professional_id: professionalId,
-        activity: formData.title,
-        description: formData.description,
-        schedule: formData.schedule,
-        max_students: parseInt(formData.maxStudents) || 10,
-        location: formData.location,
-        price: parseFloat(formData.price) || 0,
         demand_id: demandData?.demandId || null,
+        duplicated_from_id: demandData?.duplicateFromId || null,
       });
 
       if (error) throw error;
 
+      // Os interessados no pedido são avisados pelo banco ao criar a turma
+      const interested = demandData?.numInterested || 0;
       toast({
         title: "Turma Cadastrada!",
-        description: "Sua turma foi criada com sucesso.",
+        description:
+          interested === 0
+            ? "Sua turma foi criada com sucesso."
+            : interested === 1
+              ? "Sua turma foi criada e o aluno interessado foi avisado."
+              : `Sua turma foi criada e os ${interested} alunos interessados foram avisados.`,
       });
 
       navigate("/dashboard");
     } catch (error: any) {
       toast({
-        title: "Erro ao cadastrar turma",
-        description: error.message,
+        title: isEditing
+          ? "Erro ao atualizar turma"
+          : "Erro ao cadastrar turma",
+        description: enrollmentErrorMessage(error),
         variant: "destructive",
       });
     } finally {
@@ -142,10 +307,16 @@ const CreateClass = () => {
         {/* Header */}
         <div className="mb-8 space-y-4">
           <h1 className="text-4xl md:text-5xl font-bold">
-            Cadastrar Nova Aula
+            {isEditing
+              ? "Editar Turma"
+              : demandData?.duplicateFromId
+                ? "Duplicar Turma"
+                : "Cadastrar Nova Aula"}
           </h1>
           <p className="text-xl text-muted-foreground">
-            Preencha as informações da sua aula para começar a receber alunos
+            {isEditing
+              ? "Alunos matriculados serão notificados sobre mudanças de valor, local ou horário"
+              : "Preencha as informações da sua aula para começar a receber alunos"}
           </p>
         </div>
 
@@ -211,13 +382,14 @@ const CreateClass = () => {
                           <SelectValue placeholder="Selecione..." />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="outdoor">Ao Ar Livre</SelectItem>
-                          <SelectItem value="yoga">Yoga</SelectItem>
-                          <SelectItem value="gym">Musculação</SelectItem>
-                          <SelectItem value="pilates">Pilates</SelectItem>
-                          <SelectItem value="water">Hidroginástica</SelectItem>
-                          <SelectItem value="dance">Dança</SelectItem>
-                          <SelectItem value="stretch">Alongamento</SelectItem>
+                          {CLASS_CATEGORIES.map((category) => (
+                            <SelectItem
+                              key={category.value}
+                              value={category.value}
+                            >
+                              {category.label}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -235,14 +407,11 @@ const CreateClass = () => {
                           <SelectValue placeholder="Selecione..." />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="Iniciante">Iniciante</SelectItem>
-                          <SelectItem value="Intermediário">
-                            Intermediário
-                          </SelectItem>
-                          <SelectItem value="Avançado">Avançado</SelectItem>
-                          <SelectItem value="Todos os níveis">
-                            Todos os níveis
-                          </SelectItem>
+                          {CLASS_LEVELS.map((level) => (
+                            <SelectItem key={level.value} value={level.value}>
+                              {level.label}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -264,20 +433,32 @@ const CreateClass = () => {
                     />
                   </div>
 
-                  {/* Schedule */}
                   <div className="space-y-2">
-                    <Label htmlFor="schedule" className="text-base">
-                      <Calendar className="w-4 h-4 inline mr-2" />
-                      Horários *
+                    <Label htmlFor="neighborhood" className="text-base">
+                      Bairro e Cidade
                     </Label>
                     <Input
-                      id="schedule"
-                      placeholder="Ex: Segunda e Quarta, 8h às 9h"
-                      value={formData.schedule}
-                      onChange={(e) => handleChange("schedule", e.target.value)}
+                      id="neighborhood"
+                      placeholder="Ex: Asa Sul, Brasília"
+                      value={formData.neighborhood}
+                      onChange={(e) =>
+                        handleChange("neighborhood", e.target.value)
+                      }
                       className="text-base h-12"
-                      required
                     />
+                    <p className="text-sm text-muted-foreground">
+                      Usamos o endereço para mostrar sua aula a alunos que moram
+                      perto.
+                    </p>
+                  </div>
+
+                  {/* Schedule */}
+                  <div className="space-y-2">
+                    <Label className="text-base">
+                      <Calendar className="w-4 h-4 inline mr-2" />
+                      Horários *
+                    </Label>
+                    <SchedulePicker value={schedule} onChange={setSchedule} />
                   </div>
 
                   {/* Max Students and Price */}
@@ -325,7 +506,13 @@ const CreateClass = () => {
                     className="w-full text-lg"
                     disabled={loading}
                   >
-                    {loading ? "Cadastrando..." : "Cadastrar Turma"}
+                    {isEditing
+                      ? loading
+                        ? "Salvando..."
+                        : "Salvar Alterações"
+                      : loading
+                        ? "Cadastrando..."
+                        : "Cadastrar Turma"}
                   </Button>
                 </form>
               </CardContent>
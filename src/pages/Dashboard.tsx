@@ -9,6 +9,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   DollarSign,
@@ -17,30 +18,50 @@ import {
   Clock,
   TrendingUp,
   BookOpen,
+  MessageSquare,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ScheduleColumns, formatSchedule } from "@/lib/schedule";
+import { ClassCategory, ClassLevel } from "@/lib/classes";
+import ClassBadges from "@/components/ClassBadges";
 
 interface Professional {
   id: string;
   full_name: string;
 }
 
-interface ClassData {
+interface ClassData extends ScheduleColumns {
   id: string;
   activity: string;
-  schedule: string;
   location: string;
   price: number;
+  category: ClassCategory | null;
+  level: ClassLevel;
+  archived_at: string | null;
   enrollments: { count: number }[];
 }
 
-interface Demand {
+interface Demand extends ScheduleColumns {
   id: string;
   activity: string;
+  category: ClassCategory | null;
   neighborhood: string;
-  schedule: string;
   num_interested: number;
   location: string;
+  latitude: number | null;
+  longitude: number | null;
+  last_interest_at: string;
+}
+
+interface DemandConversion {
+  class_id: string;
+  activity: string;
+  neighborhood: string;
+  interested_count: number;
+  converted_count: number;
+  enrolled_count: number;
 }
 
 const Dashboard = () => {
@@ -48,7 +69,10 @@ const Dashboard = () => {
   const { toast } = useToast();
   const [professional, setProfessional] = useState<Professional | null>(null);
   const [classes, setClasses] = useState<ClassData[]>([]);
+  const [archivedClasses, setArchivedClasses] = useState<ClassData[]>([]);
   const [demands, setDemands] = useState<Demand[]>([]);
+  const [conversions, setConversions] = useState<DemandConversion[]>([]);
+  const [forumUnread, setForumUnread] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -79,26 +103,79 @@ const Dashboard = () => {
     checkAuth();
   }, [navigate]);
 
+  // Mensagens novas nos fóruns atualizam os contadores das turmas
+  useEffect(() => {
+    loadForumUnread();
+
+    const channel = supabase
+      .channel("dashboard-forum")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "forum_messages" },
+        () => loadForumUnread()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const loadForumUnread = async () => {
+    const { data, error } = await supabase.rpc("forum_unread_counts");
+
+    if (error) {
+      console.error("Error loading forum unread counts:", error);
+      return;
+    }
+
+    setForumUnread(
+      Object.fromEntries(
+        (data || []).map((row) => [row.class_id, row.unread_count])
+      )
+    );
+  };
+
   const loadData = async (professionalId: string) => {
     setLoading(true);
 
-    const { data: classesData } = await supabase
+    // Só matrículas ativas contam como alunos pagantes
+    const { data: classesData, error: classesError } = await supabase
       .from("classes")
       .select(
         `
         *,
-        enrollments:enrollments(count)
-      `
+        enrollments!class_id(count)
+      `,
       )
-      .eq("professional_id", professionalId);
+      .eq("professional_id", professionalId)
+      .eq("enrollments.status", "active");
+
+    if (classesError) {
+      console.error("Error loading classes:", classesError);
+      toast({
+        title: "Erro ao carregar turmas",
+        description: classesError.message,
+        variant: "destructive",
+      });
+    }
 
+    // Só pedidos com interesse recente; pedidos parecidos já chegam unificados
     const { data: demandsData } = await supabase
-      .from("demands")
+      .from("open_demands")
       .select("*")
-      .order("created_at", { ascending: false });
+      .order("num_interested", { ascending: false })
+      .order("last_interest_at", { ascending: false });
 
-    setClasses(classesData || []);
-    setDemands(demandsData || []);
+    const { data: conversionsData } = await supabase
+      .from("demand_class_conversions")
+      .select("*")
+      .order("fulfilled_at", { ascending: false });
+
+    setClasses((classesData || []).filter((cls) => !cls.archived_at));
+    setArchivedClasses((classesData || []).filter((cls) => cls.archived_at));
+    setDemands((demandsData as Demand[]) || []);
+    setConversions((conversionsData as DemandConversion[]) || []);
     setLoading(false);
   };
 
@@ -111,13 +188,35 @@ const Dashboard = () => {
     navigate("/cadastrar-aulas", {
       state: {
         demandId: demand.id,
+        numInterested: demand.num_interested,
         activity: demand.activity,
-        schedule: demand.schedule,
+        category: demand.category,
+        weekdays: demand.weekdays,
+        startTime: demand.start_time,
+        endTime: demand.end_time,
         location: demand.location,
+        neighborhood: demand.neighborhood,
+        latitude: demand.latitude,
+        longitude: demand.longitude,
       },
     });
   };
 
+  const totalInterested = conversions.reduce(
+    (sum, conversion) => sum + conversion.interested_count,
+    0
+  );
+  const totalConverted = conversions.reduce(
+    (sum, conversion) => sum + conversion.converted_count,
+    0
+  );
+
+  // "3 de 5 (60%)"
+  const formatConversion = (converted: number, interested: number) =>
+    interested > 0
+      ? `${converted} de ${interested} (${Math.round((converted / interested) * 100)}%)`
+      : "0";
+
   const totalRevenue = classes.reduce((sum, cls) => {
     const students = cls.enrollments[0]?.count || 0;
     return sum + cls.price * students;
@@ -145,9 +244,19 @@ const Dashboard = () => {
               Olá, {professional?.full_name}!
             </p>
           </div>
-          <Button variant="outline" onClick={handleLogout}>
-            Sair
-          </Button>
+          <div className="flex gap-2">
+            {professional && (
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/professional/${professional.id}`)}
+              >
+                Ver perfil público
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleLogout}>
+              Sair
+            </Button>
+          </div>
         </div>
 
         <div className="grid md:grid-cols-3 gap-6 mb-8">
@@ -204,6 +313,9 @@ const Dashboard = () => {
             <TabsTrigger value="classes">Minhas Turmas</TabsTrigger>
             <TabsTrigger value="demands">Demandas</TabsTrigger>
             <TabsTrigger value="financial">Financeiro</TabsTrigger>
+            {archivedClasses.length > 0 && (
+              <TabsTrigger value="archived">Arquivadas</TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="classes" className="space-y-4">
@@ -234,9 +346,28 @@ const Dashboard = () => {
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-2">
+                    <ClassBadges
+                      category={cls.category}
+                      level={cls.level}
+                      className="pb-2"
+                    />
+                    {!!forumUnread[cls.id] && (
+                      <Badge
+                        className="cursor-pointer"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          navigate(`/turma/${cls.id}?aba=forum`);
+                        }}
+                      >
+                        <MessageSquare className="w-3 h-3 mr-1" />
+                        {forumUnread[cls.id] === 1
+                          ? "1 mensagem nova no fórum"
+                          : `${forumUnread[cls.id]} mensagens novas no fórum`}
+                      </Badge>
+                    )}
                     <div className="flex items-center text-sm">
                       <Clock className="w-4 h-4 mr-2" />
-                      {cls.schedule}
+                      {formatSchedule(cls)}
                     </div>
                     <div className="flex items-center text-sm">
                       <MapPin className="w-4 h-4 mr-2" />
@@ -253,22 +384,95 @@ const Dashboard = () => {
           </TabsContent>
 
           <TabsContent value="demands" className="space-y-4">
+            {conversions.length > 0 && (
+              <Card className="shadow-soft">
+                <CardHeader>
+                  <CardTitle>Turmas Criadas a Partir de Pedidos</CardTitle>
+                  <CardDescription>
+                    {conversions.length}{" "}
+                    {conversions.length === 1
+                      ? "pedido atendido"
+                      : "pedidos atendidos"}{" "}
+                    · {formatConversion(totalConverted, totalInterested)} dos
+                    interessados se matricularam
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {conversions.map((conversion) => {
+                    const percentage =
+                      conversion.interested_count > 0
+                        ? (conversion.converted_count /
+                            conversion.interested_count) *
+                          100
+                        : 0;
+
+                    return (
+                      <div
+                        key={conversion.class_id}
+                        className="space-y-2 cursor-pointer"
+                        onClick={() =>
+                          navigate(`/turma/${conversion.class_id}`)
+                        }
+                      >
+                        <div className="flex justify-between items-center gap-2">
+                          <span className="font-medium">
+                            {conversion.activity} - {conversion.neighborhood}
+                          </span>
+                          <span className="text-sm text-muted-foreground text-right">
+                            {formatConversion(
+                              conversion.converted_count,
+                              conversion.interested_count
+                            )}{" "}
+                            interessados matriculados ·{" "}
+                            {conversion.enrolled_count} alunos no total
+                          </span>
+                        </div>
+                        <div className="w-full bg-secondary rounded-full h-2">
+                          <div
+                            className="bg-primary rounded-full h-2 transition-all"
+                            style={{ width: `${percentage}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+            {demands.length === 0 && (
+              <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">
+                  Nenhum pedido de turma recente no momento.
+                </CardContent>
+              </Card>
+            )}
             {demands.map((demand) => (
               <Card key={demand.id} className="shadow-soft">
                 <CardHeader>
                   <CardTitle>{demand.activity}</CardTitle>
                   <CardDescription>
-                    {demand.num_interested} idosos interessados
+                    {demand.num_interested}{" "}
+                    {demand.num_interested === 1
+                      ? "aluno interessado"
+                      : "alunos interessados"}{" "}
+                    · último interesse{" "}
+                    {formatDistanceToNow(new Date(demand.last_interest_at), {
+                      addSuffix: true,
+                      locale: ptBR,
+                    })}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  <ClassBadges category={demand.category} />
                   <div className="flex items-center text-sm">
                     <MapPin className="w-4 h-4 mr-2" />
-                    {demand.neighborhood} - {demand.location}
+                    {demand.location === demand.neighborhood
+                      ? demand.neighborhood
+                      : `${demand.neighborhood} - ${demand.location}`}
                   </div>
                   <div className="flex items-center text-sm">
                     <Clock className="w-4 h-4 mr-2" />
-                    {demand.schedule}
+                    {formatSchedule(demand)}
                   </div>
                   <Button
                     onClick={() => createClassFromDemand(demand)}
@@ -281,6 +485,36 @@ const Dashboard = () => {
             ))}
           </TabsContent>
 
+          <TabsContent value="archived" className="space-y-4">
+            {archivedClasses.map((cls) => (
+              <Card
+                key={cls.id}
+                className="shadow-soft hover:shadow-medium transition-shadow cursor-pointer"
+                onClick={() => navigate(`/turma/${cls.id}`)}
+              >
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span>{cls.activity}</span>
+                    <span className="text-sm font-normal text-muted-foreground">
+                      Arquivada em{" "}
+                      {new Date(cls.archived_at).toLocaleDateString("pt-BR")}
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="flex items-center text-sm">
+                    <Clock className="w-4 h-4 mr-2" />
+                    {formatSchedule(cls)}
+                  </div>
+                  <div className="flex items-center text-sm">
+                    <MapPin className="w-4 h-4 mr-2" />
+                    {cls.location}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
           <TabsContent value="financial" className="space-y-4">
             <Card className="shadow-soft">
               <CardHeader>
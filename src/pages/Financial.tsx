@@ -18,7 +18,18 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, DollarSign, TrendingUp, Calendar } from "lucide-react";
+import {
+  ArrowLeft,
+  DollarSign,
+  TrendingUp,
+  Calendar,
+  UserMinus,
+} from "lucide-react";
+import {
+  ENROLLMENT_STATUS_LABELS,
+  EnrollmentStatus,
+  formatEnrollmentDate,
+} from "@/lib/enrollment";
 
 interface Payment {
   id: string;
@@ -30,6 +41,8 @@ interface Payment {
     activity: string;
   };
   enrollments: {
+    status: EnrollmentStatus;
+    status_changed_at: string | null;
     profiles: {
       full_name: string;
     } | null;
@@ -42,6 +55,7 @@ const Financial = () => {
   const [loading, setLoading] = useState(true);
   const [monthlyTotal, setMonthlyTotal] = useState(0);
   const [yearlyTotal, setYearlyTotal] = useState(0);
+  const [monthlyDepartures, setMonthlyDepartures] = useState(0);
 
   useEffect(() => {
     loadFinancialData();
@@ -73,6 +87,8 @@ const Financial = () => {
           activity
         ),
         enrollments:enrollment_id (
+          status,
+          status_changed_at,
           profiles:student_id (
             full_name
           )
@@ -110,6 +126,22 @@ const Financial = () => {
       setYearlyTotal(yearly);
     }
 
+    // Alunos que cancelaram ou foram transferidos neste mês
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+
+    const { count: departures } = await supabase
+      .from("enrollment_status_history")
+      .select("id, classes!class_id!inner(professional_id)", {
+        count: "exact",
+        head: true,
+      })
+      .eq("classes.professional_id", professional.id)
+      .in("to_status", ["cancelled", "transferred"])
+      .gte("created_at", monthStart.toISOString());
+
+    setMonthlyDepartures(departures || 0);
     setLoading(false);
   };
 
@@ -140,7 +172,7 @@ const Financial = () => {
           </p>
         </div>
 
-        <div className="grid md:grid-cols-2 gap-6 mb-8">
+        <div className="grid md:grid-cols-3 gap-6 mb-8">
           <Card className="shadow-soft">
             <CardHeader className="flex flex-row items-center justify-between pb-2">
               <CardTitle className="text-sm font-medium">
@@ -174,6 +206,21 @@ const Financial = () => {
               </p>
             </CardContent>
           </Card>
+
+          <Card className="shadow-soft">
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">
+                Saídas no Mês
+              </CardTitle>
+              <UserMinus className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{monthlyDepartures}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Cancelamentos e transferências este mês
+              </p>
+            </CardContent>
+          </Card>
         </div>
 
         <Card className="shadow-soft">
@@ -189,6 +236,7 @@ const Financial = () => {
                 <TableRow>
                   <TableHead>Aluno</TableHead>
                   <TableHead>Turma</TableHead>
+                  <TableHead>Matrícula</TableHead>
                   <TableHead>Valor</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Data</TableHead>
@@ -198,7 +246,7 @@ const Financial = () => {
                 {payments.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={5}
+                      colSpan={6}
                       className="text-center py-8 text-muted-foreground"
                     >
                       Nenhum pagamento registrado ainda
@@ -213,6 +261,37 @@ const Financial = () => {
                       <TableCell>
                         {payment.classes?.activity || "N/A"}
                       </TableCell>
+                      <TableCell>
+                        {payment.enrollments ? (
+                          <div className="flex flex-col gap-1">
+                            <Badge
+                              variant={
+                                payment.enrollments.status === "active"
+                                  ? "outline"
+                                  : "secondary"
+                              }
+                              className="w-fit"
+                            >
+                              {
+                                ENROLLMENT_STATUS_LABELS[
+                                  payment.enrollments.status
+                                ]
+                              }
+                            </Badge>
+                            {payment.enrollments.status !== "active" &&
+                              payment.enrollments.status_changed_at && (
+                                <span className="text-xs text-muted-foreground">
+                                  desde{" "}
+                                  {formatEnrollmentDate(
+                                    payment.enrollments.status_changed_at
+                                  )}
+                                </span>
+                              )}
+                          </div>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
                       <TableCell className="font-medium">
                         R$ {Number(payment.amount).toFixed(2)}
                       </TableCell>
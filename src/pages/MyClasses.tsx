@@ -12,6 +12,22 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScheduleColumns, formatSchedule } from "@/lib/schedule";
+import {
+  WaitlistSummary,
+  formatEnrollmentDate,
+  formatOfferDeadline,
+} from "@/lib/enrollment";
+import {
+  AttendanceCertificate,
+  certificateErrorMessage,
+  downloadCertificatePdf,
+} from "@/lib/certificates";
+import EnrollmentActions from "@/components/EnrollmentActions";
+import CheckInScanner from "@/components/CheckInScanner";
+import ClassBadges from "@/components/ClassBadges";
+import ProfessionalLink from "@/components/ProfessionalLink";
 import {
   MapPin,
   Clock,
@@ -19,16 +35,36 @@ import {
   Bell,
   BellOff,
   MessageCircle,
+  Hourglass,
+  User,
+  Award,
 } from "lucide-react";
 
+interface WaitlistEntry {
+  id: string;
+  class_id: string;
+  status: WaitlistSummary["my_status"];
+  position: number | null;
+  expiresAt: string | null;
+  classes: (ScheduleColumns & { activity: string }) | null;
+}
+
 const MyClasses = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [enrolledClasses, setEnrolledClasses] = useState<any[]>([]);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
   const [notifications, setNotifications] = useState<{
     [key: string]: boolean;
   }>({});
+  const [issuingCertificate, setIssuingCertificate] = useState<string | null>(
+    null
+  );
+  // Último certificado emitido para cada matrícula
+  const [certificates, setCertificates] = useState<{
+    [enrollmentId: string]: AttendanceCertificate;
+  }>({});
 
   useEffect(() => {
     fetchEnrolledClasses();
@@ -52,36 +88,59 @@ const MyClasses = () => {
           `
           id,
           class_id,
-          classes (
+          status,
+          paused_until,
+          classes!class_id (
             id,
+            professional_id,
             activity,
+            category,
+            level,
+            archived_at,
             schedule,
+            weekdays,
+            start_time,
+            end_time,
+            timezone,
             location,
             max_students,
-            description
+            description,
+            professionals (full_name)
           )
         `
         )
         .eq("student_id", user.id)
-        .eq("status", "active");
+        .in("status", ["active", "paused"]);
 
       if (enrollError) throw enrollError;
 
       const classesData =
         enrollments?.map((e: any) => ({
           enrollmentId: e.id,
+          enrollmentStatus: e.status,
+          pausedUntil: e.paused_until,
           ...e.classes,
         })) || [];
 
       setEnrolledClasses(classesData);
 
-      // Initialize notifications state
+      // Preferência geral de cada turma; sem registro os avisos ficam ativos
+      const { data: preferences } = await supabase
+        .from("notification_preferences")
+        .select("class_id, enabled")
+        .eq("user_id", user.id)
+        .not("class_id", "is", null)
+        .is("category", null);
+
       const notifState: { [key: string]: boolean } = {};
       classesData.forEach((cls: any) => {
-        // For now, all notifications are enabled by default
-        notifState[cls.id] = true;
+        notifState[cls.id] =
+          preferences?.find((p) => p.class_id === cls.id)?.enabled ?? true;
       });
       setNotifications(notifState);
+
+      await fetchWaitlistEntries(user.id);
+      await fetchCertificates(user.id);
     } catch (error: any) {
       toast({
         title: "Erro ao carregar turmas",
@@ -93,20 +152,147 @@ const MyClasses = () => {
     }
   };
 
-  const toggleNotifications = (classId: string) => {
-    setNotifications((prev) => {
-      const newState = { ...prev, [classId]: !prev[classId] };
+  const fetchWaitlistEntries = async (userId: string) => {
+    const { data: entries, error } = await supabase
+      .from("waitlist_entries")
+      .select(
+        `
+        id,
+        class_id,
+        status,
+        classes (
+          activity,
+          schedule,
+          weekdays,
+          start_time,
+          end_time,
+          timezone
+        )
+      `
+      )
+      .eq("student_id", userId)
+      .in("status", ["waiting", "offered"])
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    // A posição na fila só é visível pela função do banco, que recebe todas
+    // as turmas de uma vez
+    const { data: summaries, error: summariesError } = await supabase.rpc(
+      "my_waitlist_summaries",
+      { _class_ids: (entries || []).map((entry) => entry.class_id) }
+    );
+
+    if (summariesError) throw summariesError;
+
+    // Entradas fora do resultado já expiraram ou viraram matrícula
+    setWaitlistEntries(
+      (entries || []).flatMap((entry) => {
+        const summary = summaries?.find((s) => s.class_id === entry.class_id);
+        return summary
+          ? [
+              {
+                ...entry,
+                status: summary.my_status,
+                position: summary.my_position,
+                expiresAt: summary.my_offer_expires_at,
+              },
+            ]
+          : [];
+      })
+    );
+  };
+
+  const fetchCertificates = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("attendance_certificates")
+      .select("*")
+      .eq("student_id", userId)
+      .order("issued_at", { ascending: false });
+
+    if (error) throw error;
+
+    const latest: { [enrollmentId: string]: AttendanceCertificate } = {};
+    data?.forEach((certificate) => {
+      if (certificate.enrollment_id && !latest[certificate.enrollment_id]) {
+        latest[certificate.enrollment_id] = certificate;
+      }
+    });
+    setCertificates(latest);
+  };
+
+  // Sem mudanças desde o último certificado, o banco devolve o mesmo código
+  const handleCertificate = async (enrollmentId: string) => {
+    setIssuingCertificate(enrollmentId);
+
+    try {
+      const { data, error } = await supabase.rpc(
+        "issue_attendance_certificate",
+        { _enrollment_id: enrollmentId }
+      );
+
+      if (error) {
+        toast({
+          title: "Não foi possível gerar o certificado",
+          description: certificateErrorMessage(error),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const certificate = data[0];
+      const reissued = certificates[enrollmentId]?.id === certificate.id;
+      setCertificates((prev) => ({ ...prev, [enrollmentId]: certificate }));
+
+      await downloadCertificatePdf(certificate);
+      toast({
+        title: reissued
+          ? "Certificado baixado novamente"
+          : "Certificado gerado!",
+        description: `Código de verificação: ${certificate.code}`,
+      });
+    } catch (error) {
+      console.error("Error downloading certificate:", error);
+      toast({
+        title: "Não foi possível baixar o certificado",
+        description: "Tente novamente em instantes.",
+        variant: "destructive",
+      });
+    } finally {
+      setIssuingCertificate(null);
+    }
+  };
+
+  const toggleNotifications = async (classId: string) => {
+    const enabled = !notifications[classId];
+    setNotifications((prev) => ({ ...prev, [classId]: enabled }));
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from("notification_preferences")
+      .upsert(
+        { user_id: user.id, class_id: classId, category: null, enabled },
+        { onConflict: "user_id,class_id,category" }
+      );
 
+    if (error) {
+      setNotifications((prev) => ({ ...prev, [classId]: !enabled }));
       toast({
-        title: newState[classId]
-          ? "Notificações ativadas"
-          : "Notificações desativadas",
-        description: newState[classId]
-          ? "Você receberá avisos desta turma"
-          : "Você não receberá mais avisos desta turma",
+        title: "Erro ao salvar preferência",
+        description: error.message,
+        variant: "destructive",
       });
+      return;
+    }
 
-      return newState;
+    toast({
+      title: enabled ? "Notificações ativadas" : "Notificações desativadas",
+      description: enabled
+        ? "Você receberá avisos desta turma"
+        : "Você não receberá mais avisos desta turma",
     });
   };
 
@@ -124,9 +310,12 @@ const MyClasses = () => {
               Turmas em que você está matriculado
             </p>
           </div>
-          <Button variant="outline" onClick={handleLogout}>
-            Sair
-          </Button>
+          <div className="flex gap-2">
+            <CheckInScanner />
+            <Button variant="outline" onClick={handleLogout}>
+              Sair
+            </Button>
+          </div>
         </div>
 
         {enrolledClasses.length === 0 ? (
@@ -158,22 +347,64 @@ const MyClasses = () => {
                     <span className="hover:text-primary transition-colors">
                       {classItem.activity}
                     </span>
+                    {classItem.archived_at && (
+                      <Badge variant="outline">Turma encerrada</Badge>
+                    )}
+                    {classItem.enrollmentStatus === "paused" && (
+                      <Badge variant="secondary">
+                        Pausada até{" "}
+                        {formatEnrollmentDate(classItem.pausedUntil)}
+                      </Badge>
+                    )}
                   </CardTitle>
                   <CardDescription className="line-clamp-2">
                     {classItem.description || "Sem descrição"}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  <ClassBadges
+                    category={classItem.category}
+                    level={classItem.level}
+                  />
                   <div className="flex items-center gap-2 text-sm">
                     <Clock className="h-4 w-4 text-muted-foreground" />
-                    <span>{classItem.schedule}</span>
+                    <span>{formatSchedule(classItem)}</span>
                   </div>
                   <div className="flex items-center gap-2 text-sm">
                     <MapPin className="h-4 w-4 text-muted-foreground" />
                     <span>{classItem.location}</span>
                   </div>
+                  {classItem.professionals && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <User className="h-4 w-4 text-muted-foreground" />
+                      <ProfessionalLink
+                        professionalId={classItem.professional_id}
+                        name={classItem.professionals.full_name}
+                      />
+                    </div>
+                  )}
 
                   <div className="pt-4 border-t space-y-2">
+                    <div className="flex items-center justify-between pb-2">
+                      <Label
+                        htmlFor={`notifications-${classItem.id}`}
+                        className="flex items-center gap-2 text-sm font-normal"
+                      >
+                        {notifications[classItem.id] ? (
+                          <Bell className="h-4 w-4 text-muted-foreground" />
+                        ) : (
+                          <BellOff className="h-4 w-4 text-muted-foreground" />
+                        )}
+                        Avisos desta turma
+                      </Label>
+                      <Switch
+                        id={`notifications-${classItem.id}`}
+                        checked={notifications[classItem.id]}
+                        onCheckedChange={() =>
+                          toggleNotifications(classItem.id)
+                        }
+                      />
+                    </div>
                     <Button
                       variant="outline"
                       size="sm"
@@ -186,12 +417,90 @@ const MyClasses = () => {
                       <MessageCircle className="h-4 w-4 mr-2" />
                       Chat com Professor
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      disabled={issuingCertificate === classItem.enrollmentId}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleCertificate(classItem.enrollmentId);
+                      }}
+                    >
+                      <Award className="h-4 w-4 mr-2" />
+                      {issuingCertificate === classItem.enrollmentId
+                        ? "Gerando..."
+                        : "Certificado de Frequência"}
+                    </Button>
+                    {certificates[classItem.enrollmentId] && (
+                      <p className="text-xs text-muted-foreground text-center">
+                        Último certificado:{" "}
+                        {certificates[classItem.enrollmentId].code}, emitido em{" "}
+                        {formatEnrollmentDate(
+                          certificates[classItem.enrollmentId].issued_at
+                        )}
+                      </p>
+                    )}
+                    {!classItem.archived_at && (
+                      <EnrollmentActions
+                        enrollment={{
+                          id: classItem.enrollmentId,
+                          class_id: classItem.id,
+                          status: classItem.enrollmentStatus,
+                          paused_until: classItem.pausedUntil,
+                        }}
+                        professionalId={classItem.professional_id}
+                        onChange={fetchEnrolledClasses}
+                      />
+                    )}
                   </div>
                 </CardContent>
               </Card>
             ))}
           </div>
         )}
+
+        {waitlistEntries.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
+              <Hourglass className="h-6 w-6" />
+              Lista de Espera
+            </h2>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {waitlistEntries.map((entry) => (
+                <Card
+                  key={entry.id}
+                  className="cursor-pointer hover:shadow-lg transition-all duration-200"
+                  onClick={() => navigate(`/turma-aluno/${entry.class_id}`)}
+                >
+                  <CardHeader>
+                    <CardTitle className="flex items-start justify-between gap-2">
+                      <span>{entry.classes?.activity}</span>
+                      {entry.status === "offered" ? (
+                        <Badge>Vaga reservada</Badge>
+                      ) : (
+                        <Badge variant="secondary">
+                          {entry.position}º na fila
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      {entry.classes && formatSchedule(entry.classes)}
+                    </CardDescription>
+                  </CardHeader>
+                  {entry.status === "offered" && entry.expiresAt && (
+                    <CardContent>
+                      <p className="text-sm text-primary font-medium">
+                        Confirme sua matrícula até{" "}
+                        {formatOfferDeadline(entry.expiresAt)}
+                      </p>
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/auth";
+import { useNotifications } from "@/context/notifications";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Bell, CheckCheck } from "lucide-react";
+import {
+  AppNotification,
+  CLASS_NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+  NotificationPreference,
+  formatNotificationTime,
+  isNotificationEnabled,
+} from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import ReminderSettingsCard from "@/components/ReminderSettingsCard";
+
+interface PreferenceClass {
+  id: string;
+  activity: string;
+}
+
+const Notifications = () => {
+  const { user, role } = useAuth();
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead } =
+    useNotifications();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [classes, setClasses] = useState<PreferenceClass[]>([]);
+
+  useEffect(() => {
+    if (!user || !role) return;
+    fetchPreferences();
+    fetchClasses();
+  }, [user, role]);
+
+  const fetchPreferences = async () => {
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .select("*")
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error fetching notification preferences:", error);
+    } else {
+      setPreferences(data);
+    }
+  };
+
+  const fetchClasses = async () => {
+    if (role === "student") {
+      const { data } = await supabase
+        .from("enrollments")
+        .select("classes!class_id (id, activity)")
+        .eq("student_id", user.id)
+        .in("status", ["active", "paused"]);
+
+      setClasses(
+        (data || []).map((e) => e.classes).filter(Boolean) as PreferenceClass[]
+      );
+      return;
+    }
+
+    const { data: prof } = await supabase
+      .from("professionals")
+      .select("id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!prof) return;
+
+    const { data } = await supabase
+      .from("classes")
+      .select("id, activity")
+      .eq("professional_id", prof.id)
+      .is("archived_at", null)
+      .order("activity");
+
+    setClasses(data || []);
+  };
+
+  const savePreference = async (
+    classId: string | null,
+    category: NotificationCategory | null,
+    enabled: boolean
+  ) => {
+    const previous = preferences;
+    const existing = preferences.find(
+      (p) => p.class_id === classId && p.category === category
+    );
+    setPreferences(
+      existing
+        ? preferences.map((p) => (p === existing ? { ...p, enabled } : p))
+        : [
+            ...preferences,
+            {
+              id: crypto.randomUUID(),
+              user_id: user.id,
+              class_id: classId,
+              category,
+              enabled,
+              updated_at: null,
+            },
+          ]
+    );
+
+    const { error } = await supabase
+      .from("notification_preferences")
+      .upsert(
+        { user_id: user.id, class_id: classId, category, enabled },
+        { onConflict: "user_id,class_id,category" }
+      );
+
+    if (error) {
+      setPreferences(previous);
+      toast({
+        title: "Erro ao salvar preferência",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Só alunos recebem lembretes de aula
+  const categories = NOTIFICATION_CATEGORIES.filter(
+    (category) => role === "student" || category.value !== "reminders"
+  );
+  const classCategories = CLASS_NOTIFICATION_CATEGORIES.filter(
+    (category) => role === "student" || category.value !== "reminders"
+  );
+
+  const classEnabled = (classId: string) =>
+    preferences.find((p) => p.class_id === classId && p.category === null)
+      ?.enabled ?? true;
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.read_at) markAsRead(notification.id);
+    if (notification.link) navigate(notification.link);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        Carregando...
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-primary/5 to-background py-12 px-4">
+      <div className="container max-w-3xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Avisos</h1>
+          <p className="text-muted-foreground">
+            Acompanhe as novidades das suas turmas e escolha o que deseja
+            receber
+          </p>
+        </div>
+
+        <Tabs defaultValue="notifications" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="notifications">
+              Avisos{unreadCount > 0 && ` (${unreadCount})`}
+            </TabsTrigger>
+            <TabsTrigger value="preferences">Preferências</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="notifications" className="space-y-4">
+            {unreadCount > 0 && (
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={markAllAsRead}>
+                  <CheckCheck className="w-4 h-4 mr-2" />
+                  Marcar todos como lidos
+                </Button>
+              </div>
+            )}
+
+            {notifications.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <Bell className="w-10 h-10 mx-auto mb-4 opacity-50" />
+                  Nenhum aviso por enquanto.
+                </CardContent>
+              </Card>
+            ) : (
+              notifications.map((notification) => (
+                <Card
+                  key={notification.id}
+                  className={cn(
+                    "cursor-pointer hover:shadow-lg transition-all duration-200",
+                    !notification.read_at && "border-primary/50 bg-primary/5"
+                  )}
+                  onClick={() => openNotification(notification)}
+                >
+                  <CardContent className="py-4 space-y-1">
+                    <div className="flex items-start justify-between gap-4">
+                      <p
+                        className={cn(!notification.read_at && "font-semibold")}
+                      >
+                        {notification.title}
+                      </p>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatNotificationTime(notification.created_at)}
+                      </span>
+                    </div>
+                    {notification.body && (
+                      <p className="text-sm text-muted-foreground">
+                        {notification.body}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="preferences" className="space-y-6">
+            {role === "student" && <ReminderSettingsCard />}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tipos de aviso</CardTitle>
+                <CardDescription>
+                  Avisos de matrícula e lista de espera são sempre enviados.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {categories.map((category) => (
+                  <div
+                    key={category.value}
+                    className="flex items-center justify-between gap-4"
+                  >
+                    <Label
+                      htmlFor={`category-${category.value}`}
+                      className="space-y-1"
+                    >
+                      <span className="block text-base">{category.label}</span>
+                      <span className="block text-sm font-normal text-muted-foreground">
+                        {category.description}
+                      </span>
+                    </Label>
+                    <Switch
+                      id={`category-${category.value}`}
+                      checked={isNotificationEnabled(
+                        preferences,
+                        category.value
+                      )}
+                      onCheckedChange={(enabled) =>
+                        savePreference(null, category.value, enabled)
+                      }
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {classes.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Por turma</CardTitle>
+                  <CardDescription>
+                    As escolhas de uma turma valem mais do que as gerais.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {classes.map((cls) => (
+                    <div key={cls.id} className="py-4 first:pt-0 space-y-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <Label
+                          htmlFor={`class-${cls.id}`}
+                          className="text-base font-semibold"
+                        >
+                          {cls.activity}
+                        </Label>
+                        <Switch
+                          id={`class-${cls.id}`}
+                          checked={classEnabled(cls.id)}
+                          onCheckedChange={(enabled) =>
+                            savePreference(cls.id, null, enabled)
+                          }
+                        />
+                      </div>
+                      {classEnabled(cls.id) && (
+                        <div className="grid sm:grid-cols-2 gap-3 pl-4">
+                          {classCategories.map((category) => (
+                            <div
+                              key={category.value}
+                              className="flex items-center gap-2"
+                            >
+                              <Switch
+                                id={`class-${cls.id}-${category.value}`}
+                                checked={isNotificationEnabled(
+                                  preferences,
+                                  category.value,
+                                  cls.id
+                                )}
+                                onCheckedChange={(enabled) =>
+                                  savePreference(
+                                    cls.id,
+                                    category.value,
+                                    enabled
+                                  )
+                                }
+                              />
+                              <Label
+                                htmlFor={`class-${cls.id}-${category.value}`}
+                                className="text-sm font-normal"
+                              >
+                                {category.label}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default Notifications;
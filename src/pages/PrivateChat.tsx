@@ -6,12 +6,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { Send, ArrowLeft, User } from "lucide-react";
+import ProfessionalLink from "@/components/ProfessionalLink";
 
 interface Contact {
   id: string;
   name: string;
   type: "student" | "professional";
   avatar_url: string;
+  // Id do perfil público, apenas para professores
+  professional_id?: string;
 }
 
 interface Message {
@@ -60,6 +63,9 @@ const PrivateChat = () => {
       const contact = contacts.find((c) => c.id === contactId);
       if (contact) {
         setSelectedContact(contact);
+        // Mensagem sugerida, como a dos alertas de frequência
+        const draft = searchParams.get("mensagem");
+        if (draft) setNewMessage(draft);
       }
     }
   }, [searchParams, contacts]);
@@ -114,7 +120,7 @@ const PrivateChat = () => {
       .from("enrollments")
       .select(
         `
-        classes (
+        classes!class_id (
           professional_id,
           professionals (
             user_id,
@@ -125,7 +131,7 @@ const PrivateChat = () => {
       `
       )
       .eq("student_id", userId)
-      .eq("status", "active");
+      .in("status", ["active", "paused"]);
 
     if (error) throw error;
 
@@ -141,6 +147,7 @@ const PrivateChat = () => {
           name: prof.full_name,
           type: "professional",
           avatar_url: prof.avatar_url,
+          professional_id: enrollment.classes.professional_id,
         });
       }
     });
@@ -155,13 +162,13 @@ const PrivateChat = () => {
       .select(
         `
         student_id,
-        classes!inner (
+        classes!class_id!inner (
           professional_id
         )
       `
       )
       .eq("classes.professional_id", professionalId)
-      .eq("status", "active");
+      .in("status", ["active", "paused"]);
 
     if (error) throw error;
 
@@ -340,7 +347,14 @@ const PrivateChat = () => {
                     ) : (
                       <User className="h-5 w-5" />
                     )}
-                    {selectedContact.name}
+                    {selectedContact.professional_id ? (
+                      <ProfessionalLink
+                        professionalId={selectedContact.professional_id}
+                        name={selectedContact.name}
+                      />
+                    ) : (
+                      selectedContact.name
+                    )}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="flex-1 overflow-y-auto p-4 space-y-3">
@@ -0,0 +1,386 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  Award,
+  BadgeCheck,
+  Briefcase,
+  Clock,
+  MapPin,
+  MessageCircle,
+  Star,
+} from "lucide-react";
+import ClassBadges from "@/components/ClassBadges";
+import StarRating from "@/components/StarRating";
+import { ScheduleColumns, formatSchedule } from "@/lib/schedule";
+import { ClassCategory, ClassLevel } from "@/lib/classes";
+import {
+  RatingSummary,
+  formatRating,
+  formatReviewCount,
+  toRatingSummary,
+} from "@/lib/reviews";
+
+// Colunas públicas, as mesmas liberadas para visitantes sem conta: CPF e
+// data de nascimento ficam de fora
+const PUBLIC_COLUMNS =
+  "id, user_id, full_name, specialty, cref, cref_verified_at, avatar_url, bio, certifications, experience_years";
+
+interface PublicProfessional {
+  id: string;
+  user_id: string;
+  full_name: string;
+  specialty: string;
+  cref: string;
+  cref_verified_at: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  certifications: string[];
+  experience_years: number | null;
+}
+
+interface ProfessionalClass extends ScheduleColumns {
+  id: string;
+  activity: string;
+  category: ClassCategory | null;
+  level: ClassLevel;
+  location: string;
+  price: number | null;
+}
+
+interface ProfessionalReview {
+  id: string;
+  author_name: string;
+  rating: number;
+  comment: string | null;
+  reply: string | null;
+  created_at: string;
+  classes: { activity: string } | null;
+}
+
+const ProfessionalProfile = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { user, role } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [professional, setProfessional] = useState<PublicProfessional | null>(
+    null
+  );
+  const [classes, setClasses] = useState<ProfessionalClass[]>([]);
+  const [reviews, setReviews] = useState<ProfessionalReview[]>([]);
+  const [rating, setRating] = useState<RatingSummary | null>(null);
+
+  useEffect(() => {
+    loadProfile();
+  }, [id]);
+
+  const loadProfile = async () => {
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from("professionals")
+      .select(PUBLIC_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        title: "Erro ao carregar perfil",
+        description: error.message,
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    setProfessional(data);
+
+    if (data) {
+      const [
+        { data: classesData },
+        { data: reviewsData },
+        { data: ratingData },
+      ] = await Promise.all([
+        supabase
+          .from("classes")
+          .select(
+            "id, activity, category, level, location, price, schedule, weekdays, start_time, end_time, timezone"
+          )
+          .eq("professional_id", id)
+          .is("archived_at", null)
+          .order("activity"),
+        supabase
+          .from("class_reviews")
+          .select(
+            "id, author_name, rating, comment, reply, created_at, classes (activity)"
+          )
+          .eq("professional_id", id)
+          .is("hidden_at", null)
+          .order("created_at", { ascending: false })
+          .limit(20),
+        supabase
+          .from("professional_rating_summary")
+          .select("*")
+          .eq("professional_id", id)
+          .maybeSingle(),
+      ]);
+
+      setClasses(classesData || []);
+      setReviews(reviewsData || []);
+      setRating(toRatingSummary(ratingData));
+    }
+
+    setLoading(false);
+  };
+
+  // Alunos abrem a página da turma; o dono abre a gestão da turma; visitantes
+  // sem conta vão para o login
+  const classPath = (classId: string) => {
+    if (!user) return "/auth";
+    if (role === "student") return `/turma-aluno/${classId}`;
+    if (professional?.user_id === user?.id) return `/turma/${classId}`;
+    return null;
+  };
+
+  if (loading) {
+    return <div className="container py-12">Carregando...</div>;
+  }
+
+  if (!professional) {
+    return <div className="container py-12">Professor não encontrado</div>;
+  }
+
+  const initials =
+    professional.full_name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2) || "?";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-primary/5 to-background py-12 px-4">
+      <div className="container max-w-4xl mx-auto space-y-6">
+        <Button variant="ghost" onClick={() => navigate(-1)}>
+          ← Voltar
+        </Button>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col sm:flex-row items-center sm:items-start gap-6">
+              <Avatar className="h-32 w-32">
+                <AvatarImage
+                  src={professional.avatar_url || undefined}
+                  alt={professional.full_name}
+                />
+                <AvatarFallback className="text-3xl">{initials}</AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 space-y-3 text-center sm:text-left">
+                <div>
+                  <h1 className="text-3xl font-bold">
+                    {professional.full_name}
+                  </h1>
+                  <p className="text-lg text-muted-foreground">
+                    {professional.specialty}
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-center sm:justify-start gap-2">
+                  <Badge variant="outline" className="gap-1">
+                    <Award className="h-3 w-3" />
+                    CREF {professional.cref}
+                  </Badge>
+                  {professional.cref_verified_at && (
+                    <Badge className="gap-1">
+                      <BadgeCheck className="h-3 w-3" />
+                      CREF verificado
+                    </Badge>
+                  )}
+                  {professional.experience_years !== null && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Briefcase className="h-3 w-3" />
+                      {professional.experience_years}{" "}
+                      {professional.experience_years === 1
+                        ? "ano de experiência"
+                        : "anos de experiência"}
+                    </Badge>
+                  )}
+                </div>
+
+                {rating && (
+                  <div className="flex items-center justify-center sm:justify-start gap-2">
+                    <StarRating value={rating.average_rating} />
+                    <span className="font-semibold">
+                      {formatRating(rating.average_rating)}
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      ({formatReviewCount(rating.review_count)})
+                    </span>
+                  </div>
+                )}
+
+                {role === "student" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      navigate(`/chat?contact=${professional.user_id}`)
+                    }
+                  >
+                    <MessageCircle className="h-4 w-4 mr-2" />
+                    Chat
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {(professional.bio || professional.certifications.length > 0) && (
+              <>
+                <Separator className="my-6" />
+                <div className="space-y-4">
+                  {professional.bio && (
+                    <div className="space-y-2">
+                      <h2 className="text-xl font-semibold">Sobre</h2>
+                      <p className="whitespace-pre-line text-muted-foreground">
+                        {professional.bio}
+                      </p>
+                    </div>
+                  )}
+                  {professional.certifications.length > 0 && (
+                    <div className="space-y-2">
+                      <h2 className="text-xl font-semibold">Certificações</h2>
+                      <ul className="list-disc pl-5 space-y-1">
+                        {professional.certifications.map((certification) => (
+                          <li key={certification}>{certification}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Turmas</CardTitle>
+            <CardDescription>
+              {classes.length}{" "}
+              {classes.length === 1 ? "turma ativa" : "turmas ativas"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid md:grid-cols-2 gap-4">
+            {classes.length === 0 ? (
+              <p className="text-muted-foreground">
+                Nenhuma turma aberta no momento
+              </p>
+            ) : (
+              classes.map((classItem) => {
+                const path = classPath(classItem.id);
+
+                return (
+                  <Card
+                    key={classItem.id}
+                    className={
+                      path
+                        ? "cursor-pointer hover:shadow-medium transition-all"
+                        : undefined
+                    }
+                    onClick={() => path && navigate(path)}
+                  >
+                    <CardContent className="pt-4 space-y-2">
+                      <ClassBadges
+                        category={classItem.category}
+                        level={classItem.level}
+                      />
+                      <h3 className="font-semibold">{classItem.activity}</h3>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Clock className="h-4 w-4 text-muted-foreground" />
+                        <span>{formatSchedule(classItem)}</span>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <MapPin className="h-4 w-4 text-muted-foreground" />
+                        <span>{classItem.location}</span>
+                      </div>
+                      <p className="font-bold text-primary">
+                        {classItem.price > 0
+                          ? `R$ ${classItem.price.toFixed(2)}`
+                          : "Gratuito"}
+                      </p>
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Star className="h-5 w-5" />
+              Avaliações
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {reviews.length === 0 ? (
+              <p className="text-muted-foreground">
+                Este professor ainda não recebeu avaliações
+              </p>
+            ) : (
+              reviews.map((review) => (
+                <Card key={review.id}>
+                  <CardContent className="pt-4 space-y-2">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">
+                          {review.author_name}
+                        </span>
+                        <StarRating value={review.rating} />
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {review.classes?.activity} ·{" "}
+                        {new Date(review.created_at).toLocaleDateString(
+                          "pt-BR"
+                        )}
+                      </span>
+                    </div>
+                    {review.comment && (
+                      <p className="text-sm">{review.comment}</p>
+                    )}
+                    {review.reply && (
+                      <div className="rounded-md bg-muted p-3 text-sm">
+                        <p className="font-medium mb-1">
+                          Resposta do professor
+                        </p>
+                        <p>{review.reply}</p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ProfessionalProfile;
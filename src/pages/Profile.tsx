@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -17,6 +19,11 @@ import {
   FileText,
   Award,
   Camera,
+  BadgeCheck,
+  Briefcase,
+  GraduationCap,
+  Plus,
+  X,
 } from "lucide-react";
 
 interface StudentData {
@@ -38,6 +45,10 @@ interface ProfessionalData {
   cref: string;
   specialty: string;
   avatar_url: string | null;
+  bio: string | null;
+  certifications: string[];
+  experience_years: number | null;
+  cref_verified_at: string | null;
 }
 
 export default function Profile() {
@@ -52,6 +63,7 @@ export default function Profile() {
   const [studentData, setStudentData] = useState<StudentData | null>(null);
   const [professionalData, setProfessionalData] =
     useState<ProfessionalData | null>(null);
+  const [newCertification, setNewCertification] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -179,6 +191,9 @@ export default function Profile() {
       .update({
         full_name: professionalData.full_name,
         specialty: professionalData.specialty,
+        bio: professionalData.bio?.trim() || null,
+        certifications: professionalData.certifications,
+        experience_years: professionalData.experience_years,
       })
       .eq("user_id", session?.user.id);
 
@@ -199,6 +214,28 @@ export default function Profile() {
     });
   };
 
+  const handleAddCertification = () => {
+    const certification = newCertification.trim();
+    if (!professionalData || !certification) return;
+
+    if (!professionalData.certifications.includes(certification)) {
+      setProfessionalData({
+        ...professionalData,
+        certifications: [...professionalData.certifications, certification],
+      });
+    }
+    setNewCertification("");
+  };
+
+  const handleRemoveCertification = (certification: string) => {
+    setProfessionalData({
+      ...professionalData,
+      certifications: professionalData.certifications.filter(
+        (c) => c !== certification
+      ),
+    });
+  };
+
   const handleAvatarUpload = async (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -531,6 +568,16 @@ export default function Profile() {
                     disabled
                     className="bg-muted"
                   />
+                  {professionalData.cref_verified_at ? (
+                    <p className="flex items-center gap-1 text-sm text-primary">
+                      <BadgeCheck className="h-4 w-4" />
+                      CREF verificado
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Seu CREF ainda não foi verificado pela equipe.
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -553,6 +600,105 @@ export default function Profile() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="experience_years"
+                    className="flex items-center gap-2"
+                  >
+                    <Briefcase className="h-4 w-4" />
+                    Anos de Experiência
+                  </Label>
+                  <Input
+                    id="experience_years"
+                    type="number"
+                    min={0}
+                    max={80}
+                    value={professionalData.experience_years ?? ""}
+                    onChange={(e) =>
+                      setProfessionalData({
+                        ...professionalData,
+                        experience_years:
+                          e.target.value === ""
+                            ? null
+                            : parseInt(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bio" className="flex items-center gap-2">
+                    <User className="h-4 w-4" />
+                    Sobre Você
+                  </Label>
+                  <Textarea
+                    id="bio"
+                    rows={4}
+                    placeholder="Conte aos alunos sobre sua formação e sua forma de dar aulas"
+                    value={professionalData.bio || ""}
+                    onChange={(e) =>
+                      setProfessionalData({
+                        ...professionalData,
+                        bio: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="certification"
+                    className="flex items-center gap-2"
+                  >
+                    <GraduationCap className="h-4 w-4" />
+                    Certificações
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="certification"
+                      placeholder="Ex.: Pilates Solo - Instituto X"
+                      value={newCertification}
+                      onChange={(e) => setNewCertification(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault();
+                          handleAddCertification();
+                        }
+                      }}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={handleAddCertification}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {professionalData.certifications.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {professionalData.certifications.map((certification) => (
+                        <Badge
+                          key={certification}
+                          variant="secondary"
+                          className="gap-1"
+                        >
+                          {certification}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              handleRemoveCertification(certification)
+                            }
+                            aria-label={`Remover ${certification}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="cpf" className="flex items-center gap-2">
                     <FileText className="h-4 w-4" />
@@ -0,0 +1,391 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, Clock, Heart, MapPin, Search, Users } from "lucide-react";
+import SchedulePicker from "@/components/SchedulePicker";
+import {
+  ClassSchedule,
+  ScheduleColumns,
+  emptySchedule,
+  formatSchedule,
+  sortWeekdays,
+} from "@/lib/schedule";
+import { CLASS_CATEGORIES, ClassCategory } from "@/lib/classes";
+import { demandErrorMessage } from "@/lib/demands";
+import ClassBadges from "@/components/ClassBadges";
+import { formatAddress, geocodeAddress } from "@/lib/geo";
+
+interface OpenDemand extends ScheduleColumns {
+  id: string;
+  activity: string;
+  category: ClassCategory | null;
+  neighborhood: string;
+  location: string;
+  num_interested: number;
+  interested: boolean;
+}
+
+// Comparação sem acentos e sem diferenciar maiúsculas
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+const RequestClass = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const location = useLocation();
+  const prefill = location.state as {
+    activity?: string;
+    neighborhood?: string;
+  } | null;
+  const [demands, setDemands] = useState<OpenDemand[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [formData, setFormData] = useState({
+    activity: prefill?.activity || "",
+    category: "none",
+    neighborhood: prefill?.neighborhood || "",
+    location: "",
+  });
+  const [schedule, setSchedule] = useState<ClassSchedule>(emptySchedule());
+
+  useEffect(() => {
+    fetchDemands();
+  }, []);
+
+  const fetchDemands = async () => {
+    const { data, error } = await supabase
+      .from("open_demands")
+      .select("*")
+      .order("num_interested", { ascending: false })
+      .order("last_interest_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching demands:", error);
+    } else {
+      setDemands(data as OpenDemand[]);
+    }
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (
+      schedule.startTime &&
+      schedule.endTime &&
+      schedule.endTime <= schedule.startTime
+    ) {
+      toast({
+        title: "Horário inválido",
+        description:
+          "O horário de término deve ser depois do horário de início.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+
+    const coordinates = await geocodeAddress(
+      formatAddress(formData.location, formData.neighborhood)
+    );
+
+    const { data, error } = await supabase.rpc("create_demand", {
+      _activity: formData.activity,
+      _neighborhood: formData.neighborhood,
+      _location: formData.location || undefined,
+      _category:
+        formData.category === "none"
+          ? undefined
+          : (formData.category as ClassCategory),
+      _weekdays: sortWeekdays(schedule.weekdays),
+      _start_time: schedule.startTime || undefined,
+      _end_time: schedule.endTime || undefined,
+      _latitude: coordinates?.latitude,
+      _longitude: coordinates?.longitude,
+    });
+
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Não foi possível enviar o pedido",
+        description: demandErrorMessage(error),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Pedido registrado!",
+      description: data?.[0]?.joined_existing
+        ? "Já existia um pedido parecido no seu bairro. Somamos o seu interesse a ele."
+        : "Os professores da região verão o seu pedido.",
+    });
+
+    setFormData({
+      activity: "",
+      category: "none",
+      neighborhood: "",
+      location: "",
+    });
+    setSchedule(emptySchedule());
+    fetchDemands();
+  };
+
+  const toggleInterest = async (demand: OpenDemand) => {
+    setUpdatingId(demand.id);
+
+    const { error } = demand.interested
+      ? await supabase
+          .from("demand_interests")
+          .delete()
+          .eq("demand_id", demand.id)
+          .eq("student_id", user.id)
+      : await supabase
+          .from("demand_interests")
+          .insert({ demand_id: demand.id, student_id: user.id });
+
+    setUpdatingId(null);
+
+    if (error) {
+      toast({
+        title: "Erro ao atualizar interesse",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchDemands();
+  };
+
+  const filteredDemands = demands.filter((demand) =>
+    normalize(
+      `${demand.activity} ${demand.neighborhood} ${demand.location}`
+    ).includes(normalize(filter.trim()))
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        Carregando...
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8 space-y-4">
+          <h1 className="text-4xl md:text-5xl font-bold">Pedir uma Turma</h1>
+          <p className="text-xl text-muted-foreground">
+            Não encontrou a aula que procura? Conte o que você gostaria de fazer
+            e avisaremos os professores da sua região.
+          </p>
+        </div>
+
+        <Card className="mb-8 shadow-soft">
+          <CardHeader>
+            <CardTitle>Novo Pedido</CardTitle>
+            <CardDescription>
+              Se alguém já pediu a mesma atividade no seu bairro, seu interesse
+              é somado ao pedido existente.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="activity" className="text-base">
+                    Atividade *
+                  </Label>
+                  <Input
+                    id="activity"
+                    placeholder="Ex: Hidroginástica, Yoga, Caminhada..."
+                    value={formData.activity}
+                    onChange={(e) =>
+                      setFormData({ ...formData, activity: e.target.value })
+                    }
+                    required
+                    className="text-base h-12"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="category" className="text-base">
+                    Categoria
+                  </Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(category) =>
+                      setFormData({ ...formData, category })
+                    }
+                  >
+                    <SelectTrigger id="category" className="text-base h-12">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Não sei / Outra</SelectItem>
+                      {CLASS_CATEGORIES.map((category) => (
+                        <SelectItem key={category.value} value={category.value}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="neighborhood" className="text-base">
+                    Bairro e Cidade *
+                  </Label>
+                  <Input
+                    id="neighborhood"
+                    placeholder="Ex: Asa Sul, Brasília"
+                    value={formData.neighborhood}
+                    onChange={(e) =>
+                      setFormData({ ...formData, neighborhood: e.target.value })
+                    }
+                    required
+                    className="text-base h-12"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="location" className="text-base">
+                    Local de preferência (opcional)
+                  </Label>
+                  <Input
+                    id="location"
+                    placeholder="Ex: Parque da Cidade, clube do bairro..."
+                    value={formData.location}
+                    onChange={(e) =>
+                      setFormData({ ...formData, location: e.target.value })
+                    }
+                    className="text-base h-12"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-base">
+                  Dias e horário de preferência (opcional)
+                </Label>
+                <SchedulePicker
+                  value={schedule}
+                  onChange={setSchedule}
+                  showPeriod={false}
+                />
+              </div>
+
+              <Button
+                type="submit"
+                size="lg"
+                className="w-full"
+                disabled={submitting}
+              >
+                {submitting ? "Enviando..." : "Enviar Pedido"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <h2 className="text-2xl font-bold">Pedidos da Comunidade</h2>
+            <div className="relative md:w-72">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Filtrar por atividade ou bairro..."
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </div>
+
+          {filteredDemands.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">
+                {demands.length === 0
+                  ? "Ainda não há pedidos. Seja o primeiro!"
+                  : "Nenhum pedido encontrado com esse filtro."}
+              </CardContent>
+            </Card>
+          ) : (
+            filteredDemands.map((demand) => (
+              <Card key={demand.id} className="shadow-soft">
+                <CardHeader className="pb-3">
+                  <CardTitle>{demand.activity}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <ClassBadges category={demand.category} className="pb-2" />
+                  <div className="flex items-center text-sm">
+                    <MapPin className="w-4 h-4 mr-2" />
+                    {demand.location === demand.neighborhood
+                      ? demand.neighborhood
+                      : `${demand.neighborhood} - ${demand.location}`}
+                  </div>
+                  <div className="flex items-center text-sm">
+                    <Clock className="w-4 h-4 mr-2" />
+                    {formatSchedule(demand)}
+                  </div>
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-2">
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Users className="w-4 h-4 mr-2" />
+                      {demand.num_interested}{" "}
+                      {demand.num_interested === 1
+                        ? "pessoa interessada"
+                        : "pessoas interessadas"}
+                    </div>
+                    <Button
+                      variant={demand.interested ? "secondary" : "default"}
+                      onClick={() => toggleInterest(demand)}
+                      disabled={updatingId === demand.id}
+                    >
+                      {demand.interested ? (
+                        <>
+                          <Check className="w-4 h-4 mr-2" />
+                          Tenho interesse
+                        </>
+                      ) : (
+                        <>
+                          <Heart className="w-4 h-4 mr-2" />
+                          Também quero
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequestClass;
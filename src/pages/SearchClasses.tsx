@@ -1,6 +1,8 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/auth";
 import {
   Card,
   CardContent,
@@ -11,6 +13,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   Select,
   SelectContent,
@@ -18,66 +22,226 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { MapPin, Clock, Users, Star, Search, Filter } from "lucide-react";
+import {
+  MapPin,
+  Clock,
+  Users,
+  Star,
+  Search,
+  Filter,
+  GraduationCap,
+  LocateFixed,
+  Navigation,
+  CalendarDays,
+  DollarSign,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  X,
+} from "lucide-react";
+import {
+  WEEKDAYS,
+  WEEKDAY_ORDER,
+  formatSchedule,
+  sortWeekdays,
+} from "@/lib/schedule";
+import {
+  CLASS_CATEGORIES,
+  CLASS_LEVELS,
+  ClassCategory,
+  ClassLevel,
+} from "@/lib/classes";
+import ClassBadges from "@/components/ClassBadges";
+import ProfessionalLink from "@/components/ProfessionalLink";
+import {
+  RADIUS_OPTIONS_KM,
+  formatDistance,
+  geocodeAddress,
+  getCurrentPosition,
+} from "@/lib/geo";
+import { formatRating, formatReviewCount } from "@/lib/reviews";
+import {
+  SEARCH_PAGE_SIZE,
+  SORT_OPTIONS,
+  SearchFilters,
+  SearchResult,
+  SearchSort,
+  filtersFromParams,
+  filtersToParams,
+  searchArgs,
+} from "@/lib/search";
+
+// Espera o usuário parar de digitar antes de buscar de novo
+const TYPING_DELAY_MS = 400;
 
 const SearchClasses = () => {
   const navigate = useNavigate();
-  const [searchLocation, setSearchLocation] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState("all");
-  const [classes, setClasses] = useState<any[]>([]);
+  const { toast } = useToast();
+  const { role } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(
+    () => filtersFromParams(searchParams),
+    [searchParams]
+  );
+  const [draft, setDraft] = useState({
+    query: filters.query,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+  });
+  const [classes, setClasses] = useState<SearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [nearAddress, setNearAddress] = useState("");
+  const [locating, setLocating] = useState(false);
+  // Só a busca mais recente atualiza a lista: respostas antigas chegam tarde
+  const latestSearch = useRef(0);
+
+  const hasOrigin = filters.latitude !== null && filters.longitude !== null;
+  const totalPages = Math.max(Math.ceil(totalCount / SEARCH_PAGE_SIZE), 1);
 
   useEffect(() => {
     fetchClasses();
-  }, []);
+  }, [searchParams]);
+
+  // Voltar e avançar no navegador trocam a URL: os campos acompanham
+  useEffect(() => {
+    setDraft((current) =>
+      current.query === filters.query &&
+      current.minPrice === filters.minPrice &&
+      current.maxPrice === filters.maxPrice
+        ? current
+        : {
+            query: filters.query,
+            minPrice: filters.minPrice,
+            maxPrice: filters.maxPrice,
+          }
+    );
+  }, [filters]);
+
+  // Campos digitados vão para a URL só depois da pausa na digitação
+  useEffect(() => {
+    if (
+      draft.query === filters.query &&
+      draft.minPrice === filters.minPrice &&
+      draft.maxPrice === filters.maxPrice
+    ) {
+      return;
+    }
+
+    const timeout = setTimeout(() => updateFilters(draft), TYPING_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft]);
+
+  // Mudar qualquer filtro volta para a primeira página
+  const updateFilters = (changes: Partial<SearchFilters>) => {
+    setSearchParams(filtersToParams({ ...filters, page: 1, ...changes }), {
+      replace: true,
+    });
+  };
+
+  const goToPage = (page: number) => {
+    setSearchParams(filtersToParams({ ...filters, page }));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
   const fetchClasses = async () => {
+    const search = ++latestSearch.current;
+    const isStale = () => search !== latestSearch.current;
+
+    setSearching(true);
     try {
-      const { data, error } = await supabase
-        .from("classes")
-        .select(
-          `
-          *,
-          professionals (full_name)
-        `
-        )
-        .order("created_at", { ascending: false });
+      const { data, error } = await supabase.rpc(
+        "search_classes",
+        searchArgs(filters)
+      );
 
+      if (isStale()) return;
       if (error) throw error;
 
-      // Get enrollment counts for each class
-      const classesWithCounts = await Promise.all(
-        (data || []).map(async (classItem) => {
-          const { count } = await supabase
-            .from("enrollments")
-            .select("*", { count: "exact", head: true })
-            .eq("class_id", classItem.id);
-
-          return {
-            ...classItem,
-            enrollmentCount: count || 0,
-            availableSpots: classItem.max_students - (count || 0),
-          };
-        })
-      );
+      // Página além da última (link antigo ou editado): vai para a última
+      if (!data?.length && filters.page > 1) {
+        const { data: firstPage } = await supabase.rpc(
+          "search_classes",
+          searchArgs({ ...filters, page: 1 })
+        );
+        if (isStale()) return;
 
-      setClasses(classesWithCounts);
+        const total = firstPage?.[0]?.total_count ?? 0;
+        const lastPage = Math.max(Math.ceil(total / SEARCH_PAGE_SIZE), 1);
+        setSearchParams(filtersToParams({ ...filters, page: lastPage }), {
+          replace: true,
+        });
+        return;
+      }
+
+      setClasses(data || []);
+      setTotalCount(data?.[0]?.total_count ?? 0);
     } catch (error) {
+      if (isStale()) return;
       console.error("Error fetching classes:", error);
+      toast({
+        title: "Erro ao buscar aulas",
+        description: error.message,
+        variant: "destructive",
+      });
     } finally {
-      setLoading(false);
+      if (!isStale()) {
+        setLoading(false);
+        setSearching(false);
+      }
     }
   };
 
-  const filteredClasses = classes.filter((classItem) => {
-    const matchesLocation =
-      searchLocation === "" ||
-      classItem.location.toLowerCase().includes(searchLocation.toLowerCase());
-    const matchesCategory =
-      categoryFilter === "all" || classItem.activity === categoryFilter;
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+    try {
+      const coordinates = await getCurrentPosition();
+      updateFilters({ ...coordinates, nearLabel: "sua localização" });
+    } catch (error) {
+      toast({
+        title: "Não foi possível obter sua localização",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLocating(false);
+    }
+  };
 
-    return matchesLocation && matchesCategory;
-  });
+  const handleSearchNearAddress = async () => {
+    if (!nearAddress.trim()) return;
+
+    setLocating(true);
+    const coordinates = await geocodeAddress(nearAddress);
+    setLocating(false);
+
+    if (!coordinates) {
+      toast({
+        title: "Endereço não encontrado",
+        description: "Tente incluir o bairro e a cidade.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateFilters({ ...coordinates, nearLabel: nearAddress.trim() });
+  };
+
+  const clearOrigin = () => {
+    updateFilters({
+      latitude: null,
+      longitude: null,
+      nearLabel: "",
+      sort: filters.sort === "distance" ? "recent" : filters.sort,
+    });
+  };
+
+  const clearFilters = () => {
+    setDraft({ query: "", minPrice: "", maxPrice: "" });
+    setNearAddress("");
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
 
   if (loading) {
     return (
@@ -101,17 +265,19 @@ const SearchClasses = () => {
         {/* Filters */}
         <Card className="mb-8 shadow-soft">
           <CardContent className="p-6">
-            <div className="grid md:grid-cols-2 gap-4">
+            <div className="grid md:grid-cols-3 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="location" className="text-base">
+                <Label htmlFor="query" className="text-base">
                   <Search className="w-4 h-4 inline mr-2" />
-                  Localização
+                  Buscar
                 </Label>
                 <Input
-                  id="location"
-                  placeholder="Digite sua localização..."
-                  value={searchLocation}
-                  onChange={(e) => setSearchLocation(e.target.value)}
+                  id="query"
+                  placeholder="Atividade, professor, bairro..."
+                  value={draft.query}
+                  onChange={(e) =>
+                    setDraft({ ...draft, query: e.target.value })
+                  }
                   className="text-base h-12"
                 />
               </div>
@@ -119,59 +285,322 @@ const SearchClasses = () => {
               <div className="space-y-2">
                 <Label htmlFor="category" className="text-base">
                   <Filter className="w-4 h-4 inline mr-2" />
-                  Atividade
+                  Categoria
                 </Label>
                 <Select
-                  value={categoryFilter}
-                  onValueChange={setCategoryFilter}
+                  value={filters.category || "all"}
+                  onValueChange={(value) =>
+                    updateFilters({
+                      category:
+                        value === "all" ? null : (value as ClassCategory),
+                    })
+                  }
                 >
                   <SelectTrigger id="category" className="text-base h-12">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">Todas as atividades</SelectItem>
-                    {Array.from(new Set(classes.map((c) => c.activity))).map(
-                      (activity) => (
-                        <SelectItem key={activity} value={activity}>
-                          {activity}
-                        </SelectItem>
-                      )
-                    )}
+                    <SelectItem value="all">Todas as categorias</SelectItem>
+                    {CLASS_CATEGORIES.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="level" className="text-base">
+                  <GraduationCap className="w-4 h-4 inline mr-2" />
+                  Nível
+                </Label>
+                <Select
+                  value={filters.level || "all"}
+                  onValueChange={(value) =>
+                    updateFilters({
+                      level: value === "all" ? null : (value as ClassLevel),
+                    })
+                  }
+                >
+                  <SelectTrigger id="level" className="text-base h-12">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos os níveis</SelectItem>
+                    {CLASS_LEVELS.map((level) => (
+                      <SelectItem key={level.value} value={level.value}>
+                        {level.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
+
+            <div className="mt-6 pt-6 border-t grid md:grid-cols-3 gap-4">
+              <div className="space-y-2 md:col-span-3">
+                <Label className="text-base">
+                  <CalendarDays className="w-4 h-4 inline mr-2" />
+                  Dias e Horário
+                </Label>
+                <div className="flex flex-col md:flex-row md:items-center gap-3">
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    className="flex-wrap justify-start"
+                    value={filters.weekdays.map(String)}
+                    onValueChange={(days) =>
+                      updateFilters({
+                        weekdays: sortWeekdays(days.map(Number)),
+                      })
+                    }
+                  >
+                    {WEEKDAY_ORDER.map((day) => (
+                      <ToggleGroupItem
+                        key={day}
+                        value={String(day)}
+                        aria-label={WEEKDAYS[day].label}
+                        className="h-12 min-w-14 text-base data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+                      >
+                        {WEEKDAYS[day].short}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      aria-label="Começa a partir de"
+                      value={filters.startsAfter}
+                      onChange={(e) =>
+                        updateFilters({ startsAfter: e.target.value })
+                      }
+                      className="text-base h-12 w-32"
+                    />
+                    <span className="text-muted-foreground">até</span>
+                    <Input
+                      type="time"
+                      aria-label="Termina até"
+                      value={filters.endsBefore}
+                      onChange={(e) =>
+                        updateFilters({ endsBefore: e.target.value })
+                      }
+                      className="text-base h-12 w-32"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="minPrice" className="text-base">
+                  <DollarSign className="w-4 h-4 inline mr-2" />
+                  Preço (R$)
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="minPrice"
+                    type="number"
+                    min="0"
+                    placeholder="Mínimo"
+                    value={draft.minPrice}
+                    onChange={(e) =>
+                      setDraft({ ...draft, minPrice: e.target.value })
+                    }
+                    className="text-base h-12"
+                  />
+                  <span className="text-muted-foreground">a</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Máximo"
+                    aria-label="Preço máximo"
+                    value={draft.maxPrice}
+                    onChange={(e) =>
+                      setDraft({ ...draft, maxPrice: e.target.value })
+                    }
+                    className="text-base h-12"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sort" className="text-base">
+                  <ArrowUpDown className="w-4 h-4 inline mr-2" />
+                  Ordenar por
+                </Label>
+                <Select
+                  value={filters.sort}
+                  onValueChange={(value) =>
+                    updateFilters({ sort: value as SearchSort })
+                  }
+                >
+                  <SelectTrigger id="sort" className="text-base h-12">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.filter(
+                      (option) => hasOrigin || option.value !== "distance"
+                    ).map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-3 md:pt-8">
+                <Switch
+                  id="onlyAvailable"
+                  checked={filters.onlyAvailable}
+                  onCheckedChange={(checked) =>
+                    updateFilters({ onlyAvailable: checked })
+                  }
+                />
+                <Label htmlFor="onlyAvailable" className="text-base">
+                  Só turmas com vagas
+                </Label>
+              </div>
+            </div>
+
+            <div className="mt-6 pt-6 border-t space-y-3">
+              <Label htmlFor="nearAddress" className="text-base">
+                <Navigation className="w-4 h-4 inline mr-2" />
+                Aulas Próximas
+              </Label>
+              <div className="flex flex-col md:flex-row gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="h-12"
+                  onClick={handleUseMyLocation}
+                  disabled={locating}
+                >
+                  <LocateFixed className="w-4 h-4 mr-2" />
+                  Usar minha localização
+                </Button>
+                <div className="flex flex-1 gap-2">
+                  <Input
+                    id="nearAddress"
+                    placeholder="Ou digite um endereço, bairro e cidade..."
+                    value={nearAddress}
+                    onChange={(e) => setNearAddress(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleSearchNearAddress();
+                    }}
+                    className="text-base h-12"
+                  />
+                  <Button
+                    type="button"
+                    className="h-12"
+                    onClick={handleSearchNearAddress}
+                    disabled={locating || !nearAddress.trim()}
+                  >
+                    <Search className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Select
+                  value={String(filters.radiusKm)}
+                  onValueChange={(value) =>
+                    updateFilters({ radiusKm: Number(value) })
+                  }
+                >
+                  <SelectTrigger className="text-base h-12 md:w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RADIUS_OPTIONS_KM.map((km) => (
+                      <SelectItem key={km} value={String(km)}>
+                        Até {km} km
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {locating && (
+                <p className="text-sm text-muted-foreground">Localizando...</p>
+              )}
+              {hasOrigin && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>
+                    Mostrando aulas a até {filters.radiusKm} km de{" "}
+                    {filters.nearLabel || "um ponto no mapa"}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearOrigin}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Limpar
+                  </Button>
+                </div>
+              )}
+            </div>
           </CardContent>
         </Card>
 
         {/* Results Count */}
-        <div className="mb-6">
+        <div className="mb-6 flex items-center justify-between">
           <p className="text-lg text-muted-foreground">
-            {filteredClasses.length}{" "}
-            {filteredClasses.length === 1
-              ? "aula encontrada"
-              : "aulas encontradas"}
+            {totalCount}{" "}
+            {totalCount === 1 ? "aula encontrada" : "aulas encontradas"}
           </p>
+          {searching && (
+            <p className="text-sm text-muted-foreground">Buscando...</p>
+          )}
         </div>
 
         {/* Classes Grid */}
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredClasses.map((classItem) => (
+          {classes.map((classItem) => (
             <Card
               key={classItem.id}
               className="overflow-hidden hover:shadow-medium transition-all group"
             >
               <CardHeader>
                 <div className="space-y-2">
+                  <ClassBadges
+                    category={classItem.category}
+                    level={classItem.level}
+                  />
                   <h3 className="text-xl font-bold">{classItem.activity}</h3>
                   <p className="text-muted-foreground">
                     Prof.{" "}
-                    {classItem.professionals?.full_name || "Não especificado"}
+                    <ProfessionalLink
+                      professionalId={classItem.professional_id}
+                      name={classItem.professional_name}
+                    />
+                    {classItem.professional_average_rating !== null && (
+                      <span className="ml-2 inline-flex items-center gap-1 text-sm">
+                        <Star className="w-3 h-3 fill-secondary text-secondary" />
+                        {formatRating(classItem.professional_average_rating)}
+                      </span>
+                    )}
                   </p>
                 </div>
               </CardHeader>
 
               <CardContent className="space-y-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <Star className="w-4 h-4 fill-secondary text-secondary flex-shrink-0" />
+                  {classItem.review_count > 0 ? (
+                    <span>
+                      <span className="font-semibold">
+                        {formatRating(classItem.average_rating)}
+                      </span>{" "}
+                      <span className="text-muted-foreground">
+                        ({formatReviewCount(classItem.review_count)})
+                      </span>
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      Sem avaliações ainda
+                    </span>
+                  )}
+                </div>
+
                 {classItem.description && (
                   <p className="text-sm text-muted-foreground line-clamp-2">
                     {classItem.description}
@@ -180,17 +609,25 @@ const SearchClasses = () => {
 
                 <div className="flex items-center gap-2 text-sm">
                   <MapPin className="w-4 h-4 text-primary flex-shrink-0" />
-                  <span>{classItem.location}</span>
+                  <span>
+                    {classItem.location}
+                    {classItem.neighborhood && ` - ${classItem.neighborhood}`}
+                  </span>
+                  {classItem.distance_km !== null && (
+                    <Badge variant="secondary" className="ml-auto">
+                      {formatDistance(classItem.distance_km)}
+                    </Badge>
+                  )}
                 </div>
                 <div className="flex items-center gap-2 text-sm">
                   <Clock className="w-4 h-4 text-primary flex-shrink-0" />
-                  <span>{classItem.schedule}</span>
+                  <span>{formatSchedule(classItem)}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm">
                   <Users className="w-4 h-4 text-primary flex-shrink-0" />
                   <span>
-                    {classItem.availableSpots > 0
-                      ? `${classItem.availableSpots} vagas disponíveis`
+                    {classItem.available_spots > 0
+                      ? `${classItem.available_spots} vagas disponíveis`
                       : "Turma cheia"}
                   </span>
                 </div>
@@ -204,30 +641,64 @@ const SearchClasses = () => {
                 </div>
                 <Button
                   onClick={() => navigate(`/turma-aluno/${classItem.id}`)}
-                  disabled={classItem.availableSpots <= 0}
+                  variant={
+                    classItem.available_spots > 0 ? "default" : "secondary"
+                  }
                 >
-                  {classItem.availableSpots > 0 ? "Matricular" : "Cheia"}
+                  {classItem.available_spots > 0
+                    ? "Matricular"
+                    : "Lista de espera"}
                 </Button>
               </CardFooter>
             </Card>
           ))}
         </div>
 
-        {filteredClasses.length === 0 && (
-          <Card className="p-12 text-center">
-            <p className="text-xl text-muted-foreground">
-              Nenhuma aula encontrada com os filtros selecionados.
-            </p>
+        {totalPages > 1 && (
+          <div className="mt-8 flex items-center justify-center gap-4">
             <Button
               variant="outline"
-              className="mt-4"
-              onClick={() => {
-                setSearchLocation("");
-                setCategoryFilter("all");
-              }}
+              onClick={() => goToPage(filters.page - 1)}
+              disabled={filters.page <= 1 || searching}
             >
-              Limpar Filtros
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Anterior
             </Button>
+            <span className="text-muted-foreground">
+              Página {filters.page} de {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              onClick={() => goToPage(filters.page + 1)}
+              disabled={filters.page >= totalPages || searching}
+            >
+              Próxima
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        )}
+
+        {classes.length === 0 && !searching && (
+          <Card className="p-12 text-center">
+            <p className="text-xl text-muted-foreground">
+              Nenhuma aula encontrada com os filtros selecionados.
+            </p>
+            <div className="mt-4 flex flex-col sm:flex-row justify-center gap-2">
+              <Button variant="outline" onClick={clearFilters}>
+                Limpar Filtros
+              </Button>
+              {role === "student" && (
+                <Button
+                  onClick={() =>
+                    navigate("/pedir-turma", {
+                      state: { activity: filters.query },
+                    })
+                  }
+                >
+                  Pedir uma turma
+                </Button>
+              )}
+            </div>
           </Card>
         )}
       </div>
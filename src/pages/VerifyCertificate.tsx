@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import {
+  VerifiedCertificate,
+  certificateText,
+  formatCertificatePeriod,
+} from "@/lib/certificates";
+
+// Página pública que confirma um certificado de frequência pelo código
+const VerifyCertificate = () => {
+  const { code } = useParams();
+  const [loading, setLoading] = useState(true);
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(
+    null
+  );
+  // Falha ao consultar não significa que o certificado não existe
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    verify();
+  }, [code]);
+
+  const verify = async () => {
+    setLoading(true);
+
+    const { data, error } = await supabase.rpc(
+      "verify_attendance_certificate",
+      { _code: code }
+    );
+
+    if (error) {
+      console.error("Error verifying certificate:", error);
+    }
+
+    setFailed(!!error);
+    setCertificate(data?.[0] ?? null);
+    setLoading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        Verificando...
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto px-4 py-12 max-w-2xl">
+        {certificate ? (
+          <Card className="shadow-soft">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-2xl">
+                <CheckCircle2 className="h-7 w-7 text-green-600" />
+                Certificado válido
+              </CardTitle>
+              <CardDescription>
+                Código de verificação {certificate.code}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <p className="text-lg leading-relaxed">
+                {certificateText(certificate)}
+              </p>
+              <dl className="grid sm:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">Aluno</dt>
+                  <dd className="font-medium">{certificate.student_name}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Turma</dt>
+                  <dd className="font-medium">{certificate.activity}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Professor(a)</dt>
+                  <dd className="font-medium">
+                    {certificate.professional_name} — CREF {certificate.cref}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Período</dt>
+                  <dd className="font-medium capitalize">
+                    {formatCertificatePeriod(
+                      certificate.period_start,
+                      certificate.period_end
+                    )}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Frequência</dt>
+                  <dd className="font-medium">
+                    {certificate.sessions_present} de{" "}
+                    {certificate.sessions_total} aulas (
+                    {Number(certificate.attendance_rate).toFixed(1)}%)
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Emitido em</dt>
+                  <dd className="font-medium">
+                    {format(
+                      new Date(certificate.issued_at),
+                      "dd/MM/yyyy 'às' HH:mm"
+                    )}
+                  </dd>
+                </div>
+              </dl>
+            </CardContent>
+          </Card>
+        ) : failed ? (
+          <Card className="shadow-soft">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-2xl">
+                <AlertTriangle className="h-7 w-7 text-destructive" />
+                Não foi possível verificar
+              </CardTitle>
+              <CardDescription>
+                Não conseguimos consultar o código {code} agora. Verifique sua
+                conexão e tente novamente.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={verify}>Tentar novamente</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="shadow-soft">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-2xl">
+                <XCircle className="h-7 w-7 text-destructive" />
+                Certificado não encontrado
+              </CardTitle>
+              <CardDescription>
+                Nenhum certificado foi emitido com o código {code}. Confira se
+                ele foi digitado exatamente como aparece no documento.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyCertificate;
@@ -15,12 +15,18 @@ import NotFound from "./pages/NotFound";
 import { ProtectedRoute } from "@/components/protectedRoute";
 import Profile from "./pages/Profile";
 import PrivateChat from "./pages/PrivateChat";
+import ProfessionalProfile from "./pages/ProfessionalProfile";
+import RequestClass from "./pages/RequestClass";
+import Notifications from "./pages/Notifications";
+import VerifyCertificate from "./pages/VerifyCertificate";
 
 export function Routes() {
   return (
     <RoutesDOM>
       <Route path="/" element={<Index />} />
       <Route path="/auth" element={<Auth />} />
+      <Route path="/verificar/:code" element={<VerifyCertificate />} />
+      <Route path="/professional/:id" element={<ProfessionalProfile />} />
 
       {/* Rotas públicas autenticadas */}
       <Route
@@ -60,6 +66,15 @@ export function Routes() {
         }
       />
 
+      <Route
+        path="/turma/:id/editar"
+        element={
+          <ProtectedRoute requireRole="professional">
+            <CreateClass />
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/financeiro"
         element={
@@ -88,6 +103,15 @@ export function Routes() {
         }
       />
 
+      <Route
+        path="/pedir-turma"
+        element={
+          <ProtectedRoute requireRole="student">
+            <RequestClass />
+          </ProtectedRoute>
+        }
+      />
+
       {/* Rotas de cadastro - protegidas mas sem role específica */}
       <Route
         path="/cadastro-profissional"
@@ -125,6 +149,15 @@ export function Routes() {
         }
       />
 
+      <Route
+        path="/notificacoes"
+        element={
+          <ProtectedRoute>
+            <Notifications />
+          </ProtectedRoute>
+        }
+      />
+
       <Route path="*" element={<NotFound />} />
     </RoutesDOM>
   );
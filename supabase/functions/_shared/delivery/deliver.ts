@@ -0,0 +1,92 @@
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { providerFor } from "./providers.ts";
+import { renderMessage } from "./templates.ts";
+import { OutboundMessage } from "./types.ts";
+
+const BATCH_SIZE = 50;
+export const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 60_000;
+const MAX_DELAY_MS = 60 * 60_000;
+
+// Espera antes da próxima tentativa: 1, 2, 4, 8... minutos, até 1 hora,
+// com até 20% de variação para não reenviar tudo ao mesmo tempo
+export const retryDelay = (attempt: number) => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return delay + Math.random() * delay * 0.2;
+};
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+// Envia as mensagens pendentes e devolve quantas foram entregues, quantas
+// voltaram para a fila e quantas desistimos de enviar
+export const deliverPending = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase.rpc("claim_outbound_messages", {
+    _limit: BATCH_SIZE,
+  });
+
+  if (error) throw new Error(error.message);
+
+  const summary = { sent: 0, retrying: 0, failed: 0 };
+
+  for (const message of (data || []) as OutboundMessage[]) {
+    let providerName = "unknown";
+
+    try {
+      const provider = providerFor(message.channel, supabase);
+      providerName = provider.name;
+
+      const result = await provider.send(message, renderMessage(message));
+
+      await supabase
+        .from("outbound_messages")
+        .update({
+          status: "sent",
+          sent_at: new Date().toISOString(),
+          provider: provider.name,
+          provider_message_id: result.providerMessageId ?? null,
+          last_error: null,
+        })
+        .eq("id", message.id);
+
+      await supabase.from("delivery_log").insert({
+        message_id: message.id,
+        attempt: message.attempts,
+        provider: provider.name,
+        status: "sent",
+      });
+
+      summary.sent++;
+    } catch (err) {
+      const gaveUp = message.attempts >= MAX_ATTEMPTS;
+
+      await supabase
+        .from("outbound_messages")
+        .update({
+          status: gaveUp ? "failed" : "pending",
+          next_attempt_at: new Date(
+            Date.now() + retryDelay(message.attempts)
+          ).toISOString(),
+          provider: providerName,
+          last_error: errorMessage(err),
+        })
+        .eq("id", message.id);
+
+      await supabase.from("delivery_log").insert({
+        message_id: message.id,
+        attempt: message.attempts,
+        provider: providerName,
+        status: "failed",
+        error: errorMessage(err),
+      });
+
+      if (gaveUp) {
+        summary.failed++;
+      } else {
+        summary.retrying++;
+      }
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,51 @@
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { DeliveryProvider, OutboundChannel } from "./types.ts";
+
+// Apenas registra a mensagem no log da função
+export const logProvider: DeliveryProvider = {
+  name: "log",
+  async send(message, rendered) {
+    console.log(
+      `[${message.channel}] ${message.destination}: ${rendered.subject}\n${rendered.text}`
+    );
+    return {};
+  },
+};
+
+// Grava a mensagem pronta em local_outbox em vez de enviá-la, para testar
+// todo o fluxo sem contas reais de e-mail ou SMS
+export const outboxProvider = (supabase: SupabaseClient): DeliveryProvider => ({
+  name: "outbox",
+  async send(message, rendered) {
+    const { data, error } = await supabase
+      .from("local_outbox")
+      .insert({
+        message_id: message.id,
+        channel: message.channel,
+        destination: message.destination,
+        subject: message.channel === "email" ? rendered.subject : null,
+        text: rendered.text,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw new Error(error.message);
+    return { providerMessageId: data.id };
+  },
+});
+
+// DELIVERY_PROVIDER escolhe o provedor de todos os canais ("outbox" por
+// padrão). Registre aqui os provedores reais de cada canal.
+export const providerFor = (
+  channel: OutboundChannel,
+  supabase: SupabaseClient
+): DeliveryProvider => {
+  switch (Deno.env.get("DELIVERY_PROVIDER") ?? "outbox") {
+    case "log":
+      return logProvider;
+    case "outbox":
+      return outboxProvider(supabase);
+    default:
+      throw new Error(`Nenhum provedor configurado para ${channel}`);
+  }
+};
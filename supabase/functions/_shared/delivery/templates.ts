@@ -0,0 +1,99 @@
+import { OutboundMessage, RenderedMessage } from "./types.ts";
+
+const APP_URL = Deno.env.get("APP_URL") ?? "http://localhost:8080";
+
+interface Template {
+  // Versão completa, para e-mail
+  long(message: OutboundMessage): RenderedMessage;
+  // Versão curta, para SMS e WhatsApp
+  short(message: OutboundMessage): string;
+}
+
+const linkLine = (link: string | null) =>
+  link ? `\n\nAcesse: ${APP_URL}${link}` : "";
+
+const templates: Record<string, Template> = {
+  // Usa o mesmo título e texto do aviso no app
+  notification: {
+    long: ({ title, body, link }) => ({
+      subject: title,
+      text: `Olá!\n\n${body}${linkLine(link)}\n\nEquipe FitSênior`,
+    }),
+    short: ({ title, body }) => `FitSênior: ${title}. ${body}`,
+  },
+
+  class_reminder: {
+    long: ({ params, link }) => ({
+      subject: `Lembrete: aula de ${params.activity} ${params.when} às ${params.time}`,
+      text:
+        `Olá!\n\nEste é um lembrete da sua aula de ${params.activity}, ` +
+        `${params.when} às ${params.time}` +
+        (params.location ? `, em ${params.location}` : "") +
+        `.${linkLine(link)}\n\nBoa aula!\nEquipe FitSênior`,
+    }),
+    short: ({ params }) =>
+      `FitSênior: sua aula de ${params.activity} é ${params.when} às ${params.time}` +
+      (params.location ? ` em ${params.location}` : "") +
+      ".",
+  },
+
+  payment_notice: {
+    long: ({ params, link }) =>
+      params.status === "paid"
+        ? {
+            subject: `Pagamento confirmado: ${params.activity}`,
+            text:
+              `Olá!\n\nRecebemos seu pagamento de ${params.amount} ` +
+              `referente às aulas de ${params.activity}. Obrigado!` +
+              `${linkLine(link)}\n\nEquipe FitSênior`,
+          }
+        : {
+            subject: `Nova mensalidade: ${params.activity}`,
+            text:
+              `Olá!\n\nA mensalidade de ${params.amount} das aulas de ` +
+              `${params.activity} está aguardando pagamento.` +
+              `${linkLine(link)}\n\nEquipe FitSênior`,
+          },
+    short: ({ params }) =>
+      params.status === "paid"
+        ? `FitSênior: recebemos seu pagamento de ${params.amount} (${params.activity}).`
+        : `FitSênior: mensalidade de ${params.amount} (${params.activity}) aguardando pagamento.`,
+  },
+
+  // Enviado pelo gancho de e-mail do Auth; o link já vem completo
+  password_reset: {
+    long: ({ params }) => ({
+      subject: "Redefinição de senha",
+      text:
+        "Olá!\n\nRecebemos um pedido para redefinir a senha da sua conta. " +
+        `Para criar uma nova senha, acesse:\n${params.url}\n\n` +
+        "Se você não fez este pedido, ignore esta mensagem: sua senha " +
+        "continua a mesma.\n\nEquipe FitSênior",
+    }),
+    short: ({ params }) =>
+      `FitSênior: para redefinir sua senha, acesse ${params.url}`,
+  },
+
+  // Demais e-mails do Auth: confirmação de cadastro, troca de e-mail etc.
+  account_email: {
+    long: ({ title, body, params }) => ({
+      subject: title,
+      text: `Olá!\n\n${body}\n${params.url}\n\nEquipe FitSênior`,
+    }),
+    short: ({ title, params }) => `FitSênior: ${title}. ${params.url}`,
+  },
+};
+
+export const renderMessage = (message: OutboundMessage): RenderedMessage => {
+  const template = templates[message.template];
+  if (!template) {
+    throw new Error(`Modelo de mensagem desconhecido: ${message.template}`);
+  }
+
+  if (message.channel === "email") {
+    return template.long(message);
+  }
+
+  const text = template.short(message);
+  return { subject: text, text };
+};
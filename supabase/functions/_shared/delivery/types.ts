@@ -0,0 +1,36 @@
+export type OutboundChannel = "email" | "sms" | "whatsapp";
+
+// Linha de outbound_messages como devolvida por claim_outbound_messages
+export interface OutboundMessage {
+  id: string;
+  user_id: string;
+  channel: OutboundChannel;
+  destination: string;
+  title: string;
+  body: string;
+  link: string | null;
+  template: string;
+  params: Record<string, string | null>;
+  attempts: number;
+}
+
+// Texto final de uma mensagem. SMS e WhatsApp usam apenas text.
+export interface RenderedMessage {
+  subject: string;
+  text: string;
+}
+
+export interface DeliveryResult {
+  providerMessageId?: string;
+}
+
+// Cada provedor (e-mail, SMS, WhatsApp) implementa este contrato. Um erro
+// lançado por send conta como tentativa falha e a mensagem é reenviada
+// mais tarde.
+export interface DeliveryProvider {
+  name: string;
+  send(
+    message: OutboundMessage,
+    rendered: RenderedMessage
+  ): Promise<DeliveryResult>;
+}
@@ -0,0 +1,108 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { Webhook } from "npm:standardwebhooks@1";
+import { deliverPending } from "../_shared/delivery/deliver.ts";
+
+// Gancho "Send Email" do Auth: os e-mails de conta, como a redefinição de
+// senha, passam pela mesma fila, modelos e reenvios das demais mensagens.
+// Fica desligado em config.toml até haver um provedor real de e-mail.
+const ACCOUNT_EMAILS: Record<string, { title: string; body: string }> = {
+  signup: {
+    title: "Confirme seu cadastro",
+    body: "Para confirmar seu cadastro, acesse:",
+  },
+  invite: {
+    title: "Convite para o FitSênior",
+    body: "Você foi convidado para o FitSênior. Para aceitar, acesse:",
+  },
+  magiclink: {
+    title: "Seu link de acesso",
+    body: "Para entrar na sua conta, acesse:",
+  },
+  email_change: {
+    title: "Confirme seu novo e-mail",
+    body: "Para confirmar a troca de e-mail da sua conta, acesse:",
+  },
+};
+
+interface AuthEmailPayload {
+  user: { id: string; email: string; new_email?: string };
+  email_data: {
+    token_hash: string;
+    redirect_to: string;
+    email_action_type: string;
+  };
+}
+
+Deno.serve(async (req) => {
+  const hookSecret = Deno.env.get("SEND_EMAIL_HOOK_SECRET");
+  if (!hookSecret) {
+    console.error("SEND_EMAIL_HOOK_SECRET não configurado");
+    return Response.json(
+      { error: "Gancho de e-mail não configurado" },
+      { status: 500 }
+    );
+  }
+
+  const payload = await req.text();
+  const secret = hookSecret.replace("v1,whsec_", "");
+
+  let event: AuthEmailPayload;
+  try {
+    event = new Webhook(secret).verify(
+      payload,
+      Object.fromEntries(req.headers)
+    ) as AuthEmailPayload;
+  } catch {
+    return Response.json({ error: "Assinatura inválida" }, { status: 401 });
+  }
+
+  const { user, email_data } = event;
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const url =
+    `${supabaseUrl}/auth/v1/verify?token=${email_data.token_hash}` +
+    `&type=${email_data.email_action_type}` +
+    `&redirect_to=${encodeURIComponent(email_data.redirect_to)}`;
+
+  const recovery = email_data.email_action_type === "recovery";
+  const content = recovery
+    ? {
+        title: "Redefinição de senha",
+        body: "Para criar uma nova senha, acesse:",
+      }
+    : ACCOUNT_EMAILS[email_data.email_action_type] ?? {
+        title: "Confirme a ação na sua conta",
+        body: "Para continuar, acesse:",
+      };
+
+  const supabase = createClient(
+    supabaseUrl,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { error } = await supabase.from("outbound_messages").insert({
+    user_id: user.id,
+    channel: "email",
+    destination:
+      email_data.email_action_type === "email_change" && user.new_email
+        ? user.new_email
+        : user.email,
+    title: content.title,
+    body: content.body,
+    template: recovery ? "password_reset" : "account_email",
+    params: { url },
+  });
+
+  if (error) {
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  // O link expira logo: envia agora em vez de esperar o próximo agendamento.
+  // Se falhar, a mensagem continua na fila e é reenviada depois.
+  try {
+    await deliverPending(supabase);
+  } catch (err) {
+    console.error(err);
+  }
+
+  return Response.json({});
+});
@@ -0,0 +1,20 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { deliverPending } from "../_shared/delivery/deliver.ts";
+
+// Envia as mensagens pendentes de outbound_messages. Chamada a cada minuto
+// pelo job deliver-outbound-messages do pg_cron.
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  try {
+    return Response.json(await deliverPending(supabase));
+  } catch (err) {
+    return Response.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+});
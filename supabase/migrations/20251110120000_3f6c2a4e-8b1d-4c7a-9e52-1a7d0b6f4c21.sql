@@ -0,0 +1,109 @@
+-- Structured recurring schedule for classes
+ALTER TABLE public.classes
+  ADD COLUMN weekdays SMALLINT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN start_time TIME,
+  ADD COLUMN end_time TIME,
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo',
+  ADD COLUMN start_date DATE,
+  ADD COLUMN end_date DATE;
+
+-- The free-text schedule is kept only as a fallback label for rows that
+-- could not be parsed below
+ALTER TABLE public.classes ALTER COLUMN schedule DROP NOT NULL;
+
+ALTER TABLE public.classes
+  ADD CONSTRAINT classes_weekdays_check
+    CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  ADD CONSTRAINT classes_time_range_check
+    CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time),
+  ADD CONSTRAINT classes_date_range_check
+    CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date);
+
+-- Structured preferred schedule for demands
+ALTER TABLE public.demands
+  ADD COLUMN weekdays SMALLINT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN start_time TIME,
+  ADD COLUMN end_time TIME;
+
+ALTER TABLE public.demands ALTER COLUMN schedule DROP NOT NULL;
+
+ALTER TABLE public.demands
+  ADD CONSTRAINT demands_weekdays_check
+    CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  ADD CONSTRAINT demands_time_range_check
+    CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time);
+
+-- Parses labels like "Segunda e Quarta, 8h às 9h", "Seg a Sex 08:30 - 10:00"
+-- into weekdays (0 = domingo ... 6 = sábado) and a time range
+CREATE OR REPLACE FUNCTION public.parse_legacy_schedule(
+  _schedule TEXT,
+  OUT weekdays SMALLINT[],
+  OUT start_time TIME,
+  OUT end_time TIME
+)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _text TEXT := translate(lower(COALESCE(_schedule, '')), 'áç', 'ac');
+  _names TEXT[] := ARRAY['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sab'];
+  _day_pattern TEXT := '(domingo|segunda|terca|quarta|quinta|sexta|sabado|dom|seg|ter|qua|qui|sex|sab)(?:-feiras?|s)?';
+  _match TEXT[];
+  _from INT;
+  _to INT;
+  _days INT[] := '{}';
+  _times TIME[];
+BEGIN
+  FOR _match IN
+    SELECT regexp_matches(
+      _text,
+      '\m' || _day_pattern || '\M(?:\s+(?:a|ate)\s+' || _day_pattern || '\M)?',
+      'g'
+    )
+  LOOP
+    _from := array_position(_names, left(_match[1], 3)) - 1;
+    _to := COALESCE(array_position(_names, left(_match[2], 3)) - 1, _from);
+
+    IF _to < _from THEN
+      _to := _to + 7;
+    END IF;
+
+    SELECT _days || array_agg(d % 7)
+      INTO _days
+      FROM generate_series(_from, _to) AS d;
+  END LOOP;
+
+  SELECT COALESCE(array_agg(DISTINCT d ORDER BY d), '{}')
+    INTO weekdays
+    FROM unnest(_days) AS d;
+
+  SELECT array_agg(make_time(m[1]::INT, COALESCE(NULLIF(m[2], '')::INT, 0), 0) ORDER BY ord)
+    INTO _times
+    FROM regexp_matches(_text, '(\d{1,2})\s*(?:h|:)\s*(\d{2})?', 'g') WITH ORDINALITY AS t(m, ord)
+    WHERE m[1]::INT < 24 AND COALESCE(NULLIF(m[2], '')::INT, 0) < 60;
+
+  IF array_length(_times, 1) >= 2 AND _times[2] > _times[1] THEN
+    start_time := _times[1];
+    end_time := _times[2];
+  END IF;
+END;
+$$;
+
+UPDATE public.classes c
+SET weekdays = p.weekdays, start_time = p.start_time, end_time = p.end_time
+FROM public.classes src
+CROSS JOIN LATERAL public.parse_legacy_schedule(src.schedule) p
+WHERE c.id = src.id
+  AND cardinality(p.weekdays) > 0
+  AND p.start_time IS NOT NULL;
+
+UPDATE public.demands d
+SET weekdays = p.weekdays, start_time = p.start_time, end_time = p.end_time
+FROM public.demands src
+CROSS JOIN LATERAL public.parse_legacy_schedule(src.schedule) p
+WHERE d.id = src.id
+  AND cardinality(p.weekdays) > 0
+  AND p.start_time IS NOT NULL;
+
+DROP FUNCTION public.parse_legacy_schedule(TEXT);
@@ -0,0 +1,198 @@
+-- Concrete occurrences of each class, generated from its recurrence
+CREATE TYPE public.session_status AS ENUM ('scheduled', 'cancelled');
+
+CREATE TABLE public.class_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+  session_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  -- Recurrence date this session was generated for; NULL for one-off sessions.
+  -- Moving a session changes session_date but keeps original_date, so the
+  -- generator never recreates it.
+  original_date DATE,
+  status session_status NOT NULL DEFAULT 'scheduled',
+  cancellation_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (class_id, original_date),
+  CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time)
+);
+
+CREATE INDEX class_sessions_class_id_session_date_idx
+  ON public.class_sessions (class_id, session_date);
+
+ALTER TABLE public.class_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Class members can view sessions"
+  ON public.class_sessions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.enrollments
+      WHERE enrollments.class_id = class_sessions.class_id
+      AND enrollments.student_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM public.classes
+      JOIN public.professionals ON professionals.id = classes.professional_id
+      WHERE classes.id = class_sessions.class_id
+      AND professionals.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Professionals can manage sessions of their classes"
+  ON public.class_sessions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.classes
+      JOIN public.professionals ON professionals.id = classes.professional_id
+      WHERE classes.id = class_sessions.class_id
+      AND professionals.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER class_sessions_touch_updated_at
+  BEFORE UPDATE ON public.class_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- Creates the missing sessions of a class between _from (default: its start
+-- or creation date) and _until (default: eight weeks ahead). Idempotent:
+-- existing, moved and cancelled occurrences are left untouched.
+CREATE OR REPLACE FUNCTION public.generate_class_sessions(
+  _class_id UUID,
+  _from DATE DEFAULT NULL,
+  _until DATE DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _class public.classes;
+  _today DATE;
+  _start DATE;
+  _to DATE;
+  _inserted INTEGER;
+BEGIN
+  SELECT * INTO _class FROM public.classes WHERE id = _class_id;
+
+  IF NOT FOUND
+    OR cardinality(_class.weekdays) = 0
+    OR _class.start_time IS NULL
+    OR _class.end_time IS NULL
+  THEN
+    RETURN 0;
+  END IF;
+
+  _today := (now() AT TIME ZONE _class.timezone)::DATE;
+  _start := COALESCE(
+    _class.start_date,
+    (COALESCE(_class.created_at, now()) AT TIME ZONE _class.timezone)::DATE
+  );
+
+  IF _from IS NOT NULL AND _from > _start THEN
+    _start := _from;
+  END IF;
+
+  _to := COALESCE(_until, _today + 56);
+
+  IF _class.end_date IS NOT NULL AND _class.end_date < _to THEN
+    _to := _class.end_date;
+  END IF;
+
+  INSERT INTO public.class_sessions (
+    class_id, session_date, start_time, end_time, original_date
+  )
+  SELECT _class.id, d::DATE, _class.start_time, _class.end_time, d::DATE
+  FROM generate_series(_start, _to, INTERVAL '1 day') AS d
+  WHERE EXTRACT(DOW FROM d)::SMALLINT = ANY (_class.weekdays)
+  ON CONFLICT (class_id, original_date) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+  RETURN _inserted;
+END;
+$$;
+
+-- Keeps sessions in sync when a class is created or its recurrence changes.
+-- Future untouched sessions without attendance are regenerated from today on;
+-- past, moved, cancelled and one-off sessions are kept.
+CREATE OR REPLACE FUNCTION public.sync_class_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM public.class_sessions s
+    WHERE s.class_id = NEW.id
+      AND s.status = 'scheduled'
+      AND s.session_date = s.original_date
+      AND s.start_time IS NOT DISTINCT FROM OLD.start_time
+      AND s.end_time IS NOT DISTINCT FROM OLD.end_time
+      AND s.session_date >= (now() AT TIME ZONE NEW.timezone)::DATE
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance a WHERE a.session_id = s.id
+      );
+
+    PERFORM public.generate_class_sessions(
+      NEW.id,
+      (now() AT TIME ZONE NEW.timezone)::DATE
+    );
+  ELSE
+    PERFORM public.generate_class_sessions(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Attendance now belongs to a session instead of an arbitrary date
+ALTER TABLE public.attendance
+  ADD COLUMN session_id UUID REFERENCES public.class_sessions(id) ON DELETE CASCADE;
+
+CREATE TRIGGER on_class_schedule_changed
+  AFTER INSERT OR UPDATE OF weekdays, start_time, end_time, timezone, start_date, end_date
+  ON public.classes
+  FOR EACH ROW EXECUTE FUNCTION public.sync_class_sessions();
+
+-- Backfill: generate sessions for existing classes, then attach past
+-- attendance to them, creating one-off sessions for dates outside the
+-- recurrence
+SELECT public.generate_class_sessions(id) FROM public.classes;
+
+INSERT INTO public.class_sessions (class_id, session_date, start_time, end_time)
+SELECT DISTINCT e.class_id, a.date, c.start_time, c.end_time
+FROM public.attendance a
+JOIN public.enrollments e ON e.id = a.enrollment_id
+JOIN public.classes c ON c.id = e.class_id
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.class_sessions s
+  WHERE s.class_id = e.class_id AND s.session_date = a.date
+);
+
+UPDATE public.attendance a
+SET session_id = (
+  SELECT s.id FROM public.class_sessions s
+  JOIN public.enrollments e ON e.class_id = s.class_id
+  WHERE e.id = a.enrollment_id AND s.session_date = a.date
+  ORDER BY s.original_date NULLS LAST
+  LIMIT 1
+);
+
+ALTER TABLE public.attendance
+  ALTER COLUMN session_id SET NOT NULL,
+  DROP CONSTRAINT attendance_enrollment_id_date_key,
+  ADD CONSTRAINT attendance_enrollment_id_session_id_key UNIQUE (enrollment_id, session_id);
+
+CREATE INDEX attendance_session_id_idx ON public.attendance (session_id);
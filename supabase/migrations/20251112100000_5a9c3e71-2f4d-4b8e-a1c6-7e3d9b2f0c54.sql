@@ -0,0 +1,298 @@
+-- In-app notifications, written by database functions
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_created_at_idx
+  ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Waitlist for full classes
+CREATE TYPE public.waitlist_status AS ENUM (
+  'waiting',
+  'offered',
+  'accepted',
+  'expired',
+  'cancelled'
+);
+
+CREATE TABLE public.waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status waitlist_status NOT NULL DEFAULT 'waiting',
+  offered_at TIMESTAMPTZ,
+  offer_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- A student can only hold one open entry per class
+CREATE UNIQUE INDEX waitlist_entries_open_entry_key
+  ON public.waitlist_entries (class_id, student_id)
+  WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX waitlist_entries_queue_idx
+  ON public.waitlist_entries (class_id, created_at)
+  WHERE status = 'waiting';
+
+CREATE TRIGGER waitlist_entries_touch_updated_at
+  BEFORE UPDATE ON public.waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their waitlist entries"
+  ON public.waitlist_entries FOR SELECT
+  USING (auth.uid() = student_id);
+
+CREATE POLICY "Professionals can view waitlist of their classes"
+  ON public.waitlist_entries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.classes
+      JOIN public.professionals ON professionals.id = classes.professional_id
+      WHERE classes.id = waitlist_entries.class_id
+      AND professionals.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can join waitlists"
+  ON public.waitlist_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = student_id
+    AND status = 'waiting'
+    AND public.has_role(auth.uid(), 'student')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.enrollments
+      WHERE enrollments.class_id = waitlist_entries.class_id
+      AND enrollments.student_id = auth.uid()
+      AND enrollments.status = 'active'
+    )
+  );
+
+-- Expires stale offers and offers every free spot to the next students in
+-- line. Spots held by pending offers count as taken. Offers are expired
+-- lazily: this runs whenever a spot frees up and whenever the waitlist is
+-- read through class_waitlist_summary.
+CREATE OR REPLACE FUNCTION public.promote_waitlist(_class_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer_window CONSTANT INTERVAL := INTERVAL '24 hours';
+  _class public.classes;
+  _free INTEGER;
+  _offered INTEGER := 0;
+  _entry public.waitlist_entries;
+BEGIN
+  -- Serializes promotions and enrollments of the same class
+  SELECT * INTO _class FROM public.classes WHERE id = _class_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.waitlist_entries
+  SET status = 'expired'
+  WHERE class_id = _class_id
+    AND status = 'offered'
+    AND offer_expires_at <= now();
+
+  _free := _class.max_students
+    - (SELECT count(*) FROM public.enrollments
+       WHERE class_id = _class_id AND status = 'active')
+    - (SELECT count(*) FROM public.waitlist_entries
+       WHERE class_id = _class_id AND status = 'offered');
+
+  IF _free <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR _entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE class_id = _class_id AND status = 'waiting'
+    ORDER BY created_at, id
+    LIMIT _free
+  LOOP
+    UPDATE public.waitlist_entries
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = now() + _offer_window
+    WHERE id = _entry.id;
+
+    INSERT INTO public.notifications (user_id, type, title, body, link)
+    VALUES (
+      _entry.student_id,
+      'waitlist_offer',
+      'Vaga disponível em ' || _class.activity,
+      'Uma vaga foi liberada para você. Confirme sua matrícula em até 24 horas.',
+      '/turma-aluno/' || _class_id
+    );
+
+    _offered := _offered + 1;
+  END LOOP;
+
+  RETURN _offered;
+END;
+$$;
+
+-- Counts and the caller's own position, readable by any student even though
+-- enrollments and waitlist rows of others are hidden by RLS
+CREATE OR REPLACE FUNCTION public.class_waitlist_summary(_class_id UUID)
+RETURNS TABLE (
+  active_count INTEGER,
+  offered_count INTEGER,
+  waiting_count INTEGER,
+  my_status waitlist_status,
+  my_position INTEGER,
+  my_offer_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mine public.waitlist_entries;
+BEGIN
+  PERFORM public.promote_waitlist(_class_id);
+
+  SELECT * INTO _mine
+  FROM public.waitlist_entries
+  WHERE class_id = _class_id
+    AND student_id = auth.uid()
+    AND status IN ('waiting', 'offered');
+
+  RETURN QUERY
+  SELECT
+    (SELECT count(*) FROM public.enrollments e
+     WHERE e.class_id = _class_id AND e.status = 'active')::INTEGER,
+    (SELECT count(*) FROM public.waitlist_entries w
+     WHERE w.class_id = _class_id AND w.status = 'offered')::INTEGER,
+    (SELECT count(*) FROM public.waitlist_entries w
+     WHERE w.class_id = _class_id AND w.status = 'waiting')::INTEGER,
+    _mine.status,
+    CASE WHEN _mine.status = 'waiting' THEN
+      (SELECT count(*) FROM public.waitlist_entries w
+       WHERE w.class_id = _class_id
+         AND w.status = 'waiting'
+         AND (w.created_at, w.id) <= (_mine.created_at, _mine.id))::INTEGER
+    END,
+    _mine.offer_expires_at;
+END;
+$$;
+
+-- Turns the caller's pending offer into an active enrollment
+CREATE OR REPLACE FUNCTION public.accept_waitlist_offer(_class_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.waitlist_entries;
+  _enrollment_id UUID;
+BEGIN
+  PERFORM 1 FROM public.classes WHERE id = _class_id FOR UPDATE;
+
+  SELECT * INTO _entry
+  FROM public.waitlist_entries
+  WHERE class_id = _class_id
+    AND student_id = auth.uid()
+    AND status = 'offered'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'waitlist_offer_not_found';
+  END IF;
+
+  IF _entry.offer_expires_at <= now() THEN
+    RAISE EXCEPTION 'waitlist_offer_expired';
+  END IF;
+
+  INSERT INTO public.enrollments (class_id, student_id, status)
+  VALUES (_class_id, _entry.student_id, 'active')
+  ON CONFLICT (class_id, student_id) DO UPDATE SET status = 'active'
+  RETURNING id INTO _enrollment_id;
+
+  UPDATE public.waitlist_entries SET status = 'accepted' WHERE id = _entry.id;
+
+  RETURN _enrollment_id;
+END;
+$$;
+
+-- Leaves the waitlist, handing a pending offer to the next student
+CREATE OR REPLACE FUNCTION public.leave_waitlist(_class_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.waitlist_entries
+  SET status = 'cancelled'
+  WHERE class_id = _class_id
+    AND student_id = auth.uid()
+    AND status IN ('waiting', 'offered');
+
+  PERFORM public.promote_waitlist(_class_id);
+END;
+$$;
+
+-- Automatic promotion when a spot frees up
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_enrollment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'active'
+    AND (TG_OP = 'DELETE' OR NEW.status IS DISTINCT FROM 'active')
+  THEN
+    PERFORM public.promote_waitlist(OLD.class_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_enrollment_released
+  AFTER UPDATE OF status OR DELETE ON public.enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.promote_waitlist_on_enrollment_change();
+
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.max_students > OLD.max_students THEN
+    PERFORM public.promote_waitlist(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_class_capacity_raised
+  AFTER UPDATE OF max_students ON public.classes
+  FOR EACH ROW EXECUTE FUNCTION public.promote_waitlist_on_capacity_change();
@@ -0,0 +1,81 @@
+-- Enrollments go through enroll_in_class, which checks capacity while holding
+-- a lock on the class. Direct inserts would bypass those checks.
+DROP POLICY "Students can enroll in classes" ON public.enrollments;
+
+-- Enrolls the caller in a class. Errors are raised as codes that the app maps
+-- to user-facing messages.
+CREATE OR REPLACE FUNCTION public.enroll_in_class(_class_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _class public.classes;
+  _student public.students;
+  _taken INTEGER;
+  _enrollment_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_user_id, 'student') THEN
+    RAISE EXCEPTION 'not_a_student';
+  END IF;
+
+  SELECT * INTO _student FROM public.students WHERE user_id = _user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'student_profile_missing';
+  END IF;
+
+  -- Same rule as the registration form: over 60 needs a health certificate
+  IF _student.birth_date <= (CURRENT_DATE - INTERVAL '61 years')
+    AND COALESCE(_student.health_certificate_url, '') = ''
+  THEN
+    RAISE EXCEPTION 'health_certificate_required';
+  END IF;
+
+  -- Serializes enrollments and waitlist promotions of the same class
+  SELECT * INTO _class FROM public.classes WHERE id = _class_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'class_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE class_id = _class_id
+      AND student_id = _user_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'already_enrolled';
+  END IF;
+
+  -- Spots offered to other students on the waitlist count as taken
+  _taken := (SELECT count(*) FROM public.enrollments
+             WHERE class_id = _class_id AND status = 'active')
+    + (SELECT count(*) FROM public.waitlist_entries
+       WHERE class_id = _class_id
+         AND status = 'offered'
+         AND offer_expires_at > now()
+         AND student_id <> _user_id);
+
+  IF _taken >= _class.max_students THEN
+    RAISE EXCEPTION 'class_full';
+  END IF;
+
+  INSERT INTO public.enrollments (class_id, student_id, status)
+  VALUES (_class_id, _user_id, 'active')
+  ON CONFLICT (class_id, student_id) DO UPDATE SET status = 'active'
+  RETURNING id INTO _enrollment_id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'accepted'
+  WHERE class_id = _class_id
+    AND student_id = _user_id
+    AND status IN ('waiting', 'offered');
+
+  RETURN _enrollment_id;
+END;
+$$;
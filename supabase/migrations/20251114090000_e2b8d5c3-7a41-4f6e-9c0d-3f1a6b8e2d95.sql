@@ -0,0 +1,529 @@
+-- Enrollment lifecycle: active, paused for a few weeks, cancelled by the
+-- student or transferred to another class of the same professional
+CREATE TYPE public.enrollment_status AS ENUM (
+  'active',
+  'paused',
+  'cancelled',
+  'transferred'
+);
+
+-- Objects that depend on enrollments.status must be dropped before the type
+-- change and are recreated below
+DROP POLICY "Students can join waitlists" ON public.waitlist_entries;
+DROP TRIGGER on_enrollment_released ON public.enrollments;
+
+UPDATE public.enrollments SET status = 'active' WHERE status IS NULL;
+UPDATE public.enrollments
+SET status = 'cancelled'
+WHERE status NOT IN ('active', 'paused', 'cancelled', 'transferred');
+
+ALTER TABLE public.enrollments
+  ALTER COLUMN status DROP DEFAULT,
+  ALTER COLUMN status TYPE enrollment_status USING status::enrollment_status,
+  ALTER COLUMN status SET DEFAULT 'active',
+  ALTER COLUMN status SET NOT NULL,
+  ADD COLUMN paused_until DATE,
+  ADD COLUMN transferred_to_class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+  ADD COLUMN status_reason TEXT,
+  ADD COLUMN status_changed_at TIMESTAMPTZ DEFAULT now();
+
+CREATE POLICY "Students can join waitlists"
+  ON public.waitlist_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = student_id
+    AND status = 'waiting'
+    AND public.has_role(auth.uid(), 'student')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.enrollments
+      WHERE enrollments.class_id = waitlist_entries.class_id
+      AND enrollments.student_id = auth.uid()
+      AND enrollments.status IN ('active', 'paused')
+    )
+  );
+
+-- Status history, written by trigger on every status change
+CREATE TABLE public.enrollment_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE CASCADE NOT NULL,
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  from_status enrollment_status,
+  to_status enrollment_status NOT NULL,
+  reason TEXT,
+  paused_until DATE,
+  transferred_to_class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX enrollment_status_history_class_id_idx
+  ON public.enrollment_status_history (class_id, created_at DESC);
+
+ALTER TABLE public.enrollment_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their enrollment history"
+  ON public.enrollment_status_history FOR SELECT
+  USING (auth.uid() = student_id);
+
+CREATE POLICY "Professionals can view enrollment history of their classes"
+  ON public.enrollment_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.classes
+      JOIN public.professionals ON professionals.id = classes.professional_id
+      WHERE classes.id = enrollment_status_history.class_id
+      AND professionals.user_id = auth.uid()
+    )
+  );
+
+-- Clears details that only make sense for the previous status
+CREATE OR REPLACE FUNCTION public.prepare_enrollment_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+
+    IF NEW.status <> 'paused' THEN
+      NEW.paused_until := NULL;
+    END IF;
+
+    IF NEW.status <> 'transferred' THEN
+      NEW.transferred_to_class_id := NULL;
+    END IF;
+
+    IF NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason THEN
+      NEW.status_reason := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enrollments_prepare_status_change
+  BEFORE UPDATE OF status ON public.enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_enrollment_status_change();
+
+CREATE OR REPLACE FUNCTION public.log_enrollment_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.enrollment_status_history (
+      enrollment_id,
+      class_id,
+      student_id,
+      from_status,
+      to_status,
+      reason,
+      paused_until,
+      transferred_to_class_id,
+      changed_by
+    )
+    VALUES (
+      NEW.id,
+      NEW.class_id,
+      NEW.student_id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      NEW.status_reason,
+      NEW.paused_until,
+      NEW.transferred_to_class_id,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_enrollment_status_changed
+  AFTER INSERT OR UPDATE OF status ON public.enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.log_enrollment_status_change();
+
+-- Existing enrollments start their history at the enrollment date
+INSERT INTO public.enrollment_status_history (
+  enrollment_id, class_id, student_id, to_status, created_at
+)
+SELECT id, class_id, student_id, status, created_at
+FROM public.enrollments;
+
+-- Paused students keep their spot
+CREATE OR REPLACE FUNCTION public.class_enrolled_count(_class_id UUID)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.enrollments
+  WHERE class_id = _class_id AND status IN ('active', 'paused')
+$$;
+
+CREATE OR REPLACE FUNCTION public.promote_waitlist(_class_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer_window CONSTANT INTERVAL := INTERVAL '24 hours';
+  _class public.classes;
+  _free INTEGER;
+  _offered INTEGER := 0;
+  _entry public.waitlist_entries;
+BEGIN
+  -- Serializes promotions and enrollments of the same class
+  SELECT * INTO _class FROM public.classes WHERE id = _class_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.waitlist_entries
+  SET status = 'expired'
+  WHERE class_id = _class_id
+    AND status = 'offered'
+    AND offer_expires_at <= now();
+
+  _free := _class.max_students
+    - public.class_enrolled_count(_class_id)
+    - (SELECT count(*) FROM public.waitlist_entries
+       WHERE class_id = _class_id AND status = 'offered');
+
+  IF _free <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR _entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE class_id = _class_id AND status = 'waiting'
+    ORDER BY created_at, id
+    LIMIT _free
+  LOOP
+    UPDATE public.waitlist_entries
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = now() + _offer_window
+    WHERE id = _entry.id;
+
+    INSERT INTO public.notifications (user_id, type, title, body, link)
+    VALUES (
+      _entry.student_id,
+      'waitlist_offer',
+      'Vaga disponível em ' || _class.activity,
+      'Uma vaga foi liberada para você. Confirme sua matrícula em até 24 horas.',
+      '/turma-aluno/' || _class_id
+    );
+
+    _offered := _offered + 1;
+  END LOOP;
+
+  RETURN _offered;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.class_waitlist_summary(_class_id UUID)
+RETURNS TABLE (
+  active_count INTEGER,
+  offered_count INTEGER,
+  waiting_count INTEGER,
+  my_status waitlist_status,
+  my_position INTEGER,
+  my_offer_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mine public.waitlist_entries;
+BEGIN
+  PERFORM public.promote_waitlist(_class_id);
+
+  SELECT * INTO _mine
+  FROM public.waitlist_entries
+  WHERE class_id = _class_id
+    AND student_id = auth.uid()
+    AND status IN ('waiting', 'offered');
+
+  RETURN QUERY
+  SELECT
+    public.class_enrolled_count(_class_id),
+    (SELECT count(*) FROM public.waitlist_entries w
+     WHERE w.class_id = _class_id AND w.status = 'offered')::INTEGER,
+    (SELECT count(*) FROM public.waitlist_entries w
+     WHERE w.class_id = _class_id AND w.status = 'waiting')::INTEGER,
+    _mine.status,
+    CASE WHEN _mine.status = 'waiting' THEN
+      (SELECT count(*) FROM public.waitlist_entries w
+       WHERE w.class_id = _class_id
+         AND w.status = 'waiting'
+         AND (w.created_at, w.id) <= (_mine.created_at, _mine.id))::INTEGER
+    END,
+    _mine.offer_expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enroll_in_class(_class_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _class public.classes;
+  _student public.students;
+  _taken INTEGER;
+  _enrollment_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(_user_id, 'student') THEN
+    RAISE EXCEPTION 'not_a_student';
+  END IF;
+
+  SELECT * INTO _student FROM public.students WHERE user_id = _user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'student_profile_missing';
+  END IF;
+
+  -- Same rule as the registration form: over 60 needs a health certificate
+  IF _student.birth_date <= (CURRENT_DATE - INTERVAL '61 years')
+    AND COALESCE(_student.health_certificate_url, '') = ''
+  THEN
+    RAISE EXCEPTION 'health_certificate_required';
+  END IF;
+
+  -- Serializes enrollments and waitlist promotions of the same class
+  SELECT * INTO _class FROM public.classes WHERE id = _class_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'class_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE class_id = _class_id
+      AND student_id = _user_id
+      AND status IN ('active', 'paused')
+  ) THEN
+    RAISE EXCEPTION 'already_enrolled';
+  END IF;
+
+  -- Spots offered to other students on the waitlist count as taken
+  _taken := public.class_enrolled_count(_class_id)
+    + (SELECT count(*) FROM public.waitlist_entries
+       WHERE class_id = _class_id
+         AND status = 'offered'
+         AND offer_expires_at > now()
+         AND student_id <> _user_id);
+
+  IF _taken >= _class.max_students THEN
+    RAISE EXCEPTION 'class_full';
+  END IF;
+
+  INSERT INTO public.enrollments (class_id, student_id, status)
+  VALUES (_class_id, _user_id, 'active')
+  ON CONFLICT (class_id, student_id) DO UPDATE SET status = 'active'
+  RETURNING id INTO _enrollment_id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'accepted'
+  WHERE class_id = _class_id
+    AND student_id = _user_id
+    AND status IN ('waiting', 'offered');
+
+  RETURN _enrollment_id;
+END;
+$$;
+
+-- A spot frees up only when the student leaves; pausing keeps it
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_enrollment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IN ('active', 'paused')
+    AND (TG_OP = 'DELETE' OR NEW.status NOT IN ('active', 'paused'))
+  THEN
+    PERFORM public.promote_waitlist(OLD.class_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_enrollment_released
+  AFTER UPDATE OF status OR DELETE ON public.enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.promote_waitlist_on_enrollment_change();
+
+-- Student self-service actions. All of them lock the caller's enrollment and
+-- raise codes that the app maps to user-facing messages.
+CREATE OR REPLACE FUNCTION public.lock_own_enrollment(_enrollment_id UUID)
+RETURNS public.enrollments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enrollment public.enrollments;
+BEGIN
+  SELECT * INTO _enrollment
+  FROM public.enrollments
+  WHERE id = _enrollment_id AND student_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'enrollment_not_found';
+  END IF;
+
+  RETURN _enrollment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_enrollment(
+  _enrollment_id UUID,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enrollment public.enrollments := public.lock_own_enrollment(_enrollment_id);
+BEGIN
+  IF _enrollment.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'enrollment_not_active';
+  END IF;
+
+  UPDATE public.enrollments
+  SET status = 'cancelled',
+      status_reason = NULLIF(trim(_reason), '')
+  WHERE id = _enrollment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.pause_enrollment(
+  _enrollment_id UUID,
+  _weeks INTEGER,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS DATE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_weeks CONSTANT INTEGER := 12;
+  _enrollment public.enrollments := public.lock_own_enrollment(_enrollment_id);
+  _until DATE;
+BEGIN
+  IF _enrollment.status <> 'active' THEN
+    RAISE EXCEPTION 'enrollment_not_active';
+  END IF;
+
+  IF _weeks IS NULL OR _weeks < 1 OR _weeks > _max_weeks THEN
+    RAISE EXCEPTION 'invalid_pause_length';
+  END IF;
+
+  _until := CURRENT_DATE + _weeks * 7;
+
+  UPDATE public.enrollments
+  SET status = 'paused',
+      paused_until = _until,
+      status_reason = NULLIF(trim(_reason), '')
+  WHERE id = _enrollment_id;
+
+  RETURN _until;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resume_enrollment(_enrollment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enrollment public.enrollments := public.lock_own_enrollment(_enrollment_id);
+BEGIN
+  IF _enrollment.status <> 'paused' THEN
+    RAISE EXCEPTION 'enrollment_not_paused';
+  END IF;
+
+  UPDATE public.enrollments SET status = 'active' WHERE id = _enrollment_id;
+END;
+$$;
+
+-- Pauses end lazily: the app calls this when listing enrollments
+CREATE OR REPLACE FUNCTION public.resume_due_enrollments()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _resumed INTEGER;
+BEGIN
+  UPDATE public.enrollments
+  SET status = 'active'
+  WHERE status = 'paused' AND paused_until <= CURRENT_DATE;
+
+  GET DIAGNOSTICS _resumed = ROW_COUNT;
+  RETURN _resumed;
+END;
+$$;
+
+-- Moves the caller to another class of the same professional. The new
+-- enrollment goes through enroll_in_class, so capacity is enforced there and
+-- any error rolls the whole transfer back.
+CREATE OR REPLACE FUNCTION public.transfer_enrollment(
+  _enrollment_id UUID,
+  _to_class_id UUID,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enrollment public.enrollments := public.lock_own_enrollment(_enrollment_id);
+BEGIN
+  IF _enrollment.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'enrollment_not_active';
+  END IF;
+
+  IF _to_class_id = _enrollment.class_id THEN
+    RAISE EXCEPTION 'transfer_same_class';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes target
+    JOIN public.classes origin ON origin.id = _enrollment.class_id
+    WHERE target.id = _to_class_id
+      AND target.professional_id = origin.professional_id
+  ) THEN
+    RAISE EXCEPTION 'transfer_other_professional';
+  END IF;
+
+  UPDATE public.enrollments
+  SET status = 'transferred',
+      transferred_to_class_id = _to_class_id,
+      status_reason = NULLIF(trim(_reason), '')
+  WHERE id = _enrollment_id;
+
+  RETURN public.enroll_in_class(_to_class_id);
+END;
+$$;
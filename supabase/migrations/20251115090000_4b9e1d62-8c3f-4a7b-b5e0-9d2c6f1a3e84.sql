@@ -0,0 +1,37 @@
+-- Category and level chosen in the class form
+CREATE TYPE public.class_category AS ENUM (
+  'outdoor',
+  'yoga',
+  'gym',
+  'pilates',
+  'water',
+  'dance',
+  'stretch'
+);
+
+CREATE TYPE public.class_level AS ENUM (
+  'beginner',
+  'intermediate',
+  'advanced',
+  'all_levels'
+);
+
+ALTER TABLE public.classes
+  ADD COLUMN category class_category,
+  ADD COLUMN level class_level NOT NULL DEFAULT 'all_levels';
+
+-- Best effort for existing classes, based on the activity name. Classes that
+-- match nothing stay without a category until the professional edits them.
+UPDATE public.classes
+SET category = CASE
+  WHEN activity ILIKE '%yoga%' OR activity ILIKE '%ioga%' THEN 'yoga'
+  WHEN activity ILIKE '%pilates%' THEN 'pilates'
+  WHEN activity ILIKE '%hidro%' OR activity ILIKE '%nata%' THEN 'water'
+  WHEN activity ILIKE '%muscula%' OR activity ILIKE '%academia%' THEN 'gym'
+  WHEN activity ILIKE '%dan%a%' OR activity ILIKE '%zumba%' OR activity ILIKE '%forr%' THEN 'dance'
+  WHEN activity ILIKE '%along%' THEN 'stretch'
+  WHEN activity ILIKE '%caminhada%' OR activity ILIKE '%corrida%' OR activity ILIKE '%ar livre%' THEN 'outdoor'
+END::class_category;
+
+CREATE INDEX classes_category_idx ON public.classes (category);
+CREATE INDEX classes_level_idx ON public.classes (level);
@@ -0,0 +1,213 @@
+-- Archived classes are hidden from search but keep their sessions,
+-- enrollments, attendance and payments
+ALTER TABLE public.classes
+  ADD COLUMN archived_at TIMESTAMPTZ,
+  ADD COLUMN duplicated_from_id UUID REFERENCES public.classes(id) ON DELETE SET NULL;
+
+CREATE INDEX classes_active_idx ON public.classes (created_at DESC)
+  WHERE archived_at IS NULL;
+
+-- No new sessions for archived classes
+CREATE OR REPLACE FUNCTION public.generate_class_sessions(
+  _class_id UUID,
+  _from DATE DEFAULT NULL,
+  _until DATE DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _class public.classes;
+  _today DATE;
+  _start DATE;
+  _to DATE;
+  _inserted INTEGER;
+BEGIN
+  SELECT * INTO _class FROM public.classes WHERE id = _class_id;
+
+  IF NOT FOUND
+    OR _class.archived_at IS NOT NULL
+    OR cardinality(_class.weekdays) = 0
+    OR _class.start_time IS NULL
+    OR _class.end_time IS NULL
+  THEN
+    RETURN 0;
+  END IF;
+
+  _today := (now() AT TIME ZONE _class.timezone)::DATE;
+  _start := COALESCE(
+    _class.start_date,
+    (COALESCE(_class.created_at, now()) AT TIME ZONE _class.timezone)::DATE
+  );
+
+  IF _from IS NOT NULL AND _from > _start THEN
+    _start := _from;
+  END IF;
+
+  _to := COALESCE(_until, _today + 56);
+
+  IF _class.end_date IS NOT NULL AND _class.end_date < _to THEN
+    _to := _class.end_date;
+  END IF;
+
+  INSERT INTO public.class_sessions (
+    class_id, session_date, start_time, end_time, original_date
+  )
+  SELECT _class.id, d::DATE, _class.start_time, _class.end_time, d::DATE
+  FROM generate_series(_start, _to, INTERVAL '1 day') AS d
+  WHERE EXTRACT(DOW FROM d)::SMALLINT = ANY (_class.weekdays)
+  ON CONFLICT (class_id, original_date) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+  RETURN _inserted;
+END;
+$$;
+
+-- Capacity can't drop below the students currently holding a spot
+CREATE OR REPLACE FUNCTION public.check_class_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.max_students < public.class_enrolled_count(NEW.id) THEN
+    RAISE EXCEPTION 'capacity_below_enrolled';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER classes_check_capacity
+  BEFORE UPDATE OF max_students ON public.classes
+  FOR EACH ROW
+  WHEN (NEW.max_students < OLD.max_students)
+  EXECUTE FUNCTION public.check_class_capacity();
+
+-- New enrollments are only accepted while the class is open
+CREATE OR REPLACE FUNCTION public.check_class_open_for_enrollment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'active'
+    AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('active', 'paused'))
+    AND EXISTS (
+      SELECT 1 FROM public.classes
+      WHERE id = NEW.class_id AND archived_at IS NOT NULL
+    )
+  THEN
+    RAISE EXCEPTION 'class_archived';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enrollments_check_class_open
+  BEFORE INSERT OR UPDATE OF status ON public.enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.check_class_open_for_enrollment();
+
+DROP POLICY "Students can join waitlists" ON public.waitlist_entries;
+
+CREATE POLICY "Students can join waitlists"
+  ON public.waitlist_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = student_id
+    AND status = 'waiting'
+    AND public.has_role(auth.uid(), 'student')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.enrollments
+      WHERE enrollments.class_id = waitlist_entries.class_id
+      AND enrollments.student_id = auth.uid()
+      AND enrollments.status IN ('active', 'paused')
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.classes
+      WHERE classes.id = waitlist_entries.class_id
+      AND classes.archived_at IS NULL
+    )
+  );
+
+-- Archiving clears the future agenda and the waitlist; restoring brings the
+-- agenda back. Students holding a spot are notified of archiving and of
+-- changes to price, location or schedule.
+CREATE OR REPLACE FUNCTION public.handle_class_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today DATE := (now() AT TIME ZONE NEW.timezone)::DATE;
+  _changes TEXT[] := '{}';
+  _title TEXT;
+  _body TEXT;
+BEGIN
+  IF NEW.archived_at IS NOT NULL AND OLD.archived_at IS NULL THEN
+    DELETE FROM public.class_sessions s
+    WHERE s.class_id = NEW.id
+      AND s.status = 'scheduled'
+      AND s.session_date >= _today
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance a WHERE a.session_id = s.id
+      );
+
+    UPDATE public.waitlist_entries
+    SET status = 'cancelled'
+    WHERE class_id = NEW.id AND status IN ('waiting', 'offered');
+
+    _title := 'Turma encerrada: ' || NEW.activity;
+    _body := 'O professor arquivou esta turma. Seu histórico de presença e pagamentos continua disponível.';
+  ELSIF NEW.archived_at IS NULL AND OLD.archived_at IS NOT NULL THEN
+    PERFORM public.generate_class_sessions(NEW.id, _today);
+    RETURN NULL;
+  ELSIF NEW.archived_at IS NULL THEN
+    IF NEW.price IS DISTINCT FROM OLD.price THEN
+      _changes := _changes || ('Novo valor: R$ ' || replace(to_char(NEW.price, 'FM999999990.00'), '.', ','));
+    END IF;
+
+    IF NEW.location IS DISTINCT FROM OLD.location THEN
+      _changes := _changes || ('Novo local: ' || NEW.location);
+    END IF;
+
+    IF NEW.weekdays IS DISTINCT FROM OLD.weekdays
+      OR NEW.start_time IS DISTINCT FROM OLD.start_time
+      OR NEW.end_time IS DISTINCT FROM OLD.end_time
+      OR NEW.timezone IS DISTINCT FROM OLD.timezone
+      OR NEW.start_date IS DISTINCT FROM OLD.start_date
+      OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    THEN
+      _changes := _changes || 'Novo horário'::TEXT;
+    END IF;
+
+    IF cardinality(_changes) = 0 THEN
+      RETURN NULL;
+    END IF;
+
+    _title := 'Mudanças na turma ' || NEW.activity;
+    _body := array_to_string(_changes, '. ') || '.';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT e.student_id,
+         CASE WHEN NEW.archived_at IS NULL THEN 'class_updated' ELSE 'class_archived' END,
+         _title,
+         _body,
+         '/turma-aluno/' || NEW.id
+  FROM public.enrollments e
+  WHERE e.class_id = NEW.id AND e.status IN ('active', 'paused');
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_class_updated
+  AFTER UPDATE ON public.classes
+  FOR EACH ROW EXECUTE FUNCTION public.handle_class_changes();
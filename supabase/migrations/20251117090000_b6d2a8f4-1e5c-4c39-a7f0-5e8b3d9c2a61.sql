@@ -0,0 +1,224 @@
+-- Ratings and reviews left by students who attended a class
+CREATE TABLE public.class_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+  professional_id UUID REFERENCES public.professionals(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Student records are private, so the first name is copied on submission
+  author_name TEXT NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  reply TEXT,
+  replied_at TIMESTAMPTZ,
+  hidden_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(class_id, student_id)
+);
+
+CREATE INDEX class_reviews_professional_id_idx
+  ON public.class_reviews (professional_id);
+
+CREATE TRIGGER class_reviews_touch_updated_at
+  BEFORE UPDATE ON public.class_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.class_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Reviews are written through submit_class_review and reply_to_review
+CREATE POLICY "Anyone can view visible reviews"
+  ON public.class_reviews FOR SELECT
+  USING (hidden_at IS NULL);
+
+CREATE POLICY "Students can view their own reviews"
+  ON public.class_reviews FOR SELECT
+  USING (auth.uid() = student_id);
+
+CREATE POLICY "Professionals can view reviews of their classes"
+  ON public.class_reviews FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.professionals
+      WHERE professionals.id = class_reviews.professional_id
+      AND professionals.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all reviews"
+  ON public.class_reviews FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can moderate reviews"
+  ON public.class_reviews FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Abuse reports. Reviews with enough reports are hidden until an admin
+-- reviews them.
+CREATE TABLE public.review_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES public.class_reviews(id) ON DELETE CASCADE NOT NULL,
+  reporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(review_id, reporter_id)
+);
+
+ALTER TABLE public.review_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report reviews"
+  ON public.review_reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.class_reviews
+      WHERE class_reviews.id = review_reports.review_id
+      AND class_reviews.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their own reports"
+  ON public.review_reports FOR SELECT
+  USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Admins can view all reports"
+  ON public.review_reports FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.hide_reported_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reports_to_hide CONSTANT INTEGER := 3;
+BEGIN
+  IF (SELECT count(*) FROM public.review_reports WHERE review_id = NEW.review_id)
+    >= _reports_to_hide
+  THEN
+    UPDATE public.class_reviews
+    SET hidden_at = now()
+    WHERE id = NEW.review_id AND hidden_at IS NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_review_reported
+  AFTER INSERT ON public.review_reports
+  FOR EACH ROW EXECUTE FUNCTION public.hide_reported_review();
+
+-- Presences the caller needs in a class before reviewing it
+CREATE OR REPLACE FUNCTION public.class_review_eligibility(_class_id UUID)
+RETURNS TABLE (
+  can_review BOOLEAN,
+  presences INTEGER,
+  required_presences INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH counted AS (
+    SELECT count(*)::INTEGER AS presences
+    FROM public.attendance a
+    JOIN public.enrollments e ON e.id = a.enrollment_id
+    WHERE e.class_id = _class_id
+      AND e.student_id = auth.uid()
+      AND a.present
+  )
+  SELECT counted.presences >= 3, counted.presences, 3
+  FROM counted
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_class_review(
+  _class_id UUID,
+  _rating INTEGER,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _review_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF _rating IS NULL OR _rating < 1 OR _rating > 5 THEN
+    RAISE EXCEPTION 'invalid_rating';
+  END IF;
+
+  IF NOT (SELECT can_review FROM public.class_review_eligibility(_class_id)) THEN
+    RAISE EXCEPTION 'review_not_allowed';
+  END IF;
+
+  INSERT INTO public.class_reviews (
+    class_id, professional_id, student_id, author_name, rating, comment
+  )
+  SELECT c.id,
+         c.professional_id,
+         auth.uid(),
+         COALESCE(NULLIF(split_part(trim(s.full_name), ' ', 1), ''), 'Aluno'),
+         _rating,
+         NULLIF(trim(_comment), '')
+  FROM public.classes c
+  LEFT JOIN public.students s ON s.user_id = auth.uid()
+  WHERE c.id = _class_id
+  ON CONFLICT (class_id, student_id) DO UPDATE
+  SET author_name = EXCLUDED.author_name,
+      rating = EXCLUDED.rating,
+      comment = EXCLUDED.comment
+  RETURNING id INTO _review_id;
+
+  RETURN _review_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reply_to_review(_review_id UUID, _reply TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.class_reviews r
+  SET reply = NULLIF(trim(_reply), ''),
+      replied_at = CASE WHEN NULLIF(trim(_reply), '') IS NULL THEN NULL ELSE now() END
+  FROM public.professionals p
+  WHERE r.id = _review_id
+    AND p.id = r.professional_id
+    AND p.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'review_not_found';
+  END IF;
+END;
+$$;
+
+-- Averages over visible reviews
+CREATE VIEW public.class_rating_summary AS
+SELECT
+  class_id,
+  count(*)::INTEGER AS review_count,
+  round(avg(rating), 1) AS average_rating
+FROM public.class_reviews
+WHERE hidden_at IS NULL
+GROUP BY class_id;
+
+CREATE VIEW public.professional_rating_summary AS
+SELECT
+  professional_id,
+  count(*)::INTEGER AS review_count,
+  round(avg(rating), 1) AS average_rating
+FROM public.class_reviews
+WHERE hidden_at IS NULL
+GROUP BY professional_id;
+
+GRANT SELECT ON public.class_rating_summary TO anon, authenticated;
+GRANT SELECT ON public.professional_rating_summary TO anon, authenticated;
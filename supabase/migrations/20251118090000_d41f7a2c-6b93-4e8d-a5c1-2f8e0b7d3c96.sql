@@ -0,0 +1,33 @@
+-- Extra fields shown on the public professional profile
+ALTER TABLE public.professionals
+  ADD COLUMN bio TEXT,
+  ADD COLUMN certifications TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN experience_years SMALLINT CHECK (experience_years BETWEEN 0 AND 80),
+  ADD COLUMN cref_verified_at TIMESTAMPTZ;
+
+-- Only admins (or the service role) verify a CREF. Changing the CREF number
+-- drops the verification.
+CREATE OR REPLACE FUNCTION public.protect_cref_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.cref IS DISTINCT FROM OLD.cref THEN
+    NEW.cref_verified_at := NULL;
+  ELSE
+    NEW.cref_verified_at := OLD.cref_verified_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER professionals_protect_cref_verification
+  BEFORE INSERT OR UPDATE ON public.professionals
+  FOR EACH ROW EXECUTE FUNCTION public.protect_cref_verification();
@@ -0,0 +1,64 @@
+-- Coordinates for classes and demands, geocoded from address + neighborhood
+ALTER TABLE public.classes
+  ADD COLUMN neighborhood TEXT,
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT classes_coordinates_check
+    CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+ALTER TABLE public.demands
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT demands_coordinates_check
+    CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+CREATE INDEX classes_coordinates_idx ON public.classes (latitude, longitude)
+  WHERE archived_at IS NULL AND latitude IS NOT NULL;
+
+CREATE INDEX demands_coordinates_idx ON public.demands (latitude, longitude)
+  WHERE latitude IS NOT NULL;
+
+-- Great-circle distance in kilometers (haversine)
+CREATE OR REPLACE FUNCTION public.distance_km(
+  _lat1 DOUBLE PRECISION,
+  _lon1 DOUBLE PRECISION,
+  _lat2 DOUBLE PRECISION,
+  _lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2))
+      * power(sin(radians(_lon2 - _lon1) / 2), 2)
+  ))
+$$;
+
+-- Open classes within _radius_km of a point, nearest first. The bounding box
+-- lets the coordinates index discard far away rows before the exact distance.
+CREATE OR REPLACE FUNCTION public.search_classes_nearby(
+  _latitude DOUBLE PRECISION,
+  _longitude DOUBLE PRECISION,
+  _radius_km DOUBLE PRECISION DEFAULT 10
+)
+RETURNS TABLE (class_id UUID, distance_km DOUBLE PRECISION)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.id, d.km
+  FROM public.classes c
+  CROSS JOIN LATERAL (
+    SELECT public.distance_km(_latitude, _longitude, c.latitude, c.longitude) AS km
+  ) d
+  WHERE c.archived_at IS NULL
+    AND c.latitude BETWEEN _latitude - _radius_km / 111.0
+                       AND _latitude + _radius_km / 111.0
+    AND c.longitude BETWEEN _longitude - _radius_km / (111.0 * greatest(cos(radians(_latitude)), 0.01))
+                        AND _longitude + _radius_km / (111.0 * greatest(cos(radians(_latitude)), 0.01))
+    AND d.km <= _radius_km
+  ORDER BY d.km
+$$;
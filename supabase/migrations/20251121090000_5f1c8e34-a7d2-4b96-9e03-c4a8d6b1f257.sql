@@ -0,0 +1,183 @@
+-- Demands posted by students. num_interested is no longer typed in: it is the
+-- number of rows in demand_interests, kept in sync by a trigger.
+ALTER TABLE public.demands
+  ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN category class_category,
+  ADD COLUMN last_interest_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- The sample rows from the first migration have no real students behind them
+DELETE FROM public.demands d
+WHERE NOT EXISTS (SELECT 1 FROM public.classes c WHERE c.demand_id = d.id);
+
+UPDATE public.demands SET num_interested = 0;
+
+CREATE INDEX demands_last_interest_at_idx
+  ON public.demands (last_interest_at DESC)
+  WHERE num_interested > 0;
+
+CREATE TABLE public.demand_interests (
+  demand_id UUID REFERENCES public.demands(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (demand_id, student_id)
+);
+
+CREATE INDEX demand_interests_student_id_idx
+  ON public.demand_interests (student_id);
+
+ALTER TABLE public.demand_interests ENABLE ROW LEVEL SECURITY;
+
+-- Who is interested stays private; professionals only see the count
+CREATE POLICY "Students can view their own interests"
+  ON public.demand_interests FOR SELECT
+  USING (auth.uid() = student_id);
+
+CREATE POLICY "Students can register interest"
+  ON public.demand_interests FOR INSERT
+  WITH CHECK (
+    auth.uid() = student_id
+    AND public.has_role(auth.uid(), 'student')
+  );
+
+CREATE POLICY "Students can withdraw their interest"
+  ON public.demand_interests FOR DELETE
+  USING (auth.uid() = student_id);
+
+CREATE OR REPLACE FUNCTION public.sync_demand_interest_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _demand_id UUID := COALESCE(NEW.demand_id, OLD.demand_id);
+BEGIN
+  UPDATE public.demands
+  SET num_interested = (
+        SELECT count(*) FROM public.demand_interests
+        WHERE demand_id = _demand_id
+      ),
+      last_interest_at = CASE
+        WHEN TG_OP = 'INSERT' THEN now()
+        ELSE last_interest_at
+      END
+  WHERE id = _demand_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_demand_interest_change
+  AFTER INSERT OR DELETE ON public.demand_interests
+  FOR EACH ROW EXECUTE FUNCTION public.sync_demand_interest_count();
+
+-- Demands with interest in the last 90 days, with the caller's own interest
+CREATE VIEW public.open_demands AS
+SELECT
+  d.id,
+  d.activity,
+  d.category,
+  d.neighborhood,
+  d.location,
+  d.schedule,
+  d.weekdays,
+  d.start_time,
+  d.end_time,
+  d.latitude,
+  d.longitude,
+  d.num_interested,
+  d.last_interest_at,
+  d.created_by,
+  d.created_at,
+  EXISTS (
+    SELECT 1 FROM public.demand_interests i
+    WHERE i.demand_id = d.id AND i.student_id = auth.uid()
+  ) AS interested
+FROM public.demands d
+WHERE d.num_interested > 0
+  AND d.last_interest_at > now() - INTERVAL '90 days';
+
+GRANT SELECT ON public.open_demands TO authenticated;
+
+-- Posts a demand, or joins an open one for the same activity in the same
+-- neighborhood whose preferred days overlap, so professionals see a single
+-- demand with every interested student instead of near-duplicates.
+CREATE OR REPLACE FUNCTION public.create_demand(
+  _activity TEXT,
+  _neighborhood TEXT,
+  _location TEXT DEFAULT NULL,
+  _category class_category DEFAULT NULL,
+  _weekdays SMALLINT[] DEFAULT '{}',
+  _start_time TIME DEFAULT NULL,
+  _end_time TIME DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (demand_id UUID, joined_existing BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key TEXT := public.search_normalize(trim(_activity)) || '|' ||
+               public.search_normalize(trim(_neighborhood));
+  _demand_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'student') THEN
+    RAISE EXCEPTION 'demand_requires_student';
+  END IF;
+
+  IF NULLIF(trim(_activity), '') IS NULL OR NULLIF(trim(_neighborhood), '') IS NULL THEN
+    RAISE EXCEPTION 'invalid_demand';
+  END IF;
+
+  -- Two students posting the same demand at once must end up together
+  PERFORM pg_advisory_xact_lock(hashtext('demand:' || _key));
+
+  SELECT d.id INTO _demand_id
+  FROM public.open_demands d
+  WHERE public.search_normalize(trim(d.activity)) || '|' ||
+        public.search_normalize(trim(d.neighborhood)) = _key
+    AND (cardinality(d.weekdays) = 0
+         OR COALESCE(cardinality(_weekdays), 0) = 0
+         OR d.weekdays && _weekdays)
+  ORDER BY d.num_interested DESC, d.last_interest_at DESC
+  LIMIT 1;
+
+  IF _demand_id IS NOT NULL THEN
+    INSERT INTO public.demand_interests (demand_id, student_id)
+    VALUES (_demand_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    RETURN QUERY SELECT _demand_id, true;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.demands (
+    activity, neighborhood, location, category, weekdays,
+    start_time, end_time, latitude, longitude, created_by
+  )
+  VALUES (
+    trim(_activity),
+    trim(_neighborhood),
+    COALESCE(NULLIF(trim(_location), ''), trim(_neighborhood)),
+    _category,
+    COALESCE(_weekdays, '{}'),
+    _start_time,
+    _end_time,
+    _latitude,
+    _longitude,
+    auth.uid()
+  )
+  RETURNING id INTO _demand_id;
+
+  INSERT INTO public.demand_interests (demand_id, student_id)
+  VALUES (_demand_id, auth.uid());
+
+  RETURN QUERY SELECT _demand_id, false;
+END;
+$$;
@@ -0,0 +1,138 @@
+-- A demand is fulfilled by the first class created for it. Interested
+-- students are notified with a link that enrolls them in one tap.
+ALTER TABLE public.demands
+  ADD COLUMN fulfilled_at TIMESTAMPTZ,
+  ADD COLUMN fulfilled_class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL;
+
+CREATE INDEX classes_demand_id_idx ON public.classes (demand_id)
+  WHERE demand_id IS NOT NULL;
+
+-- Interest is frozen once the demand is fulfilled, so conversion stats keep
+-- the students who asked for the class
+DROP POLICY "Students can register interest" ON public.demand_interests;
+DROP POLICY "Students can withdraw their interest" ON public.demand_interests;
+
+CREATE POLICY "Students can register interest"
+  ON public.demand_interests FOR INSERT
+  WITH CHECK (
+    auth.uid() = student_id
+    AND public.has_role(auth.uid(), 'student')
+    AND EXISTS (
+      SELECT 1 FROM public.demands
+      WHERE demands.id = demand_interests.demand_id
+      AND demands.fulfilled_at IS NULL
+    )
+  );
+
+CREATE POLICY "Students can withdraw their interest"
+  ON public.demand_interests FOR DELETE
+  USING (
+    auth.uid() = student_id
+    AND EXISTS (
+      SELECT 1 FROM public.demands
+      WHERE demands.id = demand_interests.demand_id
+      AND demands.fulfilled_at IS NULL
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.fulfill_demand()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _demand public.demands;
+  _professional_name TEXT;
+BEGIN
+  IF NEW.demand_id IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.demand_id IS NOT DISTINCT FROM OLD.demand_id)
+  THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.demands
+  SET fulfilled_at = now(),
+      fulfilled_class_id = NEW.id
+  WHERE id = NEW.demand_id AND fulfilled_at IS NULL
+  RETURNING * INTO _demand;
+
+  -- Already fulfilled by another class: nobody is notified twice
+  IF _demand.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT full_name INTO _professional_name
+  FROM public.professionals
+  WHERE id = NEW.professional_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT i.student_id,
+         'demand_fulfilled',
+         'Sua turma de ' || NEW.activity || ' foi criada!',
+         COALESCE('Prof. ' || _professional_name, 'Um professor') ||
+           ' abriu a turma que você pediu em ' || _demand.neighborhood ||
+           '. Toque para garantir sua vaga.',
+         '/turma-aluno/' || NEW.id || '?matricular=1'
+  FROM public.demand_interests i
+  WHERE i.demand_id = NEW.demand_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_class_linked_to_demand
+  AFTER INSERT OR UPDATE OF demand_id ON public.classes
+  FOR EACH ROW EXECUTE FUNCTION public.fulfill_demand();
+
+CREATE OR REPLACE VIEW public.open_demands AS
+SELECT
+  d.id,
+  d.activity,
+  d.category,
+  d.neighborhood,
+  d.location,
+  d.schedule,
+  d.weekdays,
+  d.start_time,
+  d.end_time,
+  d.latitude,
+  d.longitude,
+  d.num_interested,
+  d.last_interest_at,
+  d.created_by,
+  d.created_at,
+  EXISTS (
+    SELECT 1 FROM public.demand_interests i
+    WHERE i.demand_id = d.id AND i.student_id = auth.uid()
+  ) AS interested
+FROM public.demands d
+WHERE d.num_interested > 0
+  AND d.fulfilled_at IS NULL
+  AND d.last_interest_at > now() - INTERVAL '90 days';
+
+-- How many of the students who asked for a class enrolled in it, for the
+-- caller's own demand-born classes
+CREATE VIEW public.demand_class_conversions AS
+SELECT
+  c.id AS class_id,
+  c.activity,
+  c.archived_at,
+  d.id AS demand_id,
+  d.neighborhood,
+  d.fulfilled_at,
+  d.num_interested AS interested_count,
+  (
+    SELECT count(*)::INTEGER
+    FROM public.demand_interests i
+    JOIN public.enrollments e
+      ON e.student_id = i.student_id AND e.class_id = c.id
+    WHERE i.demand_id = d.id
+  ) AS converted_count,
+  public.class_enrolled_count(c.id) AS enrolled_count
+FROM public.classes c
+JOIN public.demands d ON d.id = c.demand_id
+JOIN public.professionals p ON p.id = c.professional_id
+WHERE p.user_id = auth.uid();
+
+GRANT SELECT ON public.demand_class_conversions TO authenticated;
@@ -0,0 +1,314 @@
+-- Notification categories the user can turn off. 'general' covers enrollment
+-- and waitlist notices, which are always delivered.
+CREATE TYPE public.notification_category AS ENUM (
+  'forum',
+  'messages',
+  'schedule',
+  'payments',
+  'general'
+);
+
+ALTER TABLE public.notifications
+  ADD COLUMN category notification_category NOT NULL DEFAULT 'general',
+  ADD COLUMN class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE;
+
+CREATE INDEX notifications_user_id_unread_idx
+  ON public.notifications (user_id)
+  WHERE read_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.notification_category_for(_type TEXT)
+RETURNS notification_category
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _type = 'forum_post' THEN 'forum'
+    WHEN _type = 'private_message' THEN 'messages'
+    WHEN _type IN ('class_updated', 'class_archived', 'session_cancelled',
+                   'session_restored', 'session_moved', 'session_added')
+      THEN 'schedule'
+    WHEN _type LIKE 'payment_%' THEN 'payments'
+    ELSE 'general'
+  END::notification_category
+$$;
+
+-- Class a notification is about, from links like /turma-aluno/<id>
+CREATE OR REPLACE FUNCTION public.notification_class_id(_link TEXT)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.classes c
+  WHERE c.id::TEXT = substring(_link FROM '^/turma(?:-aluno)?/([0-9a-f-]{36})')
+$$;
+
+UPDATE public.notifications
+SET category = public.notification_category_for(type),
+    class_id = public.notification_class_id(link);
+
+-- A row with class_id NULL applies to every class; category NULL applies to
+-- every category. The most specific row wins.
+CREATE TABLE public.notification_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE,
+  category notification_category,
+  enabled BOOLEAN NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, class_id, category),
+  CHECK (category IS DISTINCT FROM 'general')
+);
+
+CREATE TRIGGER notification_preferences_touch_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notification preferences"
+  ON public.notification_preferences FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.notifications_enabled(
+  _user_id UUID,
+  _category notification_category,
+  _class_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _category = 'general' OR COALESCE((
+    SELECT p.enabled
+    FROM public.notification_preferences p
+    WHERE p.user_id = _user_id
+      AND (p.class_id IS NULL OR p.class_id = _class_id)
+      AND (p.category IS NULL OR p.category = _category)
+    ORDER BY (p.class_id IS NOT NULL) DESC, (p.category IS NOT NULL) DESC
+    LIMIT 1
+  ), true)
+$$;
+
+-- Every producer just inserts into notifications; category, class and the
+-- user's preferences are applied here
+CREATE OR REPLACE FUNCTION public.prepare_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.category = 'general' THEN
+    NEW.category := public.notification_category_for(NEW.type);
+  END IF;
+
+  IF NEW.class_id IS NULL THEN
+    NEW.class_id := public.notification_class_id(NEW.link);
+  END IF;
+
+  IF NOT public.notifications_enabled(NEW.user_id, NEW.category, NEW.class_id) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_notification_insert
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_notification();
+
+-- Forum posts notify the other members of the class
+CREATE OR REPLACE FUNCTION public.notify_forum_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _class public.classes;
+  _author TEXT;
+BEGIN
+  SELECT * INTO _class FROM public.classes WHERE id = NEW.class_id;
+
+  SELECT COALESCE(NULLIF(split_part(trim(full_name), ' ', 1), ''), 'Alguém')
+  INTO _author
+  FROM public.profiles
+  WHERE id = NEW.user_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, class_id)
+  SELECT member.user_id,
+         'forum_post',
+         COALESCE(_author, 'Alguém') || ' escreveu no fórum de ' || _class.activity,
+         left(NEW.message, 140),
+         member.link,
+         NEW.class_id
+  FROM (
+    SELECT e.student_id AS user_id, '/turma-aluno/' || NEW.class_id AS link
+    FROM public.enrollments e
+    WHERE e.class_id = NEW.class_id AND e.status IN ('active', 'paused')
+    UNION
+    SELECT p.user_id, '/turma/' || NEW.class_id
+    FROM public.professionals p
+    WHERE p.id = _class.professional_id
+  ) member
+  WHERE member.user_id <> NEW.user_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_forum_message_created
+  AFTER INSERT ON public.forum_messages
+  FOR EACH ROW EXECUTE FUNCTION public.notify_forum_message();
+
+CREATE OR REPLACE FUNCTION public.notify_private_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sender TEXT;
+BEGIN
+  SELECT full_name INTO _sender FROM public.profiles WHERE id = NEW.sender_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  VALUES (
+    NEW.recipient_id,
+    'private_message',
+    'Nova mensagem de ' || COALESCE(NULLIF(trim(_sender), ''), 'um contato'),
+    left(NEW.message, 140),
+    '/chat?contact=' || NEW.sender_id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_private_message_created
+  AFTER INSERT ON public.private_messages
+  FOR EACH ROW EXECUTE FUNCTION public.notify_private_message();
+
+-- Cancelled, restored, moved and one-off sessions notify enrolled students.
+-- Sessions created by the recurrence generator have an original_date and
+-- are not announced.
+CREATE OR REPLACE FUNCTION public.notify_session_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _activity TEXT;
+  _type TEXT;
+  _title TEXT;
+  _body TEXT;
+  _date TEXT := to_char(NEW.session_date, 'DD/MM');
+BEGIN
+  SELECT activity INTO _activity FROM public.classes WHERE id = NEW.class_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.original_date IS NOT NULL THEN
+      RETURN NULL;
+    END IF;
+    _type := 'session_added';
+    _title := 'Aula extra de ' || _activity;
+    _body := 'Nova aula em ' || _date ||
+      COALESCE(' às ' || to_char(NEW.start_time, 'HH24:MI'), '') || '.';
+  ELSIF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    _type := 'session_cancelled';
+    _title := 'Aula cancelada: ' || _activity;
+    _body := 'A aula de ' || _date || ' foi cancelada.' ||
+      COALESCE(' Motivo: ' || NEW.cancellation_reason, '');
+  ELSIF NEW.status = 'scheduled' AND OLD.status = 'cancelled' THEN
+    _type := 'session_restored';
+    _title := 'Aula confirmada: ' || _activity;
+    _body := 'A aula de ' || _date || ' vai acontecer normalmente.';
+  ELSIF NEW.status = 'scheduled' AND (
+    NEW.session_date IS DISTINCT FROM OLD.session_date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+  ) THEN
+    _type := 'session_moved';
+    _title := 'Aula remarcada: ' || _activity;
+    _body := 'A aula agora acontece em ' || _date ||
+      COALESCE(' às ' || to_char(NEW.start_time, 'HH24:MI'), '') || '.';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, class_id)
+  SELECT e.student_id, _type, _title, _body, '/turma-aluno/' || NEW.class_id, NEW.class_id
+  FROM public.enrollments e
+  WHERE e.class_id = NEW.class_id AND e.status = 'active';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_class_session_changed
+  AFTER INSERT OR UPDATE ON public.class_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_session_change();
+
+CREATE OR REPLACE FUNCTION public.notify_payment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID;
+  _activity TEXT;
+  _amount TEXT := 'R$ ' || replace(to_char(NEW.amount, 'FM999999990.00'), '.', ',');
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT e.student_id, c.activity INTO _student_id, _activity
+  FROM public.enrollments e
+  JOIN public.classes c ON c.id = e.class_id
+  WHERE e.id = NEW.enrollment_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, class_id)
+  VALUES (
+    _student_id,
+    CASE WHEN NEW.status = 'paid' THEN 'payment_confirmed' ELSE 'payment_pending' END,
+    CASE WHEN NEW.status = 'paid'
+      THEN 'Pagamento confirmado: ' || _activity
+      ELSE 'Nova mensalidade: ' || _activity
+    END,
+    CASE WHEN NEW.status = 'paid'
+      THEN 'Recebemos seu pagamento de ' || _amount || '.'
+      ELSE 'Mensalidade de ' || _amount || ' aguardando pagamento.'
+    END,
+    '/turma-aluno/' || NEW.class_id,
+    NEW.class_id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_payment_changed
+  AFTER INSERT OR UPDATE OF status ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_payment_change();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
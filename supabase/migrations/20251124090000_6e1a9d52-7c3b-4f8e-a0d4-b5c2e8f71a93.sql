@@ -0,0 +1,253 @@
+-- Reminders before each session, delivered in the app and, optionally,
+-- through an outbound channel drained by the deliver-messages function
+ALTER TYPE public.notification_category ADD VALUE 'reminders' BEFORE 'general';
+
+CREATE OR REPLACE FUNCTION public.notification_category_for(_type TEXT)
+RETURNS notification_category
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _type = 'forum_post' THEN 'forum'
+    WHEN _type = 'private_message' THEN 'messages'
+    WHEN _type IN ('class_updated', 'class_archived', 'session_cancelled',
+                   'session_restored', 'session_moved', 'session_added')
+      THEN 'schedule'
+    WHEN _type LIKE 'payment_%' THEN 'payments'
+    WHEN _type = 'class_reminder' THEN 'reminders'
+    ELSE 'general'
+  END::notification_category
+$$;
+
+CREATE TYPE public.outbound_channel AS ENUM ('email', 'sms', 'whatsapp');
+
+CREATE TYPE public.outbound_status AS ENUM ('pending', 'sent', 'failed');
+
+-- Missing row means the defaults: 24h and 2h before, in the app only, no
+-- quiet hours
+CREATE TABLE public.reminder_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  lead_hours INTEGER[] NOT NULL DEFAULT '{24,2}',
+  channel outbound_channel,
+  quiet_start TIME,
+  quiet_end TIME,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (lead_hours <@ '{1,2,6,12,24,48}'::INTEGER[]),
+  CHECK (
+    (quiet_start IS NULL AND quiet_end IS NULL)
+    OR (quiet_start IS NOT NULL AND quiet_end IS NOT NULL AND quiet_start <> quiet_end)
+  )
+);
+
+CREATE TRIGGER reminder_settings_touch_updated_at
+  BEFORE UPDATE ON public.reminder_settings
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.reminder_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reminder settings"
+  ON public.reminder_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own reminder settings"
+  ON public.reminder_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reminder settings"
+  ON public.reminder_settings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- One row per reminder already sent, so each one goes out once
+CREATE TABLE public.session_reminders (
+  session_id UUID REFERENCES public.class_sessions(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  lead_hours INTEGER NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, student_id, lead_hours)
+);
+
+ALTER TABLE public.session_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their own reminders"
+  ON public.session_reminders FOR SELECT
+  USING (auth.uid() = student_id);
+
+-- Messages waiting for an outbound channel. Only the service role reads
+-- and updates them.
+CREATE TABLE public.outbound_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  channel outbound_channel NOT NULL,
+  destination TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  link TEXT,
+  status outbound_status NOT NULL DEFAULT 'pending',
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX outbound_messages_pending_idx
+  ON public.outbound_messages (created_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.outbound_messages ENABLE ROW LEVEL SECURITY;
+
+-- A reminder due during quiet hours is sent shortly before they begin, so
+-- it still arrives ahead of the class. Quiet hours may cross midnight and
+-- are read in the class's timezone.
+CREATE OR REPLACE FUNCTION public.reminder_send_at(
+  _due TIMESTAMPTZ,
+  _timezone TEXT,
+  _quiet_start TIME,
+  _quiet_end TIME
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _local TIMESTAMP := _due AT TIME ZONE _timezone;
+  _time TIME := _local::TIME;
+  _window_start TIMESTAMP;
+BEGIN
+  IF _quiet_start IS NULL OR _quiet_end IS NULL THEN
+    RETURN _due;
+  END IF;
+
+  IF _quiet_start < _quiet_end THEN
+    IF _time < _quiet_start OR _time >= _quiet_end THEN
+      RETURN _due;
+    END IF;
+    _window_start := _local::DATE + _quiet_start;
+  ELSIF _time >= _quiet_start THEN
+    _window_start := _local::DATE + _quiet_start;
+  ELSIF _time < _quiet_end THEN
+    _window_start := _local::DATE - 1 + _quiet_start;
+  ELSE
+    RETURN _due;
+  END IF;
+
+  -- Leaves room for the next run of the scheduler
+  RETURN (_window_start AT TIME ZONE _timezone) - INTERVAL '10 minutes';
+END;
+$$;
+
+-- Runs every few minutes. For each active student and upcoming session it
+-- sends the closest reminder that is due; a reminder missed because the
+-- student enrolled late is skipped when a closer one is already due.
+CREATE OR REPLACE FUNCTION public.queue_due_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _due RECORD;
+  _when TEXT;
+  _body TEXT;
+  _destination TEXT;
+  _sent INTEGER := 0;
+BEGIN
+  FOR _due IN
+    SELECT DISTINCT ON (u.session_id, u.student_id)
+      u.*,
+      lead.hours AS lead_hours,
+      rs.channel
+    FROM (
+      SELECT
+        s.id AS session_id,
+        s.session_date,
+        c.id AS class_id,
+        c.activity,
+        c.location,
+        c.timezone,
+        COALESCE(s.start_time, c.start_time) AS start_time,
+        (s.session_date + COALESCE(s.start_time, c.start_time))
+          AT TIME ZONE c.timezone AS starts_at,
+        e.student_id
+      FROM public.class_sessions s
+      JOIN public.classes c ON c.id = s.class_id
+      JOIN public.enrollments e ON e.class_id = c.id AND e.status = 'active'
+      WHERE s.status = 'scheduled'
+        AND c.archived_at IS NULL
+        AND COALESCE(s.start_time, c.start_time) IS NOT NULL
+        AND s.session_date BETWEEN (now() AT TIME ZONE c.timezone)::DATE
+                               AND (now() AT TIME ZONE c.timezone)::DATE + 3
+    ) u
+    LEFT JOIN public.reminder_settings rs ON rs.user_id = u.student_id
+    CROSS JOIN LATERAL unnest(COALESCE(rs.lead_hours, '{24,2}'::INTEGER[])) AS lead(hours)
+    WHERE u.starts_at > now()
+      AND public.reminder_send_at(
+        u.starts_at - make_interval(hours => lead.hours),
+        u.timezone, rs.quiet_start, rs.quiet_end
+      ) <= now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.session_reminders sr
+        WHERE sr.session_id = u.session_id
+          AND sr.student_id = u.student_id
+          AND sr.lead_hours <= lead.hours
+      )
+    ORDER BY u.session_id, u.student_id, lead.hours
+  LOOP
+    INSERT INTO public.session_reminders (session_id, student_id, lead_hours)
+    VALUES (_due.session_id, _due.student_id, _due.lead_hours);
+
+    _when := CASE _due.session_date - (now() AT TIME ZONE _due.timezone)::DATE
+      WHEN 0 THEN 'hoje'
+      WHEN 1 THEN 'amanhã'
+      ELSE 'em ' || to_char(_due.session_date, 'DD/MM')
+    END;
+    _body := 'Sua aula é ' || _when || ' às ' || to_char(_due.start_time, 'HH24:MI') ||
+      COALESCE(' em ' || NULLIF(_due.location, ''), '') || '.';
+
+    INSERT INTO public.notifications (user_id, type, title, body, link, class_id)
+    VALUES (
+      _due.student_id,
+      'class_reminder',
+      'Lembrete: ' || _due.activity,
+      _body,
+      '/turma-aluno/' || _due.class_id,
+      _due.class_id
+    );
+
+    IF _due.channel IS NOT NULL
+       AND public.notifications_enabled(_due.student_id, 'reminders', _due.class_id)
+    THEN
+      SELECT CASE WHEN _due.channel = 'email' THEN st.email ELSE st.phone END
+      INTO _destination
+      FROM public.students st
+      WHERE st.user_id = _due.student_id;
+
+      IF NULLIF(trim(_destination), '') IS NOT NULL THEN
+        INSERT INTO public.outbound_messages (
+          user_id, channel, destination, title, body, link
+        )
+        VALUES (
+          _due.student_id,
+          _due.channel,
+          _destination,
+          'Lembrete: ' || _due.activity,
+          _body,
+          '/turma-aluno/' || _due.class_id
+        );
+      END IF;
+    END IF;
+
+    _sent := _sent + 1;
+  END LOOP;
+
+  RETURN _sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_due_reminders() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'queue-class-reminders',
+  '*/5 * * * *',
+  $$SELECT public.queue_due_reminders()$$
+);
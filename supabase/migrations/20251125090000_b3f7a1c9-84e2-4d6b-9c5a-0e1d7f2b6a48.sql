@@ -0,0 +1,186 @@
+-- Outbound messages are rendered from a template by the delivery module in
+-- supabase/functions/_shared/delivery and retried with backoff. Every
+-- attempt is logged.
+ALTER TABLE public.outbound_messages
+  ADD COLUMN template TEXT NOT NULL DEFAULT 'notification',
+  ADD COLUMN params JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN provider TEXT,
+  ADD COLUMN provider_message_id TEXT;
+
+DROP INDEX public.outbound_messages_pending_idx;
+
+CREATE INDEX outbound_messages_due_idx
+  ON public.outbound_messages (next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE TABLE public.delivery_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.outbound_messages(id) ON DELETE CASCADE NOT NULL,
+  attempt INTEGER NOT NULL,
+  provider TEXT NOT NULL,
+  status outbound_status NOT NULL,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (status <> 'pending')
+);
+
+CREATE INDEX delivery_log_message_id_idx ON public.delivery_log (message_id);
+
+ALTER TABLE public.delivery_log ENABLE ROW LEVEL SECURITY;
+
+-- Written by the local outbox provider instead of sending anything, so the
+-- whole flow can be exercised without real email or SMS accounts
+CREATE TABLE public.local_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.outbound_messages(id) ON DELETE CASCADE NOT NULL,
+  channel outbound_channel NOT NULL,
+  destination TEXT NOT NULL,
+  subject TEXT,
+  text TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.local_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Hands out due messages to one delivery run at a time. Claimed messages
+-- are pushed back by a lease so a run that dies mid-batch is retried later.
+CREATE OR REPLACE FUNCTION public.claim_outbound_messages(
+  _limit INTEGER DEFAULT 50,
+  _lease INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF public.outbound_messages
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.outbound_messages m
+  SET attempts = m.attempts + 1,
+      next_attempt_at = now() + _lease
+  WHERE m.id IN (
+    SELECT id
+    FROM public.outbound_messages
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_outbound_messages(INTEGER, INTERVAL)
+  FROM PUBLIC, anon, authenticated;
+
+-- Reminders now carry the template parameters
+CREATE OR REPLACE FUNCTION public.queue_due_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _due RECORD;
+  _when TEXT;
+  _body TEXT;
+  _destination TEXT;
+  _sent INTEGER := 0;
+BEGIN
+  FOR _due IN
+    SELECT DISTINCT ON (u.session_id, u.student_id)
+      u.*,
+      lead.hours AS lead_hours,
+      rs.channel
+    FROM (
+      SELECT
+        s.id AS session_id,
+        s.session_date,
+        c.id AS class_id,
+        c.activity,
+        c.location,
+        c.timezone,
+        COALESCE(s.start_time, c.start_time) AS start_time,
+        (s.session_date + COALESCE(s.start_time, c.start_time))
+          AT TIME ZONE c.timezone AS starts_at,
+        e.student_id
+      FROM public.class_sessions s
+      JOIN public.classes c ON c.id = s.class_id
+      JOIN public.enrollments e ON e.class_id = c.id AND e.status = 'active'
+      WHERE s.status = 'scheduled'
+        AND c.archived_at IS NULL
+        AND COALESCE(s.start_time, c.start_time) IS NOT NULL
+        AND s.session_date BETWEEN (now() AT TIME ZONE c.timezone)::DATE
+                               AND (now() AT TIME ZONE c.timezone)::DATE + 3
+    ) u
+    LEFT JOIN public.reminder_settings rs ON rs.user_id = u.student_id
+    CROSS JOIN LATERAL unnest(COALESCE(rs.lead_hours, '{24,2}'::INTEGER[])) AS lead(hours)
+    WHERE u.starts_at > now()
+      AND public.reminder_send_at(
+        u.starts_at - make_interval(hours => lead.hours),
+        u.timezone, rs.quiet_start, rs.quiet_end
+      ) <= now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.session_reminders sr
+        WHERE sr.session_id = u.session_id
+          AND sr.student_id = u.student_id
+          AND sr.lead_hours <= lead.hours
+      )
+    ORDER BY u.session_id, u.student_id, lead.hours
+  LOOP
+    INSERT INTO public.session_reminders (session_id, student_id, lead_hours)
+    VALUES (_due.session_id, _due.student_id, _due.lead_hours);
+
+    _when := CASE _due.session_date - (now() AT TIME ZONE _due.timezone)::DATE
+      WHEN 0 THEN 'hoje'
+      WHEN 1 THEN 'amanhã'
+      ELSE 'em ' || to_char(_due.session_date, 'DD/MM')
+    END;
+    _body := 'Sua aula é ' || _when || ' às ' || to_char(_due.start_time, 'HH24:MI') ||
+      COALESCE(' em ' || NULLIF(_due.location, ''), '') || '.';
+
+    INSERT INTO public.notifications (user_id, type, title, body, link, class_id)
+    VALUES (
+      _due.student_id,
+      'class_reminder',
+      'Lembrete: ' || _due.activity,
+      _body,
+      '/turma-aluno/' || _due.class_id,
+      _due.class_id
+    );
+
+    IF _due.channel IS NOT NULL
+       AND public.notifications_enabled(_due.student_id, 'reminders', _due.class_id)
+    THEN
+      SELECT CASE WHEN _due.channel = 'email' THEN st.email ELSE st.phone END
+      INTO _destination
+      FROM public.students st
+      WHERE st.user_id = _due.student_id;
+
+      IF NULLIF(trim(_destination), '') IS NOT NULL THEN
+        INSERT INTO public.outbound_messages (
+          user_id, channel, destination, title, body, link, template, params
+        )
+        VALUES (
+          _due.student_id,
+          _due.channel,
+          _destination,
+          'Lembrete: ' || _due.activity,
+          _body,
+          '/turma-aluno/' || _due.class_id,
+          'class_reminder',
+          jsonb_build_object(
+            'activity', _due.activity,
+            'when', _when,
+            'time', to_char(_due.start_time, 'HH24:MI'),
+            'location', NULLIF(_due.location, '')
+          )
+        );
+      END IF;
+    END IF;
+
+    _sent := _sent + 1;
+  END LOOP;
+
+  RETURN _sent;
+END;
+$$;
@@ -0,0 +1,207 @@
+-- Self check-in: the professional shows a QR code that changes every 30
+-- seconds and students scan it to mark themselves present. Codes are signed
+-- with a per-class key, so they cannot be forged or reused for another
+-- session, and expire within a minute. They are not bound to a device: a
+-- student who is present could forward the code on screen to one who is
+-- not, within that minute.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.class_check_in_keys (
+  class_id UUID PRIMARY KEY REFERENCES public.classes(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- No policies: keys are only read by the functions below
+ALTER TABLE public.class_check_in_keys ENABLE ROW LEVEL SECURITY;
+
+-- Set when the student checked in with the code; a manual change by the
+-- professional keeps it so the override is visible
+ALTER TABLE public.attendance
+  ADD COLUMN checked_in_at TIMESTAMPTZ;
+
+CREATE POLICY "Students can view their own attendance"
+  ON public.attendance FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.enrollments
+      WHERE enrollments.id = attendance.enrollment_id
+      AND enrollments.student_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.check_in_signature(_session_id UUID, _step BIGINT)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT left(
+    encode(extensions.hmac(convert_to(_session_id || ':' || _step, 'UTF8'), k.secret, 'sha256'), 'hex'),
+    32
+  )
+  FROM public.class_sessions s
+  JOIN public.class_check_in_keys k ON k.class_id = s.class_id
+  WHERE s.id = _session_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in_signature(UUID, BIGINT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Check-in opens 30 minutes before the session and closes 30 minutes after
+-- it ends
+CREATE OR REPLACE FUNCTION public.session_check_in_window(_session_id UUID)
+RETURNS TABLE (opens_at TIMESTAMPTZ, closes_at TIMESTAMPTZ)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    ((s.session_date + COALESCE(s.start_time, c.start_time, '00:00'))
+      AT TIME ZONE c.timezone) - INTERVAL '30 minutes',
+    ((s.session_date + COALESCE(
+        s.end_time,
+        c.end_time,
+        COALESCE(s.start_time, c.start_time) + INTERVAL '1 hour',
+        '23:59'
+      )) AT TIME ZONE c.timezone) + INTERVAL '30 minutes'
+  FROM public.class_sessions s
+  JOIN public.classes c ON c.id = s.class_id
+  WHERE s.id = _session_id
+$$;
+
+-- Current code for a session, for its professional only
+CREATE OR REPLACE FUNCTION public.session_check_in_code(_session_id UUID)
+RETURNS TABLE (
+  code TEXT,
+  expires_at TIMESTAMPTZ,
+  opens_at TIMESTAMPTZ,
+  closes_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.class_sessions;
+  _step BIGINT := floor(extract(EPOCH FROM now()) / 30);
+BEGIN
+  SELECT s.* INTO _session
+  FROM public.class_sessions s
+  JOIN public.classes c ON c.id = s.class_id
+  JOIN public.professionals p ON p.id = c.professional_id
+  WHERE s.id = _session_id AND p.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'session_not_found';
+  END IF;
+
+  IF _session.status = 'cancelled' THEN
+    RAISE EXCEPTION 'check_in_closed';
+  END IF;
+
+  INSERT INTO public.class_check_in_keys (class_id)
+  VALUES (_session.class_id)
+  ON CONFLICT (class_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT
+    _session_id || '.' || _step || '.' || public.check_in_signature(_session_id, _step),
+    to_timestamp((_step + 1) * 30),
+    w.opens_at,
+    w.closes_at
+  FROM public.session_check_in_window(_session_id) w;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_in(_code TEXT)
+RETURNS TABLE (
+  class_id UUID,
+  session_id UUID,
+  activity TEXT,
+  already_checked_in BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[];
+  _session public.class_sessions;
+  _step BIGINT;
+  _current_step BIGINT := floor(extract(EPOCH FROM now()) / 30);
+  _enrollment public.enrollments;
+  _attendance public.attendance;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF _code IS NULL OR _code !~ '^[0-9a-f-]{36}\.[0-9]{1,12}\.[0-9a-f]{32}$' THEN
+    RAISE EXCEPTION 'check_in_invalid';
+  END IF;
+
+  _parts := string_to_array(_code, '.');
+  _step := _parts[2]::BIGINT;
+
+  IF public.check_in_signature(_parts[1]::UUID, _step) IS DISTINCT FROM _parts[3]
+     OR _step > _current_step
+  THEN
+    RAISE EXCEPTION 'check_in_invalid';
+  END IF;
+
+  -- The code on screen and the one before it are accepted
+  IF _step < _current_step - 1 THEN
+    RAISE EXCEPTION 'check_in_expired';
+  END IF;
+
+  SELECT * INTO _session FROM public.class_sessions WHERE id = _parts[1]::UUID;
+
+  IF _session.status = 'cancelled' OR NOT EXISTS (
+    SELECT 1 FROM public.session_check_in_window(_session.id) w
+    WHERE now() BETWEEN w.opens_at AND w.closes_at
+  ) THEN
+    RAISE EXCEPTION 'check_in_closed';
+  END IF;
+
+  SELECT * INTO _enrollment
+  FROM public.enrollments e
+  WHERE e.class_id = _session.class_id AND e.student_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'enrollment_not_found';
+  END IF;
+
+  IF _enrollment.status <> 'active' THEN
+    RAISE EXCEPTION 'enrollment_not_active';
+  END IF;
+
+  SELECT * INTO _attendance
+  FROM public.attendance a
+  WHERE a.enrollment_id = _enrollment.id AND a.session_id = _session.id
+  FOR UPDATE;
+
+  -- The professional removed a presence the student had checked in:
+  -- scanning again does not undo the override
+  IF _attendance.checked_in_at IS NOT NULL AND NOT _attendance.present THEN
+    RAISE EXCEPTION 'check_in_revoked';
+  END IF;
+
+  IF _attendance.id IS NULL THEN
+    INSERT INTO public.attendance (enrollment_id, session_id, date, present, checked_in_at)
+    VALUES (_enrollment.id, _session.id, _session.session_date, true, now());
+  ELSIF _attendance.checked_in_at IS NULL THEN
+    UPDATE public.attendance
+    SET present = true, checked_in_at = now()
+    WHERE id = _attendance.id;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, _session.id, c.activity, _attendance.checked_in_at IS NOT NULL
+  FROM public.classes c
+  WHERE c.id = _session.class_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attendance;
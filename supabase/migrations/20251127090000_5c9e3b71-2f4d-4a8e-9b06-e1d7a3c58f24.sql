@@ -0,0 +1,107 @@
+-- Attendance taken without connectivity is kept on the professional's
+-- device and sent later. Each mark carries the time it was made, so a list
+-- synced hours later does not overwrite marks made after it (a student's
+-- QR check-in or a change from another device).
+ALTER TABLE public.attendance
+  ADD COLUMN marked_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Updates that do not say when the mark was made count as made now
+CREATE OR REPLACE FUNCTION public.touch_attendance_marked_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.marked_at IS NOT DISTINCT FROM OLD.marked_at
+     AND NEW.present IS DISTINCT FROM OLD.present
+  THEN
+    NEW.marked_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_attendance_marked_at
+  BEFORE UPDATE ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.touch_attendance_marked_at();
+
+-- What happened in each session, written by the professional with the
+-- attendance list
+CREATE TABLE public.session_notes (
+  session_id UUID PRIMARY KEY REFERENCES public.class_sessions(id) ON DELETE CASCADE,
+  notes TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.session_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Professionals can manage notes of their sessions"
+  ON public.session_notes FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.class_sessions
+      JOIN public.classes ON classes.id = class_sessions.class_id
+      JOIN public.professionals ON professionals.id = classes.professional_id
+      WHERE class_sessions.id = session_notes.session_id
+      AND professionals.user_id = auth.uid()
+    )
+  );
+
+-- Saves the attendance list (and notes, when given) of a session as it was
+-- at _marked_at. Marks already changed after that are kept and returned, so
+-- the app can tell the professional. Notes changed after that are kept too,
+-- with the offline text appended instead of lost.
+CREATE OR REPLACE FUNCTION public.save_attendance(
+  _session_id UUID,
+  _marks JSONB,
+  _notes TEXT DEFAULT NULL,
+  _marked_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (enrollment_id UUID, present BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.class_sessions;
+BEGIN
+  SELECT s.* INTO _session
+  FROM public.class_sessions s
+  JOIN public.classes c ON c.id = s.class_id
+  JOIN public.professionals p ON p.id = c.professional_id
+  WHERE s.id = _session_id AND p.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'session_not_found';
+  END IF;
+
+  -- A device clock ahead of the server must not win every conflict
+  _marked_at := LEAST(COALESCE(_marked_at, now()), now());
+
+  INSERT INTO public.attendance AS a (enrollment_id, session_id, date, present, marked_at)
+  SELECT m.enrollment_id, _session.id, _session.session_date, m.present, _marked_at
+  FROM jsonb_to_recordset(_marks) AS m(enrollment_id UUID, present BOOLEAN)
+  JOIN public.enrollments e ON e.id = m.enrollment_id AND e.class_id = _session.class_id
+  ON CONFLICT ON CONSTRAINT attendance_enrollment_id_session_id_key DO UPDATE
+  SET present = EXCLUDED.present, marked_at = EXCLUDED.marked_at
+  WHERE a.marked_at <= EXCLUDED.marked_at;
+
+  IF _notes IS NOT NULL THEN
+    INSERT INTO public.session_notes AS n (session_id, notes, updated_at)
+    VALUES (_session.id, _notes, _marked_at)
+    ON CONFLICT (session_id) DO UPDATE
+    SET notes = CASE
+        WHEN n.updated_at <= EXCLUDED.updated_at OR n.notes = '' THEN EXCLUDED.notes
+        WHEN position(EXCLUDED.notes IN n.notes) > 0 THEN n.notes
+        ELSE n.notes || E'\n\n' || EXCLUDED.notes
+      END,
+      updated_at = GREATEST(n.updated_at, EXCLUDED.updated_at);
+  END IF;
+
+  RETURN QUERY
+  SELECT a.enrollment_id, a.present
+  FROM jsonb_to_recordset(_marks) AS m(enrollment_id UUID, present BOOLEAN)
+  JOIN public.attendance a
+    ON a.enrollment_id = m.enrollment_id AND a.session_id = _session.id
+  WHERE a.present IS DISTINCT FROM m.present;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Lesson plans written before a session, next to the notes taken during it.
+-- The professional chooses, per session, whether students see them.
+ALTER TABLE public.session_notes
+  ADD COLUMN lesson_plan TEXT NOT NULL DEFAULT '',
+  ADD COLUMN shared BOOLEAN NOT NULL DEFAULT false;
+
+CREATE POLICY "Students can view shared notes of their classes"
+  ON public.session_notes FOR SELECT
+  USING (
+    shared
+    AND EXISTS (
+      SELECT 1 FROM public.class_sessions
+      JOIN public.enrollments ON enrollments.class_id = class_sessions.class_id
+      WHERE class_sessions.id = session_notes.session_id
+      AND enrollments.student_id = auth.uid()
+      AND enrollments.status = 'active'
+    )
+  );
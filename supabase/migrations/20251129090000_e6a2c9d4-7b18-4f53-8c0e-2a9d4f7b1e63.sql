@@ -0,0 +1,60 @@
+-- Roster of a class with each student's frequency and, when a session is
+-- given, their attendance in it. Replaces one query per student in the
+-- class management page.
+CREATE OR REPLACE FUNCTION public.class_roster(_class_id UUID, _session_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  student_id UUID,
+  enrollment_id UUID,
+  enrollment_status enrollment_status,
+  full_name TEXT,
+  absences INTEGER,
+  total_classes INTEGER,
+  attendance_rate NUMERIC,
+  present BOOLEAN,
+  checked_in_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.professionals p ON p.id = c.professional_id
+    WHERE c.id = _class_id AND p.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'class_not_found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.student_id,
+    e.id,
+    e.status,
+    COALESCE(pr.full_name, s.full_name),
+    COALESCE(f.absences, 0),
+    COALESCE(f.total_classes, 0),
+    CASE WHEN f.total_classes > 0
+      THEN round((f.total_classes - f.absences) * 100.0 / f.total_classes, 1)
+      ELSE 0
+    END,
+    a.present,
+    a.checked_in_at
+  FROM public.enrollments e
+  LEFT JOIN public.profiles pr ON pr.id = e.student_id
+  LEFT JOIN public.students s ON s.user_id = e.student_id
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE att.present IS NOT TRUE)::INTEGER AS absences,
+      count(*)::INTEGER AS total_classes
+    FROM public.attendance att
+    WHERE att.enrollment_id = e.id
+  ) f ON true
+  LEFT JOIN public.attendance a
+    ON a.enrollment_id = e.id AND a.session_id = _session_id
+  WHERE e.class_id = _class_id
+  AND e.status IN ('active', 'paused')
+  ORDER BY 4;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- When a student is flagged as at risk in the class analytics: attendance
+-- rate below at_risk_rate (%) or at_risk_absences consecutive absences
+ALTER TABLE public.classes
+  ADD COLUMN at_risk_rate INTEGER NOT NULL DEFAULT 75
+    CHECK (at_risk_rate BETWEEN 0 AND 100),
+  ADD COLUMN at_risk_absences INTEGER NOT NULL DEFAULT 3
+    CHECK (at_risk_absences >= 1);
@@ -0,0 +1,134 @@
+-- Attendance certificates issued by students. Each one keeps a copy of what
+-- it certified, so the public verification shows the same data as the PDF
+-- even after names or attendance change.
+CREATE TABLE public.attendance_certificates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE SET NULL,
+  student_id UUID NOT NULL,
+  class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+  student_name TEXT NOT NULL,
+  activity TEXT NOT NULL,
+  professional_name TEXT NOT NULL,
+  cref TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  sessions_total INTEGER NOT NULL,
+  sessions_present INTEGER NOT NULL,
+  attendance_rate NUMERIC NOT NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX attendance_certificates_student_id_idx
+  ON public.attendance_certificates (student_id, issued_at DESC);
+
+-- Issued only through issue_attendance_certificate
+ALTER TABLE public.attendance_certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their own certificates"
+  ON public.attendance_certificates FOR SELECT
+  USING (auth.uid() = student_id);
+
+CREATE OR REPLACE FUNCTION public.issue_attendance_certificate(_enrollment_id UUID)
+RETURNS SETOF public.attendance_certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enrollment public.enrollments;
+  _total INTEGER;
+  _present INTEGER;
+  _first DATE;
+  _last DATE;
+  _code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _enrollment
+  FROM public.enrollments
+  WHERE id = _enrollment_id AND student_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'enrollment_not_found';
+  END IF;
+
+  SELECT count(*), count(*) FILTER (WHERE a.present), min(a.date), max(a.date)
+  INTO _total, _present, _first, _last
+  FROM public.attendance a
+  WHERE a.enrollment_id = _enrollment.id;
+
+  IF _present = 0 THEN
+    RAISE EXCEPTION 'certificate_no_attendance';
+  END IF;
+
+  -- 12 hex digits in groups of four, e.g. 3F9A-0C21-B7E4
+  LOOP
+    _code := upper(encode(extensions.gen_random_bytes(6), 'hex'));
+    _code := substr(_code, 1, 4) || '-' || substr(_code, 5, 4) || '-' || substr(_code, 9, 4);
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.attendance_certificates WHERE code = _code
+    );
+  END LOOP;
+
+  RETURN QUERY
+  INSERT INTO public.attendance_certificates (
+    code, enrollment_id, student_id, class_id, student_name, activity,
+    professional_name, cref, period_start, period_end, sessions_total,
+    sessions_present, attendance_rate
+  )
+  SELECT
+    _code,
+    _enrollment.id,
+    _enrollment.student_id,
+    c.id,
+    COALESCE(pr.full_name, s.full_name, ''),
+    c.activity,
+    p.full_name,
+    p.cref,
+    _first,
+    _last,
+    _total,
+    _present,
+    round(_present * 100.0 / _total, 1)
+  FROM public.classes c
+  JOIN public.professionals p ON p.id = c.professional_id
+  LEFT JOIN public.students s ON s.user_id = _enrollment.student_id
+  LEFT JOIN public.profiles pr ON pr.id = _enrollment.student_id
+  WHERE c.id = _enrollment.class_id
+  RETURNING *;
+END;
+$$;
+
+-- Public check of a certificate code, also for visitors without an account
+CREATE OR REPLACE FUNCTION public.verify_attendance_certificate(_code TEXT)
+RETURNS TABLE (
+  code TEXT,
+  student_name TEXT,
+  activity TEXT,
+  professional_name TEXT,
+  cref TEXT,
+  period_start DATE,
+  period_end DATE,
+  sessions_total INTEGER,
+  sessions_present INTEGER,
+  attendance_rate NUMERIC,
+  issued_at TIMESTAMPTZ
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.code, c.student_name, c.activity, c.professional_name, c.cref,
+    c.period_start, c.period_end, c.sessions_total, c.sessions_present,
+    c.attendance_rate, c.issued_at
+  FROM public.attendance_certificates c
+  WHERE c.code = upper(trim(_code))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_attendance_certificate(TEXT)
+  TO anon, authenticated;
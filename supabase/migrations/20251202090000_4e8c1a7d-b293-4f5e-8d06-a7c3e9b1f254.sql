@@ -0,0 +1,202 @@
+-- Forum threads: replies, professional announcements pinned to the top and
+-- an "edited" marker
+ALTER TABLE public.forum_messages
+  ADD COLUMN parent_id UUID REFERENCES public.forum_messages(id) ON DELETE CASCADE,
+  ADD COLUMN pinned_at TIMESTAMPTZ,
+  ADD COLUMN edited_at TIMESTAMPTZ;
+
+CREATE INDEX forum_messages_class_id_idx
+  ON public.forum_messages (class_id, created_at DESC)
+  WHERE parent_id IS NULL;
+
+CREATE INDEX forum_messages_parent_id_idx
+  ON public.forum_messages (parent_id, created_at);
+
+-- Replies are one level deep and always live in the thread's class
+CREATE OR REPLACE FUNCTION public.prepare_forum_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.forum_messages;
+BEGIN
+  NEW.pinned_at := NULL;
+  NEW.edited_at := NULL;
+
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent FROM public.forum_messages WHERE id = NEW.parent_id;
+
+  IF _parent.id IS NULL OR _parent.class_id <> NEW.class_id THEN
+    RAISE EXCEPTION 'forum_message_not_found';
+  END IF;
+
+  NEW.parent_id := COALESCE(_parent.parent_id, _parent.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_forum_message_insert
+  BEFORE INSERT ON public.forum_messages
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_forum_reply();
+
+-- Authors may only change the text; pinning goes through pin_forum_message
+CREATE OR REPLACE FUNCTION public.guard_forum_message_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.class_id := OLD.class_id;
+  NEW.user_id := OLD.user_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  IF NEW.pinned_at IS DISTINCT FROM OLD.pinned_at AND NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.professionals p ON p.id = c.professional_id
+    WHERE c.id = OLD.class_id AND p.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'forum_pin_not_allowed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_forum_message_update
+  BEFORE UPDATE ON public.forum_messages
+  FOR EACH ROW EXECUTE FUNCTION public.guard_forum_message_update();
+
+CREATE POLICY "Authors can edit their messages"
+  ON public.forum_messages FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Authors can delete their messages"
+  ON public.forum_messages FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Professionals can delete messages of their classes"
+  ON public.forum_messages FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.classes
+      JOIN public.professionals ON professionals.id = classes.professional_id
+      WHERE classes.id = forum_messages.class_id
+      AND professionals.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.pin_forum_message(_message_id UUID, _pinned BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.forum_messages m
+  SET pinned_at = CASE WHEN _pinned THEN now() END
+  FROM public.classes c
+  JOIN public.professionals p ON p.id = c.professional_id
+  WHERE m.id = _message_id
+    AND m.parent_id IS NULL
+    AND c.id = m.class_id
+    AND p.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'forum_message_not_found';
+  END IF;
+END;
+$$;
+
+-- Emoji reactions, one of each kind per member
+CREATE TABLE public.forum_reactions (
+  message_id UUID REFERENCES public.forum_messages(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+ALTER TABLE public.forum_reactions ENABLE ROW LEVEL SECURITY;
+
+-- forum_messages RLS already limits the subqueries to class members
+CREATE POLICY "Class members can view reactions"
+  ON public.forum_reactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.forum_messages
+      WHERE forum_messages.id = forum_reactions.message_id
+    )
+  );
+
+CREATE POLICY "Class members can react"
+  ON public.forum_reactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.forum_messages
+      WHERE forum_messages.id = forum_reactions.message_id
+    )
+  );
+
+CREATE POLICY "Users can remove their reactions"
+  ON public.forum_reactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Replies tell the members that the conversation continued
+CREATE OR REPLACE FUNCTION public.notify_forum_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _class public.classes;
+  _author TEXT;
+BEGIN
+  SELECT * INTO _class FROM public.classes WHERE id = NEW.class_id;
+
+  SELECT COALESCE(NULLIF(split_part(trim(full_name), ' ', 1), ''), 'Alguém')
+  INTO _author
+  FROM public.profiles
+  WHERE id = NEW.user_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, class_id)
+  SELECT member.user_id,
+         'forum_post',
+         COALESCE(_author, 'Alguém')
+           || CASE WHEN NEW.parent_id IS NULL THEN ' escreveu no fórum de '
+                   ELSE ' respondeu no fórum de ' END
+           || _class.activity,
+         left(NEW.message, 140),
+         member.link,
+         NEW.class_id
+  FROM (
+    SELECT e.student_id AS user_id, '/turma-aluno/' || NEW.class_id AS link
+    FROM public.enrollments e
+    WHERE e.class_id = NEW.class_id AND e.status IN ('active', 'paused')
+    UNION
+    SELECT p.user_id, '/turma/' || NEW.class_id
+    FROM public.professionals p
+    WHERE p.id = _class.professional_id
+  ) member
+  WHERE member.user_id <> NEW.user_id;
+
+  RETURN NULL;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.forum_messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.forum_reactions;
@@ -0,0 +1,92 @@
+-- Forum messages with their author's name and photo. profiles only exposes
+-- the caller's own row, so the view runs with its owner's rights and applies
+-- the same class membership rule as the forum_messages policy.
+CREATE VIEW public.forum_posts AS
+SELECT
+  m.*,
+  COALESCE(pr.full_name, s.full_name, p.full_name) AS author_name,
+  COALESCE(pr.avatar_url, s.avatar_url) AS author_avatar_url,
+  pr.id IS NOT NULL AS author_is_professional
+FROM public.forum_messages m
+JOIN public.classes c ON c.id = m.class_id
+LEFT JOIN public.professionals pr
+  ON pr.id = c.professional_id AND pr.user_id = m.user_id
+LEFT JOIN public.students s ON s.user_id = m.user_id
+LEFT JOIN public.profiles p ON p.id = m.user_id
+WHERE EXISTS (
+    SELECT 1 FROM public.enrollments e
+    WHERE e.class_id = m.class_id
+    AND e.student_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.professionals owner
+    WHERE owner.id = c.professional_id
+    AND owner.user_id = auth.uid()
+  );
+
+GRANT SELECT ON public.forum_posts TO authenticated;
+
+-- Last time each member opened the forum of a class
+CREATE TABLE public.forum_reads (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, class_id)
+);
+
+-- Written through mark_forum_read
+ALTER TABLE public.forum_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own forum reads"
+  ON public.forum_reads FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.mark_forum_read(_class_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  INSERT INTO public.forum_reads (user_id, class_id, last_read_at)
+  VALUES (auth.uid(), _class_id, now())
+  ON CONFLICT (user_id, class_id) DO UPDATE
+  SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
+
+-- Messages by others since the caller last opened each forum. Classes the
+-- caller never opened count every message.
+CREATE OR REPLACE FUNCTION public.forum_unread_counts()
+RETURNS TABLE (
+  class_id UUID,
+  unread_count INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH member AS (
+    SELECT e.class_id
+    FROM public.enrollments e
+    WHERE e.student_id = auth.uid() AND e.status IN ('active', 'paused')
+    UNION
+    SELECT c.id
+    FROM public.classes c
+    JOIN public.professionals p ON p.id = c.professional_id
+    WHERE p.user_id = auth.uid()
+  )
+  SELECT member.class_id, count(m.id)::INTEGER
+  FROM member
+  JOIN public.forum_messages m ON m.class_id = member.class_id
+  LEFT JOIN public.forum_reads r
+    ON r.class_id = member.class_id AND r.user_id = auth.uid()
+  WHERE m.user_id <> auth.uid()
+    AND (r.last_read_at IS NULL OR m.created_at > r.last_read_at)
+  GROUP BY member.class_id
+$$;
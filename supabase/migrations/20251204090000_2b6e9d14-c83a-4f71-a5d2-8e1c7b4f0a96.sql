@@ -0,0 +1,61 @@
+-- Waitlist status and position of the caller in several classes at once, for
+-- the student's class list. Only classes where a promotion can change
+-- something take the class lock, always in the same order.
+CREATE OR REPLACE FUNCTION public.my_waitlist_summaries(_class_ids UUID[])
+RETURNS TABLE (
+  class_id UUID,
+  my_status waitlist_status,
+  my_position INTEGER,
+  my_offer_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _class_id UUID;
+BEGIN
+  FOR _class_id IN
+    SELECT c.id
+    FROM public.classes c
+    WHERE c.id = ANY(_class_ids)
+      AND (
+        EXISTS (
+          SELECT 1 FROM public.waitlist_entries w
+          WHERE w.class_id = c.id
+            AND w.status = 'offered'
+            AND w.offer_expires_at <= now()
+        )
+        OR (
+          EXISTS (
+            SELECT 1 FROM public.waitlist_entries w
+            WHERE w.class_id = c.id AND w.status = 'waiting'
+          )
+          AND c.max_students
+            - public.class_enrolled_count(c.id)
+            - (SELECT count(*) FROM public.waitlist_entries w
+               WHERE w.class_id = c.id AND w.status = 'offered') > 0
+        )
+      )
+    ORDER BY c.id
+  LOOP
+    PERFORM public.promote_waitlist(_class_id);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT
+    mine.class_id,
+    mine.status,
+    CASE WHEN mine.status = 'waiting' THEN
+      (SELECT count(*) FROM public.waitlist_entries w
+       WHERE w.class_id = mine.class_id
+         AND w.status = 'waiting'
+         AND (w.created_at, w.id) <= (mine.created_at, mine.id))::INTEGER
+    END,
+    mine.offer_expires_at
+  FROM public.waitlist_entries mine
+  WHERE mine.class_id = ANY(_class_ids)
+    AND mine.student_id = auth.uid()
+    AND mine.status IN ('waiting', 'offered');
+END;
+$$;
@@ -0,0 +1,25 @@
+-- A demand counts as converted for the interested students who are still in
+-- the class (active or paused, the same rule as class_enrolled_count).
+-- Students who cancelled or were transferred out no longer count.
+CREATE OR REPLACE VIEW public.demand_class_conversions AS
+SELECT
+  c.id AS class_id,
+  c.activity,
+  c.archived_at,
+  d.id AS demand_id,
+  d.neighborhood,
+  d.fulfilled_at,
+  d.num_interested AS interested_count,
+  (
+    SELECT count(*)::INTEGER
+    FROM public.demand_interests i
+    JOIN public.enrollments e
+      ON e.student_id = i.student_id AND e.class_id = c.id
+    WHERE i.demand_id = d.id
+      AND e.status IN ('active', 'paused')
+  ) AS converted_count,
+  public.class_enrolled_count(c.id) AS enrolled_count
+FROM public.classes c
+JOIN public.demands d ON d.id = c.demand_id
+JOIN public.professionals p ON p.id = c.professional_id
+WHERE p.user_id = auth.uid();
@@ -0,0 +1,101 @@
+-- Payment notices also go out through the student's outbound channel, and
+-- the deliver-messages function is invoked every minute to drain the queue
+CREATE OR REPLACE FUNCTION public.notify_payment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID;
+  _activity TEXT;
+  _amount TEXT := 'R$ ' || replace(to_char(NEW.amount, 'FM999999990.00'), '.', ',');
+  _type TEXT := CASE WHEN NEW.status = 'paid' THEN 'payment_confirmed' ELSE 'payment_pending' END;
+  _title TEXT;
+  _body TEXT;
+  _channel outbound_channel;
+  _destination TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT e.student_id, c.activity INTO _student_id, _activity
+  FROM public.enrollments e
+  JOIN public.classes c ON c.id = e.class_id
+  WHERE e.id = NEW.enrollment_id;
+
+  _title := CASE WHEN NEW.status = 'paid'
+    THEN 'Pagamento confirmado: ' || _activity
+    ELSE 'Nova mensalidade: ' || _activity
+  END;
+  _body := CASE WHEN NEW.status = 'paid'
+    THEN 'Recebemos seu pagamento de ' || _amount || '.'
+    ELSE 'Mensalidade de ' || _amount || ' aguardando pagamento.'
+  END;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, class_id)
+  VALUES (_student_id, _type, _title, _body, '/turma-aluno/' || NEW.class_id, NEW.class_id);
+
+  -- Same rule as reminders: the channel chosen in reminder_settings, unless
+  -- the student muted payment notifications
+  SELECT rs.channel INTO _channel
+  FROM public.reminder_settings rs
+  WHERE rs.user_id = _student_id;
+
+  IF _channel IS NOT NULL
+     AND public.notifications_enabled(_student_id, 'payments', NEW.class_id)
+  THEN
+    SELECT CASE WHEN _channel = 'email' THEN st.email ELSE st.phone END
+    INTO _destination
+    FROM public.students st
+    WHERE st.user_id = _student_id;
+
+    IF NULLIF(trim(_destination), '') IS NOT NULL THEN
+      INSERT INTO public.outbound_messages (
+        user_id, channel, destination, title, body, link, template, params
+      )
+      VALUES (
+        _student_id,
+        _channel,
+        _destination,
+        _title,
+        _body,
+        '/turma-aluno/' || NEW.class_id,
+        'payment_notice',
+        jsonb_build_object(
+          'activity', _activity,
+          'amount', _amount,
+          'status', NEW.status
+        )
+      );
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- The project URL and the service role key are read from Vault, so they stay
+-- out of the migrations. Create them once per project:
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+SELECT cron.schedule(
+  'deliver-outbound-messages',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/deliver-messages',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
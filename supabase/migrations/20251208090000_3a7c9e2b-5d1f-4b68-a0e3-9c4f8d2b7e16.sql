@@ -0,0 +1,99 @@
+-- Issuing a certificate again returns the latest one for the enrollment
+-- when nothing it certifies has changed, instead of a duplicate with a new
+-- code
+CREATE OR REPLACE FUNCTION public.issue_attendance_certificate(_enrollment_id UUID)
+RETURNS SETOF public.attendance_certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enrollment public.enrollments;
+  _total INTEGER;
+  _present INTEGER;
+  _first DATE;
+  _last DATE;
+  _code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _enrollment
+  FROM public.enrollments
+  WHERE id = _enrollment_id AND student_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'enrollment_not_found';
+  END IF;
+
+  SELECT count(*), count(*) FILTER (WHERE a.present), min(a.date), max(a.date)
+  INTO _total, _present, _first, _last
+  FROM public.attendance a
+  WHERE a.enrollment_id = _enrollment.id;
+
+  IF _present = 0 THEN
+    RAISE EXCEPTION 'certificate_no_attendance';
+  END IF;
+
+  RETURN QUERY
+  SELECT ac.*
+  FROM public.attendance_certificates ac
+  JOIN public.classes c ON c.id = _enrollment.class_id
+  JOIN public.professionals p ON p.id = c.professional_id
+  LEFT JOIN public.students s ON s.user_id = _enrollment.student_id
+  LEFT JOIN public.profiles pr ON pr.id = _enrollment.student_id
+  WHERE ac.student_id = _enrollment.student_id
+    AND ac.enrollment_id = _enrollment.id
+    AND ac.sessions_total = _total
+    AND ac.sessions_present = _present
+    AND ac.period_start = _first
+    AND ac.period_end = _last
+    AND ac.student_name = COALESCE(pr.full_name, s.full_name, '')
+    AND ac.activity = c.activity
+    AND ac.professional_name = p.full_name
+    AND ac.cref = p.cref
+  ORDER BY ac.issued_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  -- 12 hex digits in groups of four, e.g. 3F9A-0C21-B7E4
+  LOOP
+    _code := upper(encode(extensions.gen_random_bytes(6), 'hex'));
+    _code := substr(_code, 1, 4) || '-' || substr(_code, 5, 4) || '-' || substr(_code, 9, 4);
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.attendance_certificates WHERE code = _code
+    );
+  END LOOP;
+
+  RETURN QUERY
+  INSERT INTO public.attendance_certificates (
+    code, enrollment_id, student_id, class_id, student_name, activity,
+    professional_name, cref, period_start, period_end, sessions_total,
+    sessions_present, attendance_rate
+  )
+  SELECT
+    _code,
+    _enrollment.id,
+    _enrollment.student_id,
+    c.id,
+    COALESCE(pr.full_name, s.full_name, ''),
+    c.activity,
+    p.full_name,
+    p.cref,
+    _first,
+    _last,
+    _total,
+    _present,
+    round(_present * 100.0 / _total, 1)
+  FROM public.classes c
+  JOIN public.professionals p ON p.id = c.professional_id
+  LEFT JOIN public.students s ON s.user_id = _enrollment.student_id
+  LEFT JOIN public.profiles pr ON pr.id = _enrollment.student_id
+  WHERE c.id = _enrollment.class_id
+  RETURNING *;
+END;
+$$;
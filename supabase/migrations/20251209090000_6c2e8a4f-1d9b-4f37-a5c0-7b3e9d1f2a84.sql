@@ -0,0 +1,36 @@
+-- Sessions are generated eight weeks ahead only when a class is created,
+-- its schedule changes or its page is opened. A daily job keeps the horizon
+-- moving for every active class, so reminders don't stop for classes nobody
+-- opens.
+CREATE OR REPLACE FUNCTION public.extend_class_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _class RECORD;
+  _inserted INTEGER := 0;
+BEGIN
+  FOR _class IN
+    SELECT id, timezone FROM public.classes WHERE archived_at IS NULL
+  LOOP
+    _inserted := _inserted + public.generate_class_sessions(
+      _class.id,
+      (now() AT TIME ZONE _class.timezone)::DATE
+    );
+  END LOOP;
+
+  RETURN _inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.extend_class_sessions() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'extend-class-sessions',
+  '0 3 * * *',
+  $$SELECT public.extend_class_sessions()$$
+);
+
+SELECT public.extend_class_sessions();
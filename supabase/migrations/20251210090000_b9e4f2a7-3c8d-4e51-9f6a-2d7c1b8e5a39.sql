@@ -0,0 +1,18 @@
+-- Professional profiles are public. Visitors without an account read only
+-- the columns shown on the profile page; CPF and birth date stay private.
+REVOKE SELECT ON public.professionals FROM anon;
+
+GRANT SELECT (
+  id, user_id, full_name, specialty, cref, cref_verified_at, avatar_url,
+  bio, certifications, experience_years
+) ON public.professionals TO anon;
+
+CREATE POLICY "Visitors can view professional profiles"
+  ON public.professionals FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Visitors can view classes"
+  ON public.classes FOR SELECT
+  TO anon
+  USING (true);
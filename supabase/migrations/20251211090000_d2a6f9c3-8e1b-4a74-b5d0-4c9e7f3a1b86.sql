@@ -0,0 +1,150 @@
+-- Attendance analytics of a class computed in the database, so the page
+-- loads summary rows instead of the whole attendance history. Sessions are
+-- ordered by their own date and start time.
+
+-- One row per student with marks: weekday rates (Sunday first, null for
+-- weekdays without marks) and streaks counted from the latest session. The
+-- row with a null enrollment_id holds the weekday rates of the whole class.
+CREATE OR REPLACE FUNCTION public.class_attendance_stats(_class_id UUID)
+RETURNS TABLE (
+  enrollment_id UUID,
+  weekday_rates NUMERIC[],
+  current_streak INTEGER,
+  current_present BOOLEAN,
+  best_present_streak INTEGER,
+  consecutive_absences INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.professionals p ON p.id = c.professional_id
+    WHERE c.id = _class_id AND p.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'class_not_found';
+  END IF;
+
+  RETURN QUERY
+  WITH marks AS (
+    SELECT
+      a.enrollment_id AS enrollment,
+      EXTRACT(DOW FROM s.session_date)::INTEGER AS weekday,
+      a.present IS TRUE AS present,
+      row_number() OVER (
+        PARTITION BY a.enrollment_id
+        ORDER BY s.session_date DESC, s.start_time DESC NULLS LAST, s.id DESC
+      ) AS recent
+    FROM public.attendance a
+    JOIN public.class_sessions s ON s.id = a.session_id
+    WHERE s.class_id = _class_id
+  ),
+  -- Consecutive marks in the same state share a run
+  runs AS (
+    SELECT
+      r.enrollment,
+      r.present,
+      count(*)::INTEGER AS length,
+      min(r.recent) AS first_recent
+    FROM (
+      SELECT
+        m.*,
+        m.recent - row_number() OVER (
+          PARTITION BY m.enrollment, m.present ORDER BY m.recent
+        ) AS run
+      FROM marks m
+    ) r
+    GROUP BY r.enrollment, r.present, r.run
+  ),
+  streaks AS (
+    SELECT
+      r.enrollment,
+      max(r.length) FILTER (WHERE r.first_recent = 1) AS current_streak,
+      bool_or(r.present) FILTER (WHERE r.first_recent = 1) AS current_present,
+      COALESCE(max(r.length) FILTER (WHERE r.present), 0) AS best_present_streak
+    FROM runs r
+    GROUP BY r.enrollment
+  ),
+  weekdays AS (
+    SELECT
+      w.enrollment,
+      array_agg(w.rate ORDER BY w.day) AS rates
+    FROM (
+      SELECT
+        who.enrollment,
+        d.day,
+        (
+          SELECT round(
+            count(*) FILTER (WHERE m.present) * 100.0 / NULLIF(count(*), 0), 1
+          )
+          FROM marks m
+          WHERE m.weekday = d.day
+            AND (who.enrollment IS NULL OR m.enrollment = who.enrollment)
+        ) AS rate
+      FROM (
+        SELECT DISTINCT m.enrollment FROM marks m
+        UNION ALL
+        SELECT NULL::UUID
+      ) who
+      CROSS JOIN generate_series(0, 6) AS d(day)
+    ) w
+    GROUP BY w.enrollment
+  )
+  SELECT
+    w.enrollment,
+    w.rates,
+    s.current_streak::INTEGER,
+    s.current_present,
+    s.best_present_streak::INTEGER,
+    CASE WHEN s.current_present THEN 0 ELSE s.current_streak END::INTEGER
+  FROM weekdays w
+  LEFT JOIN streaks s ON s.enrollment = w.enrollment;
+END;
+$$;
+
+-- Attendance rate of the class in each of its latest sessions with marks,
+-- oldest first
+CREATE OR REPLACE FUNCTION public.class_attendance_trend(
+  _class_id UUID,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  session_id UUID,
+  session_date DATE,
+  attendance_rate NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.professionals p ON p.id = c.professional_id
+    WHERE c.id = _class_id AND p.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'class_not_found';
+  END IF;
+
+  RETURN QUERY
+  SELECT t.id, t.day, t.rate
+  FROM (
+    SELECT
+      s.id,
+      s.session_date AS day,
+      s.start_time,
+      round(count(*) FILTER (WHERE a.present) * 100.0 / count(*), 1) AS rate
+    FROM public.attendance a
+    JOIN public.class_sessions s ON s.id = a.session_id
+    WHERE s.class_id = _class_id
+    GROUP BY s.id
+    ORDER BY s.session_date DESC, s.start_time DESC NULLS LAST, s.id DESC
+    LIMIT _limit
+  ) t
+  ORDER BY t.day, t.start_time NULLS FIRST, t.id;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- forum_posts runs with the caller's rights, so the forum_messages policies
+-- decide which messages are visible. Only the author's name and photo are
+-- resolved with elevated rights, one message at a time.
+CREATE OR REPLACE FUNCTION public.forum_message_author(_message_id UUID)
+RETURNS TABLE (
+  author_name TEXT,
+  author_avatar_url TEXT,
+  author_is_professional BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(pr.full_name, s.full_name, p.full_name),
+    COALESCE(pr.avatar_url, s.avatar_url),
+    pr.id IS NOT NULL
+  FROM public.forum_messages m
+  JOIN public.classes c ON c.id = m.class_id
+  LEFT JOIN public.professionals pr
+    ON pr.id = c.professional_id AND pr.user_id = m.user_id
+  LEFT JOIN public.students s ON s.user_id = m.user_id
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.id = _message_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.forum_message_author(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.forum_message_author(UUID) TO authenticated;
+
+CREATE OR REPLACE VIEW public.forum_posts
+WITH (security_invoker = true) AS
+SELECT
+  m.*,
+  a.author_name,
+  a.author_avatar_url,
+  a.author_is_professional
+FROM public.forum_messages m
+CROSS JOIN LATERAL public.forum_message_author(m.id) a;
+
+-- The forum is read up to the newest message the caller actually loaded, so
+-- messages posted while the page was open still count as unread. The mark
+-- never moves back.
+DROP FUNCTION public.mark_forum_read(UUID);
+
+CREATE OR REPLACE FUNCTION public.mark_forum_read(
+  _class_id UUID,
+  _read_at TIMESTAMPTZ
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  INSERT INTO public.forum_reads (user_id, class_id, last_read_at)
+  VALUES (auth.uid(), _class_id, LEAST(_read_at, now()))
+  ON CONFLICT (user_id, class_id) DO UPDATE
+  SET last_read_at = GREATEST(forum_reads.last_read_at, EXCLUDED.last_read_at);
+END;
+$$;
@@ -0,0 +1,164 @@
+-- Waitlist promotions no longer run for any class a client asks about.
+-- promote_waitlist is internal; reads only promote classes where the caller
+-- is in line, and a cron job expires stale offers everywhere else.
+REVOKE EXECUTE ON FUNCTION public.promote_waitlist(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Whether a promotion would change anything: an offer expired, or someone is
+-- waiting for a spot that is free
+CREATE OR REPLACE FUNCTION public.waitlist_promotion_due(_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    EXISTS (
+      SELECT 1 FROM public.waitlist_entries w
+      WHERE w.class_id = _class_id
+        AND w.status = 'offered'
+        AND w.offer_expires_at <= now()
+    )
+    OR (
+      EXISTS (
+        SELECT 1 FROM public.waitlist_entries w
+        WHERE w.class_id = _class_id AND w.status = 'waiting'
+      )
+      AND (
+        SELECT c.max_students
+          - public.class_enrolled_count(c.id)
+          - (SELECT count(*) FROM public.waitlist_entries w
+             WHERE w.class_id = c.id AND w.status = 'offered')
+        FROM public.classes c
+        WHERE c.id = _class_id
+      ) > 0
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.waitlist_promotion_due(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.class_waitlist_summary(_class_id UUID)
+RETURNS TABLE (
+  active_count INTEGER,
+  offered_count INTEGER,
+  waiting_count INTEGER,
+  my_status waitlist_status,
+  my_position INTEGER,
+  my_offer_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mine public.waitlist_entries;
+BEGIN
+  SELECT * INTO _mine
+  FROM public.waitlist_entries
+  WHERE class_id = _class_id
+    AND student_id = auth.uid()
+    AND status IN ('waiting', 'offered');
+
+  IF _mine.id IS NOT NULL AND public.waitlist_promotion_due(_class_id) THEN
+    PERFORM public.promote_waitlist(_class_id);
+
+    SELECT * INTO _mine
+    FROM public.waitlist_entries
+    WHERE id = _mine.id AND status IN ('waiting', 'offered');
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    public.class_enrolled_count(_class_id),
+    (SELECT count(*) FROM public.waitlist_entries w
+     WHERE w.class_id = _class_id AND w.status = 'offered')::INTEGER,
+    (SELECT count(*) FROM public.waitlist_entries w
+     WHERE w.class_id = _class_id AND w.status = 'waiting')::INTEGER,
+    _mine.status,
+    CASE WHEN _mine.status = 'waiting' THEN
+      (SELECT count(*) FROM public.waitlist_entries w
+       WHERE w.class_id = _class_id
+         AND w.status = 'waiting'
+         AND (w.created_at, w.id) <= (_mine.created_at, _mine.id))::INTEGER
+    END,
+    _mine.offer_expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.my_waitlist_summaries(_class_ids UUID[])
+RETURNS TABLE (
+  class_id UUID,
+  my_status waitlist_status,
+  my_position INTEGER,
+  my_offer_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _class_id UUID;
+BEGIN
+  FOR _class_id IN
+    SELECT DISTINCT w.class_id
+    FROM public.waitlist_entries w
+    WHERE w.class_id = ANY(_class_ids)
+      AND w.student_id = auth.uid()
+      AND w.status IN ('waiting', 'offered')
+      AND public.waitlist_promotion_due(w.class_id)
+    ORDER BY w.class_id
+  LOOP
+    PERFORM public.promote_waitlist(_class_id);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT
+    mine.class_id,
+    mine.status,
+    CASE WHEN mine.status = 'waiting' THEN
+      (SELECT count(*) FROM public.waitlist_entries w
+       WHERE w.class_id = mine.class_id
+         AND w.status = 'waiting'
+         AND (w.created_at, w.id) <= (mine.created_at, mine.id))::INTEGER
+    END,
+    mine.offer_expires_at
+  FROM public.waitlist_entries mine
+  WHERE mine.class_id = ANY(_class_ids)
+    AND mine.student_id = auth.uid()
+    AND mine.status IN ('waiting', 'offered');
+END;
+$$;
+
+-- Offers expire even when nobody in line opens the app
+CREATE OR REPLACE FUNCTION public.promote_due_waitlists()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _class_id UUID;
+  _offered INTEGER := 0;
+BEGIN
+  FOR _class_id IN
+    SELECT DISTINCT w.class_id
+    FROM public.waitlist_entries w
+    WHERE w.status IN ('waiting', 'offered')
+    ORDER BY w.class_id
+  LOOP
+    IF public.waitlist_promotion_due(_class_id) THEN
+      _offered := _offered + public.promote_waitlist(_class_id);
+    END IF;
+  END LOOP;
+
+  RETURN _offered;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_due_waitlists() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'promote-due-waitlists',
+  '*/5 * * * *',
+  $$SELECT public.promote_due_waitlists()$$
+);
@@ -0,0 +1,12 @@
+-- Pauses end on a schedule instead of whenever a client lists enrollments:
+-- resume_due_enrollments updates every enrollment, so clients can no longer
+-- call it. Hourly, so pauses end soon after midnight in any time zone.
+REVOKE EXECUTE ON FUNCTION public.resume_due_enrollments() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'resume-due-enrollments',
+  '5 * * * *',
+  $$SELECT public.resume_due_enrollments()$$
+);
+
+SELECT public.resume_due_enrollments();
@@ -0,0 +1,147 @@
+-- Words of the search are matched literally: with LIKE, "%", "_" and "\"
+-- typed by the user acted as wildcards.
+CREATE OR REPLACE FUNCTION public.search_classes(
+  _query TEXT DEFAULT NULL,
+  _category class_category DEFAULT NULL,
+  _level class_level DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _weekdays SMALLINT[] DEFAULT NULL,
+  _starts_after TIME DEFAULT NULL,
+  _ends_before TIME DEFAULT NULL,
+  _only_available BOOLEAN DEFAULT false,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT 10,
+  _sort TEXT DEFAULT 'recent',
+  _limit INTEGER DEFAULT 12,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  professional_id UUID,
+  professional_name TEXT,
+  activity TEXT,
+  description TEXT,
+  category class_category,
+  level class_level,
+  location TEXT,
+  neighborhood TEXT,
+  price NUMERIC,
+  max_students INTEGER,
+  schedule TEXT,
+  weekdays SMALLINT[],
+  start_time TIME,
+  end_time TIME,
+  timezone TEXT,
+  start_date DATE,
+  end_date DATE,
+  enrolled_count INTEGER,
+  available_spots INTEGER,
+  distance_km DOUBLE PRECISION,
+  average_rating NUMERIC,
+  review_count INTEGER,
+  professional_average_rating NUMERIC,
+  total_count INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH words AS (
+    SELECT array_agg(w) AS list
+    FROM regexp_split_to_table(public.search_normalize(trim(_query)), '\s+') AS w
+    WHERE w <> ''
+  ),
+  matched AS (
+    SELECT
+      c.*,
+      p.full_name AS professional_name,
+      public.class_enrolled_count(c.id) AS enrolled_count,
+      (SELECT count(*)::INTEGER FROM public.waitlist_entries w
+       WHERE w.class_id = c.id
+         AND w.status = 'offered'
+         AND w.offer_expires_at > now()) AS offered_count,
+      CASE WHEN _latitude IS NOT NULL AND c.latitude IS NOT NULL THEN
+        public.distance_km(_latitude, _longitude, c.latitude, c.longitude)
+      END AS distance_km
+    FROM public.classes c
+    JOIN public.professionals p ON p.id = c.professional_id
+    CROSS JOIN words
+    WHERE c.archived_at IS NULL
+      AND (_category IS NULL OR c.category = _category)
+      AND (_level IS NULL OR c.level IN (_level, 'all_levels'))
+      AND (_min_price IS NULL OR COALESCE(c.price, 0) >= _min_price)
+      AND (_max_price IS NULL OR COALESCE(c.price, 0) <= _max_price)
+      AND (COALESCE(cardinality(_weekdays), 0) = 0 OR c.weekdays && _weekdays)
+      AND (_starts_after IS NULL OR c.start_time >= _starts_after)
+      AND (_ends_before IS NULL OR c.end_time <= _ends_before)
+      AND (
+        _latitude IS NULL
+        OR (
+          c.latitude BETWEEN _latitude - _radius_km / 111.0
+                         AND _latitude + _radius_km / 111.0
+          AND c.longitude BETWEEN _longitude - _radius_km / (111.0 * greatest(cos(radians(_latitude)), 0.01))
+                              AND _longitude + _radius_km / (111.0 * greatest(cos(radians(_latitude)), 0.01))
+        )
+      )
+      AND (
+        words.list IS NULL
+        OR NOT EXISTS (
+          SELECT 1 FROM unnest(words.list) AS word
+          WHERE position(word IN public.search_normalize(concat_ws(' ',
+            c.activity, c.description, p.full_name, c.neighborhood, c.location
+          ))) = 0
+        )
+      )
+  ),
+  filtered AS (
+    SELECT
+      m.*,
+      greatest(m.max_students - m.enrolled_count - m.offered_count, 0) AS available_spots
+    FROM matched m
+    WHERE (_latitude IS NULL OR m.distance_km <= _radius_km)
+      AND (NOT _only_available
+           OR m.max_students - m.enrolled_count - m.offered_count > 0)
+  )
+  SELECT
+    f.id,
+    f.professional_id,
+    f.professional_name,
+    f.activity,
+    f.description,
+    f.category,
+    f.level,
+    f.location,
+    f.neighborhood,
+    f.price,
+    f.max_students,
+    f.schedule,
+    f.weekdays,
+    f.start_time,
+    f.end_time,
+    f.timezone,
+    f.start_date,
+    f.end_date,
+    f.enrolled_count,
+    f.available_spots,
+    f.distance_km,
+    cr.average_rating,
+    COALESCE(cr.review_count, 0),
+    pr.average_rating,
+    (count(*) OVER ())::INTEGER
+  FROM filtered f
+  LEFT JOIN public.class_rating_summary cr ON cr.class_id = f.id
+  LEFT JOIN public.professional_rating_summary pr
+    ON pr.professional_id = f.professional_id
+  ORDER BY
+    CASE WHEN _sort = 'distance' THEN f.distance_km END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_asc' THEN f.price END ASC NULLS FIRST,
+    CASE WHEN _sort = 'price_desc' THEN f.price END DESC NULLS LAST,
+    CASE WHEN _sort = 'rating' THEN cr.average_rating END DESC NULLS LAST,
+    f.created_at DESC,
+    f.id
+  LIMIT greatest(_limit, 1)
+  OFFSET greatest(_offset, 0)
+$$;
@@ -0,0 +1,54 @@
+-- Reports no longer hide a review on their own: they queue it for an admin,
+-- who either hides it (hidden_at) or dismisses the reports (clears
+-- reported_at) through the "Admins can moderate reviews" policy.
+ALTER TABLE public.class_reviews
+  ADD COLUMN reported_at TIMESTAMPTZ;
+
+CREATE INDEX class_reviews_reported_at_idx
+  ON public.class_reviews (reported_at)
+  WHERE reported_at IS NOT NULL;
+
+DROP TRIGGER on_review_reported ON public.review_reports;
+DROP FUNCTION public.hide_reported_review();
+
+CREATE OR REPLACE FUNCTION public.queue_reported_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.class_reviews
+  SET reported_at = now()
+  WHERE id = NEW.review_id AND reported_at IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_review_reported
+  AFTER INSERT ON public.review_reports
+  FOR EACH ROW EXECUTE FUNCTION public.queue_reported_review();
+
+-- Reviews hidden by the third report (in the same transaction as it) go back
+-- up and wait for an admin instead
+UPDATE public.class_reviews r
+SET hidden_at = NULL,
+    reported_at = r.hidden_at
+WHERE r.hidden_at = (
+  SELECT rr.created_at
+  FROM public.review_reports rr
+  WHERE rr.review_id = r.id
+  ORDER BY rr.created_at
+  OFFSET 2
+  LIMIT 1
+);
+
+UPDATE public.class_reviews r
+SET reported_at = (
+  SELECT min(rr.created_at) FROM public.review_reports rr
+  WHERE rr.review_id = r.id
+)
+WHERE r.reported_at IS NULL
+  AND r.hidden_at IS NULL
+  AND EXISTS (SELECT 1 FROM public.review_reports rr WHERE rr.review_id = r.id);